@@ -1,4 +1,17 @@
-import { PatternOptimizer, DualOptimizer, OptimizerError } from './optimizers';
+import {
+  PatternOptimizer,
+  PatternOptimizerOptions,
+  DEFAULT_PATTERN_OPTIMIZER_OPTIONS,
+  DualOptimizer,
+  OptimizerError,
+  createSuggestions,
+  applyAcceptedSuggestions,
+  optimizeMessageList,
+  optimizeAnthropicRequestContent,
+  optimizeToolList,
+  pruneExampleBlocks,
+  compactMessageHistory
+} from './optimizers';
 import {
   DEFAULT_CONFIG,
   OptimizerConfig,
@@ -6,17 +19,97 @@ import {
   OptimizationResult,
   SupportedModel,
   PatternCategory,
+  AggressivenessLevel,
+  AggressivenessProfile,
+  AggressivenessCategoryRule,
   AppliedPatternInfo,
   DualOptimizationResult,
   DualOptimizerConfig,
-  PatternEffectivenessMetrics
+  PatternEffectivenessMetrics,
+  ProtectedRegion,
+  ProtectedRegionType,
+  TextEdit,
+  BudgetOptimizationResult,
+  BudgetEscalationStep,
+  PatternOrderStrategy,
+  PatternOrderSearchInfo,
+  RevertReason,
+  RevertedPatternInfo,
+  OptimizationSuggestion,
+  SkipReason,
+  SkippedPatternInfo,
+  InvariantType,
+  InvariantToken,
+  InvariantCheckMode,
+  InvariantViolation,
+  DirectiveKind,
+  Directive,
+  DirectiveViolation,
+  OptimizationPassInfo,
+  MultiPassInfo,
+  PassStopReason,
+  PatternOverride,
+  PatternFilters,
+  TokenizerAdapter,
+  ChatRole,
+  ChatContentPart,
+  ChatMessage,
+  ChatRolePolicy,
+  MessageOptimizationOptions,
+  MessageOptimizationInfo,
+  MessagesOptimizationResult,
+  AnthropicCacheControl,
+  AnthropicContentBlock,
+  AnthropicMessage,
+  AnthropicMessagesRequest,
+  AnthropicTextBlockInfo,
+  AnthropicRequestOptimizationResult,
+  OpenAIToolDefinition,
+  AnthropicToolDefinition,
+  ToolDefinition,
+  ToolDefinitionFormat,
+  ToolSchemaCheck,
+  ToolOptimizationOptions,
+  ToolOptimizationInfo,
+  ToolsOptimizationResult,
+  ExampleFormat,
+  ExampleDropReason,
+  ExamplePruningOptions,
+  ExampleInfo,
+  ExamplePruningResult,
+  HistoryCompactionOptions,
+  HistoryCompactionStage,
+  HistoryDigestKind,
+  HistoryDigestEntry,
+  HistoryCompactionResult,
+  ModelTokenizerKind,
+  ModelPricing,
+  ModelInfo,
+  ModelFamilyRule,
+  ModelRegistryFile,
+  CostEstimate,
+  SavingsProjectionOptions,
+  SavingsProjection,
+  BatchOptimizationResult,
+  ContextFitOptions,
+  ContextSectionInfo,
+  ContextFitResult,
+  TokenizerMatcher,
+  TokenizerFactory,
+  TokenizerRegistrationOptions,
+  TokenizerRegistration,
+  TokenizerSource,
+  TokenizerResolution
 } from './types';
-import { countTokens } from './tokenizers';
+import { countTokens, createTokenizer } from './tokenizers';
 import { TokenCache } from './utils';
+import { getModelInfo, estimateInputCost, validateModelPricing, checkFit } from './models';
 import {
   getAvailableCategories,
   getPatternsByAggressiveness,
+  getPatternsByCategory
 } from './patterns';
+import { getAggressivenessProfile } from './patterns/aggressiveness-profiles';
 
 /**
  * Main entry point for the tokenFlo Pattern Optimizer package
@@ -76,6 +169,7 @@ export class PromptOptimizer {
   private config: OptimizerConfig;
   private optimizer: PatternOptimizer;
   private tokenCache: TokenCache;
+  private lastSuggestions: { text: string; suggestions: OptimizationSuggestion[] } | null = null;
 
   /**
    * Create a new prompt optimizer
@@ -90,6 +184,10 @@ export class PromptOptimizer {
       ...config
     };
 
+    if (this.config.pricing !== undefined) {
+      validateModelPricing(this.config.pricing);
+    }
+
     // Initialize the token cache
     this.tokenCache = new TokenCache();
 
@@ -111,19 +209,328 @@ export class PromptOptimizer {
       patterns,
       this.config.model,
       this.config.preserveFormatting,
-      this.config.trackPatternEffectiveness
+      this.config.trackPatternEffectiveness,
+      this.getPatternOptimizerOptions()
     );
   }
 
   /**
    * Optimize a prompt to reduce token usage while preserving meaning
    * 
+   * The result includes the estimated input cost saved per call when prices
+   * are known for the model, from the pricing config or the model registry,
+   * and whether the optimized text fits the model's context window when
+   * enforceContextWindow is enabled and the model is in the model registry.
+   * 
    * @param text - The prompt text to optimize
    * @returns Detailed optimization result with metrics
    * @throws {OptimizerError} If optimization fails
    */
   optimize(text: string): OptimizationResult {
-    return this.optimizer.optimize(text);
+    return this.addResultReports(this.optimizer.optimize(text));
+  }
+
+  /**
+   * Optimize several prompts, with totals over all of them
+   * 
+   * @example
+   * ```typescript
+   * const batch = optimizer.optimizeBatch(prompts);
+   * console.log(`Saved ${batch.tokensSaved} tokens, $${batch.costEstimate?.costSaved} per run`);
+   * ```
+   * 
+   * @param texts - The prompt texts to optimize
+   * @returns Result of each text with total token savings and input cost
+   * @throws {OptimizerError} If texts is not an array of strings, or optimization fails
+   */
+  optimizeBatch(texts: string[]): BatchOptimizationResult {
+    if (!Array.isArray(texts) || texts.some(text => typeof text !== 'string')) {
+      throw new OptimizerError('Texts must be an array of strings');
+    }
+
+    const results = texts.map(text => this.optimize(text));
+    const originalTokenCount = results.reduce((sum, result) => sum + result.originalTokenCount, 0);
+    const optimizedTokenCount = results.reduce((sum, result) => sum + result.optimizedTokenCount, 0);
+    const tokensSaved = originalTokenCount - optimizedTokenCount;
+    const pricing = this.getPricing();
+
+    return {
+      results,
+      originalTokenCount,
+      optimizedTokenCount,
+      tokensSaved,
+      percentSaved: originalTokenCount > 0 ? (tokensSaved / originalTokenCount) * 100 : 0,
+      costEstimate: pricing ? estimateInputCost(originalTokenCount, optimizedTokenCount, pricing) : undefined
+    };
+  }
+
+  /**
+   * Optimize an array of chat messages with a policy per role
+   * 
+   * By default system and developer messages are optimized at the 'high' level,
+   * user messages at the 'low' level, and assistant, tool and function messages
+   * are left untouched. Text parts of array-of-parts content are optimized; other
+   * parts are kept as they are. Token counts include the chat format overhead.
+   * 
+   * @example
+   * ```typescript
+   * const result = optimizer.optimizeMessages(
+   *   [{ role: 'system', content: 'You are a helpful assistant...' }, { role: 'user', content: 'Hi' }],
+   *   { rolePolicies: { user: 'none' } }
+   * );
+   * ```
+   * 
+   * @param messages - Messages in the OpenAI chat format
+   * @param options - Role policies, merged over the defaults
+   * @returns Optimized messages with per-message and total token savings
+   * @throws {OptimizerError} If the messages or a policy are invalid, or optimization fails
+   */
+  optimizeMessages(messages: ChatMessage[], options: MessageOptimizationOptions = {}): MessagesOptimizationResult {
+    let tokenizer: TokenizerAdapter | null = null;
+    return optimizeMessageList(
+      messages,
+      options,
+      this.createPolicyOptimizers(this.config.model),
+      text => (tokenizer = tokenizer || createTokenizer(this.config.model)).countTokens(text)
+    );
+  }
+
+  /**
+   * Optimize the system prompt and messages of an Anthropic Messages request
+   * 
+   * The system prompt uses the 'system' role policy and messages the policy of
+   * their role (by default 'high', 'low' for user and 'none' for assistant).
+   * Only text blocks are rewritten; tool_use, tool_result and image blocks are
+   * kept as they are. Every block at or before the last cache_control breakpoint
+   * is left unchanged so prompt cache hits are preserved. Tokens are counted with
+   * the tokenizer of the request's model, including registered tokenizers.
+   * 
+   * @param request - Request with a model, an optional system prompt and messages
+   * @param options - Role policies, merged over the defaults
+   * @returns Optimized request with per-block and total token savings
+   * @throws {OptimizerError} If the request or a policy is invalid, or optimization fails
+   */
+  optimizeAnthropicRequest(
+    request: AnthropicMessagesRequest,
+    options: MessageOptimizationOptions = {}
+  ): AnthropicRequestOptimizationResult {
+    const model = request && typeof request.model === 'string' && request.model
+      ? request.model
+      : this.config.model;
+    let tokenizer: TokenizerAdapter | null = null;
+
+    return optimizeAnthropicRequestContent(
+      request,
+      options,
+      this.createPolicyOptimizers(model),
+      text => (tokenizer = tokenizer || createTokenizer(model)).countTokens(text)
+    );
+  }
+
+  /**
+   * Optimize OpenAI or Anthropic tool definitions
+   * 
+   * Tool and parameter descriptions are shortened with the verbosity and filler
+   * patterns, and the JSON Schemas are minified by dropping titles, comments and
+   * keywords that only restate their default. Every optimized schema is checked
+   * to be valid and to accept the same values as the original; otherwise the
+   * original schema is kept. Anthropic tools at or before the last cache_control
+   * breakpoint are left unchanged. Tokens are counted on the definitions
+   * serialized as JSON, with the configured model's tokenizer.
+   * 
+   * @example
+   * ```typescript
+   * const { optimizedTools } = optimizer.optimizeTools([
+   *   { type: 'function', function: { name: 'get_weather', description: '...', parameters: { ... } } }
+   * ]);
+   * ```
+   * 
+   * @param tools - Tool definitions in the OpenAI or Anthropic format
+   * @param options - Which parts of the definitions to optimize
+   * @returns Optimized tools with per-tool and total token savings
+   * @throws {OptimizerError} If a tool definition is invalid, or optimization fails
+   */
+  optimizeTools(tools: ToolDefinition[], options: ToolOptimizationOptions = {}): ToolsOptimizationResult {
+    let descriptionOptimizer: PatternOptimizer | null = null;
+    let tokenizer: TokenizerAdapter | null = null;
+
+    return optimizeToolList(
+      tools,
+      options,
+      text => {
+        descriptionOptimizer = descriptionOptimizer || new PatternOptimizer(
+          [...getPatternsByCategory('verbosity'), ...getPatternsByCategory('filler')],
+          this.config.model,
+          this.config.preserveFormatting,
+          false,
+          this.getPatternOptimizerOptions()
+        );
+        return descriptionOptimizer.optimize(text);
+      },
+      text => (tokenizer = tokenizer || createTokenizer(this.config.model)).countTokens(text)
+    );
+  }
+
+  /**
+   * Compact a conversation history until it fits a token target
+   * 
+   * System and developer messages and the last `keepLastTurns` turns are kept
+   * verbatim. Older turns are optimized with increasingly aggressive policies
+   * ('low' to 'max' by default); if that is not enough, the oldest turns are
+   * collapsed into a single digest message listing their questions, decisions
+   * and key facts. No model is called and the output is deterministic. Tokens
+   * are counted with the configured model's tokenizer, including the chat
+   * format overhead.
+   * 
+   * @example
+   * ```typescript
+   * const result = optimizer.compactHistory(messages, { targetTokens: 3000, keepLastTurns: 2 });
+   * console.log(result.stage, result.targetMet, result.collapsedMessageCount);
+   * ```
+   * 
+   * @param messages - Conversation in the OpenAI chat format
+   * @param options - Token target, verbatim turns and escalation policies
+   * @returns Compacted conversation with the stage that met the target
+   * @throws {OptimizerError} If the messages or options are invalid, or optimization fails
+   */
+  compactHistory(messages: ChatMessage[], options: HistoryCompactionOptions): HistoryCompactionResult {
+    let tokenizer: TokenizerAdapter | null = null;
+    return compactMessageHistory(
+      messages,
+      options,
+      this.createPolicyOptimizers(this.config.model),
+      text => (tokenizer = tokenizer || createTokenizer(this.config.model)).countTokens(text)
+    );
+  }
+
+  /**
+   * Drop redundant few-shot examples from a prompt
+   * 
+   * Examples are found as XML `<example>` elements, markdown sections headed
+   * "Example ..." and Input/Output pairs. Near-duplicates of an earlier example
+   * (by word shingle similarity) are dropped, and with `maxExampleTokens` the
+   * most diverse subset of the rest that fits the budget is kept. Tokens are
+   * counted with the configured model's tokenizer.
+   * 
+   * @example
+   * ```typescript
+   * const result = optimizer.pruneExamples(prompt, { maxExampleTokens: 400 });
+   * console.log(result.droppedExamples.map(example => [example.index, example.dropReason]));
+   * ```
+   * 
+   * @param text - Prompt containing few-shot examples
+   * @param options - Example token budget and similarity settings
+   * @returns Pruned prompt with the kept and dropped examples
+   * @throws {OptimizerError} If the text or options are invalid
+   */
+  pruneExamples(text: string, options: ExamplePruningOptions = {}): ExamplePruningResult {
+    let tokenizer: TokenizerAdapter | null = null;
+    return pruneExampleBlocks(
+      text,
+      options,
+      text => (tokenizer = tokenizer || createTokenizer(this.config.model)).countTokens(text)
+    );
+  }
+
+  /**
+   * Optimize a prompt until it fits within a token budget
+   * 
+   * Patterns are applied one at a time, escalating through the 'low', 'medium'
+   * and 'high' levels and finally the 'max' patterns. Optimization stops as soon
+   * as the text fits within the budget, counted with the configured model's tokenizer.
+   * 
+   * @param text - The prompt text to optimize
+   * @param maxTokens - Maximum number of tokens the optimized text may use
+   * @returns Optimization result with whether the budget was met and the escalation step that met it
+   * @throws {OptimizerError} If maxTokens is invalid or optimization fails
+   */
+  optimizeToBudget(text: string, maxTokens: number): BudgetOptimizationResult {
+    if (typeof maxTokens !== 'number' || isNaN(maxTokens) || maxTokens < 0) {
+      throw new OptimizerError('maxTokens must be a non-negative number');
+    }
+
+    // Remember which escalation step each pattern belongs to
+    const steps = this.getBudgetEscalationSteps();
+    const stepByPattern = new Map<string, BudgetEscalationStep>();
+    const patterns: OptimizationPattern[] = [];
+    steps.forEach(({ step, patterns: stepPatterns }) => {
+      stepPatterns.forEach(pattern => {
+        stepByPattern.set(pattern.id, step);
+        patterns.push(pattern);
+      });
+    });
+
+    const budgetOptimizer = new PatternOptimizer(
+      patterns,
+      this.config.model,
+      this.config.preserveFormatting,
+      this.config.trackPatternEffectiveness,
+      {
+        ...this.getPatternOptimizerOptions(),
+        tokenBudget: maxTokens
+      }
+    );
+
+    const result = this.addResultReports(budgetOptimizer.optimize(text));
+    const budgetMet = result.optimizedTokenCount <= maxTokens;
+    const lastApplied = result.appliedPatterns[result.appliedPatterns.length - 1];
+
+    let escalationStep: BudgetEscalationStep | null = null;
+    if (!budgetMet) {
+      // Every step was exhausted
+      escalationStep = steps[steps.length - 1].step;
+    } else if (lastApplied) {
+      escalationStep = stepByPattern.get(lastApplied.id) || null;
+    }
+
+    return {
+      ...result,
+      maxTokens,
+      budgetMet,
+      escalationStep,
+      escalationPatternId: budgetMet && lastApplied ? lastApplied.id : undefined
+    };
+  }
+
+  /**
+   * Suggest discrete edits that can be reviewed and accepted one at a time
+   * 
+   * Suggestions are the regions the optimization would rewrite. They never overlap,
+   * and accepting all of them produces the same text as optimize().
+   * 
+   * @param text - The prompt text to review
+   * @returns Suggestions sorted by offset, each with its pattern and token delta
+   * @throws {OptimizerError} If optimization fails
+   */
+  suggest(text: string): OptimizationSuggestion[] {
+    const result = this.optimizer.optimize(text);
+    const suggestions = createSuggestions(result, candidate => this.countTokens(candidate));
+
+    this.lastSuggestions = { text, suggestions };
+    return suggestions.map(suggestion => ({ ...suggestion, patternIds: [...suggestion.patternIds] }));
+  }
+
+  /**
+   * Apply only the accepted suggestions for a text
+   * 
+   * Uses the suggestions last returned by suggest() for the same text, so the
+   * result matches what was reviewed even if the configuration changed since.
+   * 
+   * @param text - The text the suggestions were made for
+   * @param acceptedIds - IDs of the accepted suggestions
+   * @returns Text with only the accepted suggestions applied
+   * @throws {OptimizerError} If an ID does not belong to a suggestion for this text
+   */
+  applySuggestions(text: string, acceptedIds: string[]): string {
+    if (!Array.isArray(acceptedIds)) {
+      throw new OptimizerError('Accepted suggestion IDs must be an array');
+    }
+
+    const suggestions = this.lastSuggestions && this.lastSuggestions.text === text
+      ? this.lastSuggestions.suggestions
+      : createSuggestions(this.optimizer.optimize(text), candidate => this.countTokens(candidate));
+
+    return applyAcceptedSuggestions(text, suggestions, acceptedIds);
   }
 
   /**
@@ -185,6 +592,34 @@ export class PromptOptimizer {
     this.updatePatterns();
   }
 
+  /**
+   * Disable a single pattern, leaving the rest of its category enabled
+   * 
+   * @param patternId - ID of the pattern to disable
+   * @throws {OptimizerError} If patternId is not a non-empty string
+   */
+  disablePattern(patternId: string): void {
+    if (!patternId || typeof patternId !== 'string') {
+      throw new OptimizerError('Pattern ID must be a non-empty string');
+    }
+
+    const disabled = this.config.disabledPatternIds || [];
+    if (!disabled.includes(patternId)) {
+      this.config.disabledPatternIds = [...disabled, patternId];
+      this.optimizer.setOptions({ disabledPatternIds: this.config.disabledPatternIds });
+    }
+  }
+
+  /**
+   * Re-enable a pattern disabled with disablePattern or disabledPatternIds
+   * 
+   * @param patternId - ID of the pattern to enable
+   */
+  enablePattern(patternId: string): void {
+    this.config.disabledPatternIds = (this.config.disabledPatternIds || []).filter(id => id !== patternId);
+    this.optimizer.setOptions({ disabledPatternIds: this.config.disabledPatternIds });
+  }
+
   /**
    * Set the aggressiveness level for optimization
    * 
@@ -192,10 +627,12 @@ export class PromptOptimizer {
    *   - 'low': Minimal changes, preserves style and formatting
    *   - 'medium': Balanced approach, moderate token reduction
    *   - 'high': Maximum token reduction, may alter style
-   * @throws {OptimizerError} If level is invalid
+   *   - 'max': Everything in 'high' plus rewrites that trade nuance for tokens
+   *   - the name of a profile registered with registerAggressivenessProfile
+   * @throws {OptimizerError} If level is not a known profile
    */
-  setAggressiveness(level: 'low' | 'medium' | 'high'): void {
-    if (!['low', 'medium', 'high'].includes(level)) {
+  setAggressiveness(level: AggressivenessLevel | string): void {
+    if (typeof level !== 'string' || !getAggressivenessProfile(level)) {
       throw new OptimizerError(`Invalid aggressiveness level: ${level}`);
     }
 
@@ -233,6 +670,113 @@ export class PromptOptimizer {
     this.optimizer.setPreserveFormatting(preserve);
   }
 
+  /**
+   * Set whether code, quoted literals and template placeholders are protected
+   * from being rewritten
+   * 
+   * @param protect - Whether to protect these regions
+   * @throws {OptimizerError} If protect is not a boolean
+   */
+  setProtectRegions(protect: boolean): void {
+    if (typeof protect !== 'boolean') {
+      throw new OptimizerError('Protect regions must be a boolean');
+    }
+
+    this.config.protectRegions = protect;
+    this.optimizer.setOptions({ protectRegions: protect });
+  }
+
+  /**
+   * Add a regular expression whose matches must never be rewritten
+   * 
+   * @param pattern - Regular expression describing the protected text
+   * @throws {OptimizerError} If pattern is not a regular expression
+   */
+  addProtectedPattern(pattern: RegExp): void {
+    if (!(pattern instanceof RegExp)) {
+      throw new OptimizerError('Protected pattern must be a regular expression');
+    }
+
+    this.config.protectedPatterns = [...(this.config.protectedPatterns || []), pattern];
+    this.optimizer.setOptions({ protectedPatterns: this.config.protectedPatterns });
+  }
+
+  /**
+   * Set the largest token increase a single pattern step may cause before it is reverted
+   * 
+   * @param threshold - Maximum allowed token delta per step (0 reverts any increase),
+   *   or undefined to keep every step
+   * @throws {OptimizerError} If threshold is not a number or undefined
+   */
+  setRevertThreshold(threshold: number | undefined): void {
+    if (threshold !== undefined && (typeof threshold !== 'number' || isNaN(threshold))) {
+      throw new OptimizerError('Revert threshold must be a number');
+    }
+
+    this.config.revertThreshold = threshold;
+    this.optimizer.setOptions({ revertThreshold: threshold });
+  }
+
+  /**
+   * Set the maximum number of passes over the pattern list
+   * 
+   * @param maxPasses - Maximum number of passes (1 disables multi-pass optimization)
+   * @throws {OptimizerError} If maxPasses is not a positive integer
+   */
+  setMaxPasses(maxPasses: number): void {
+    if (typeof maxPasses !== 'number' || !Number.isInteger(maxPasses) || maxPasses < 1) {
+      throw new OptimizerError('Max passes must be a positive integer');
+    }
+
+    this.config.maxPasses = maxPasses;
+    this.optimizer.setOptions({ maxPasses });
+  }
+
+  /**
+   * Set the maximum time a single pattern application may run
+   * 
+   * @param budgetMs - Time budget in ms; patterns that exceed it are skipped with reason 'timeout'
+   * @throws {OptimizerError} If budgetMs is not a positive number
+   */
+  setPatternTimeBudget(budgetMs: number): void {
+    if (typeof budgetMs !== 'number' || isNaN(budgetMs) || budgetMs <= 0) {
+      throw new OptimizerError('Pattern time budget must be a positive number');
+    }
+
+    this.config.patternTimeBudgetMs = budgetMs;
+    this.optimizer.setOptions({ patternTimeBudgetMs: budgetMs });
+  }
+
+  /**
+   * Set how pattern steps that lose numbers, entities, URLs, negations or other invariants are handled
+   * 
+   * @param mode - 'off' to skip the check, 'flag' to report violations, 'revert' to also undo the step
+   * @throws {OptimizerError} If mode is invalid
+   */
+  setInvariantCheck(mode: InvariantCheckMode): void {
+    if (!['off', 'flag', 'revert'].includes(mode)) {
+      throw new OptimizerError(`Invalid invariant check mode: ${mode}`);
+    }
+
+    this.config.invariantCheck = mode;
+    this.optimizer.setOptions({ invariantCheck: mode });
+  }
+
+  /**
+   * Set whether pattern steps that drop a MUST/NEVER/IMPORTANT-style directive are reverted
+   * 
+   * @param preserve - Whether to preserve directives
+   * @throws {OptimizerError} If preserve is not a boolean
+   */
+  setPreserveDirectives(preserve: boolean): void {
+    if (typeof preserve !== 'boolean') {
+      throw new OptimizerError('Preserve directives must be a boolean');
+    }
+
+    this.config.preserveDirectives = preserve;
+    this.optimizer.setOptions({ preserveDirectives: preserve });
+  }
+
   /**
    * Set whether to track pattern effectiveness metrics
    * 
@@ -248,6 +792,34 @@ export class PromptOptimizer {
     this.optimizer.setTrackEffectiveness(track);
   }
 
+  /**
+   * Set the prices to estimate costs with, overriding the model registry's prices
+   * 
+   * @param pricing - Prices in USD per million tokens, or undefined to use the model registry's
+   * @throws {OptimizerError} If a price is not a non-negative number
+   */
+  setPricing(pricing: ModelPricing | undefined): void {
+    if (pricing !== undefined) {
+      validateModelPricing(pricing);
+    }
+
+    this.config.pricing = pricing ? { ...pricing } : undefined;
+  }
+
+  /**
+   * Set whether results report if the optimized text fits the model's context window
+   * 
+   * @param enforce - Whether to check the fit, or the options for the check
+   * @throws {OptimizerError} If enforce is not a boolean or an options object
+   */
+  setEnforceContextWindow(enforce: boolean | ContextFitOptions): void {
+    if (typeof enforce !== 'boolean' && (typeof enforce !== 'object' || enforce === null)) {
+      throw new OptimizerError('Enforce context window must be a boolean or an options object');
+    }
+
+    this.config.enforceContextWindow = typeof enforce === 'boolean' ? enforce : { ...enforce };
+  }
+
   /**
    * Get the current configuration
    * 
@@ -294,6 +866,114 @@ export class PromptOptimizer {
     return this.optimizer.getMostEffectivePatterns(limit);
   }
 
+  /**
+   * Get the prices of the configured model, from the config or the model registry
+   * @private
+   */
+  private getPricing(): ModelPricing | undefined {
+    if (this.config.pricing) return this.config.pricing;
+
+    const info = getModelInfo(this.config.model);
+    return info ? info.pricing : undefined;
+  }
+
+  /**
+   * Add the estimated input cost per call to a result, if prices are known,
+   * and whether it fits the context window, if enforceContextWindow is enabled
+   * and the model is in the model registry
+   * @private
+   */
+  private addResultReports<T extends OptimizationResult>(result: T): T {
+    const reported: T = { ...result };
+
+    const pricing = this.getPricing();
+    if (pricing) {
+      reported.costEstimate = estimateInputCost(result.originalTokenCount, result.optimizedTokenCount, pricing);
+    }
+
+    // Like costs, the fit is only reported for models whose context window is known
+    const { enforceContextWindow } = this.config;
+    if (enforceContextWindow && getModelInfo(this.config.model)) {
+      const options = enforceContextWindow === true ? {} : enforceContextWindow;
+      reported.contextFit = checkFit(result.optimizedText, this.config.model, options);
+    }
+
+    return reported;
+  }
+
+  /**
+   * Get the PatternOptimizer options derived from the current config
+   * @private
+   */
+  private getPatternOptimizerOptions(): Partial<PatternOptimizerOptions> {
+    return {
+      protectRegions: this.config.protectRegions ?? DEFAULT_PATTERN_OPTIMIZER_OPTIONS.protectRegions,
+      protectedPatterns: this.config.protectedPatterns ?? DEFAULT_PATTERN_OPTIMIZER_OPTIONS.protectedPatterns,
+      revertThreshold: this.config.revertThreshold,
+      maxPasses: this.config.maxPasses ?? DEFAULT_PATTERN_OPTIMIZER_OPTIONS.maxPasses,
+      patternTimeBudgetMs: this.config.patternTimeBudgetMs ?? DEFAULT_PATTERN_OPTIMIZER_OPTIONS.patternTimeBudgetMs,
+      invariantCheck: this.config.invariantCheck ?? DEFAULT_PATTERN_OPTIMIZER_OPTIONS.invariantCheck,
+      preserveDirectives: this.config.preserveDirectives ?? DEFAULT_PATTERN_OPTIMIZER_OPTIONS.preserveDirectives,
+      disabledPatternIds: this.config.disabledPatternIds ?? DEFAULT_PATTERN_OPTIMIZER_OPTIONS.disabledPatternIds,
+      onlyPatternIds: this.config.onlyPatternIds ?? DEFAULT_PATTERN_OPTIMIZER_OPTIONS.onlyPatternIds,
+      patternOverrides: this.config.patternOverrides ?? DEFAULT_PATTERN_OPTIMIZER_OPTIONS.patternOverrides
+    };
+  }
+
+  /**
+   * Create the text optimizers of role policies for a model
+   * 
+   * Each policy gets an optimizer sharing everything but the aggressiveness and
+   * model with this one, created when first used.
+   * @private
+   */
+  private createPolicyOptimizers(
+    model: SupportedModel
+  ): (policy: ChatRolePolicy) => (text: string) => OptimizationResult {
+    const optimizers = new Map<ChatRolePolicy, PromptOptimizer>();
+
+    return policy => {
+      if (policy === this.config.aggressiveness && model === this.config.model) {
+        return text => this.optimize(text);
+      }
+      if (!optimizers.has(policy)) {
+        optimizers.set(policy, new PromptOptimizer({ ...this.config, aggressiveness: policy, model }));
+      }
+      const optimizer = optimizers.get(policy)!;
+      return text => optimizer.optimize(text);
+    };
+  }
+
+  /**
+   * Get the patterns added at each escalation step of a budget optimization
+   * 
+   * Each step only contains the patterns not already used by an earlier step.
+   * Custom patterns are part of the first step.
+   * @private
+   */
+  private getBudgetEscalationSteps(): Array<{ step: BudgetEscalationStep; patterns: OptimizationPattern[] }> {
+    const seen = new Set<string>();
+    const takeNew = (patterns: OptimizationPattern[]) => patterns.filter(pattern => {
+      if (seen.has(pattern.id)) return false;
+      seen.add(pattern.id);
+      return true;
+    });
+
+    const categoryFilter = (patterns: OptimizationPattern[]) =>
+      this.config.enabledCategories.length > 0 && !this.config.enabledCategories.includes('all')
+        ? patterns.filter(pattern => this.config.enabledCategories.includes(pattern.category))
+        : patterns;
+
+    const levels: AggressivenessLevel[] = ['low', 'medium', 'high', 'max'];
+    return levels.map(level => ({
+      step: level,
+      patterns: takeNew([
+        ...categoryFilter(getPatternsByAggressiveness(level)),
+        ...(level === 'low' ? this.config.customPatterns : [])
+      ])
+    }));
+  }
+
   /**
    * Update patterns based on current config
    * @private
@@ -345,13 +1025,91 @@ export {
   DualOptimizerConfig,
   SupportedModel,
   PatternCategory,
+  AggressivenessLevel,
+  AggressivenessProfile,
+  AggressivenessCategoryRule,
   AppliedPatternInfo,
   PatternEffectivenessMetrics,
+  ProtectedRegion,
+  ProtectedRegionType,
+  TextEdit,
+  BudgetOptimizationResult,
+  BudgetEscalationStep,
+  PatternOrderStrategy,
+  PatternOrderSearchInfo,
+  RevertReason,
+  RevertedPatternInfo,
+  OptimizationSuggestion,
+  SkipReason,
+  SkippedPatternInfo,
+  InvariantType,
+  InvariantToken,
+  InvariantCheckMode,
+  InvariantViolation,
+  DirectiveKind,
+  Directive,
+  DirectiveViolation,
+  OptimizationPassInfo,
+  MultiPassInfo,
+  PassStopReason,
+  PatternOverride,
+  PatternFilters,
+  ChatRole,
+  ChatContentPart,
+  ChatMessage,
+  ChatRolePolicy,
+  MessageOptimizationOptions,
+  MessageOptimizationInfo,
+  MessagesOptimizationResult,
+  AnthropicCacheControl,
+  AnthropicContentBlock,
+  AnthropicMessage,
+  AnthropicMessagesRequest,
+  AnthropicTextBlockInfo,
+  AnthropicRequestOptimizationResult,
+  OpenAIToolDefinition,
+  AnthropicToolDefinition,
+  ToolDefinition,
+  ToolDefinitionFormat,
+  ToolSchemaCheck,
+  ToolOptimizationOptions,
+  ToolOptimizationInfo,
+  ToolsOptimizationResult,
+  ExampleFormat,
+  ExampleDropReason,
+  ExamplePruningOptions,
+  ExampleInfo,
+  ExamplePruningResult,
+  HistoryCompactionOptions,
+  HistoryCompactionStage,
+  HistoryDigestKind,
+  HistoryDigestEntry,
+  HistoryCompactionResult,
+  ModelTokenizerKind,
+  ModelPricing,
+  ModelInfo,
+  ModelFamilyRule,
+  ModelRegistryFile,
+  CostEstimate,
+  SavingsProjectionOptions,
+  SavingsProjection,
+  BatchOptimizationResult,
+  ContextFitOptions,
+  ContextSectionInfo,
+  ContextFitResult,
+  TokenizerAdapter,
+  TokenizerMatcher,
+  TokenizerFactory,
+  TokenizerRegistrationOptions,
+  TokenizerRegistration,
+  TokenizerSource,
+  TokenizerResolution,
   OptimizerError
 };
 
 // Export other useful modules
 export * from './tokenizers';
+export * from './models';
 export * from './patterns';
 export * from './optimizers';
 export * from './utils'; 
\ No newline at end of file
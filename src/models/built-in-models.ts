@@ -0,0 +1,340 @@
+import { ModelInfo } from '../types';
+
+/**
+ * Models known out of the box
+ *
+ * Prices are list prices in USD per million tokens. Models from other
+ * providers without a tokenizer of their own are counted with cl100k_base as
+ * an approximation.
+ */
+export const BUILT_IN_MODELS: ModelInfo[] = [
+  // OpenAI
+  {
+    id: 'gpt-3.5-turbo',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'cl100k_base',
+    contextWindow: 16385,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.5, output: 1.5 },
+    aliases: ['gpt-3.5-turbo-0125', 'gpt-3.5-turbo-16k']
+  },
+  {
+    id: 'gpt-4',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'cl100k_base',
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    pricing: { input: 30, output: 60 },
+    aliases: ['gpt-4-0613']
+  },
+  {
+    id: 'gpt-4-32k',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'cl100k_base',
+    contextWindow: 32768,
+    maxOutputTokens: 32768,
+    pricing: { input: 60, output: 120 }
+  },
+  {
+    id: 'gpt-4-turbo',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'cl100k_base',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    pricing: { input: 10, output: 30 },
+    aliases: ['gpt-4-turbo-2024-04-09', 'gpt-4-turbo-preview', 'gpt-4-0125-preview', 'gpt-4-1106-preview', 'gpt-4-vision-preview']
+  },
+  {
+    id: 'gpt-4o',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'o200k_base',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    pricing: { input: 2.5, output: 10, cachedInput: 1.25 },
+    aliases: ['chatgpt-4o-latest']
+  },
+  {
+    id: 'gpt-4o-mini',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'o200k_base',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    pricing: { input: 0.15, output: 0.6, cachedInput: 0.075 }
+  },
+  {
+    id: 'gpt-4.1',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'o200k_base',
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 2, output: 8, cachedInput: 0.5 }
+  },
+  {
+    id: 'gpt-4.1-mini',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'o200k_base',
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 0.4, output: 1.6, cachedInput: 0.1 }
+  },
+  {
+    id: 'gpt-4.1-nano',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'o200k_base',
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 }
+  },
+  {
+    id: 'o1',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'o200k_base',
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 15, output: 60, cachedInput: 7.5 }
+  },
+  {
+    id: 'o1-mini',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'o200k_base',
+    contextWindow: 128000,
+    maxOutputTokens: 65536,
+    pricing: { input: 1.1, output: 4.4, cachedInput: 0.55 }
+  },
+  {
+    id: 'o3',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'o200k_base',
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 2, output: 8, cachedInput: 0.5 }
+  },
+  {
+    id: 'o3-mini',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'o200k_base',
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 1.1, output: 4.4, cachedInput: 0.55 }
+  },
+  {
+    id: 'o4-mini',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'o200k_base',
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 1.1, output: 4.4, cachedInput: 0.275 }
+  },
+  {
+    id: 'text-embedding-ada-002',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'cl100k_base',
+    contextWindow: 8191,
+    maxOutputTokens: 0,
+    pricing: { input: 0.1, output: 0 }
+  },
+  {
+    id: 'text-davinci-003',
+    family: 'openai',
+    tokenizer: 'openai',
+    encoding: 'p50k_base',
+    contextWindow: 4097,
+    maxOutputTokens: 4097,
+    pricing: { input: 20, output: 20 }
+  },
+
+  // Anthropic
+  {
+    id: 'claude-instant-1',
+    family: 'anthropic',
+    tokenizer: 'claude',
+    encoding: 'claude-legacy',
+    contextWindow: 100000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.8, output: 2.4 },
+    aliases: ['claude-instant-1.2']
+  },
+  {
+    id: 'claude-2',
+    family: 'anthropic',
+    tokenizer: 'claude',
+    encoding: 'claude-legacy',
+    contextWindow: 100000,
+    maxOutputTokens: 4096,
+    pricing: { input: 8, output: 24 },
+    aliases: ['claude-2.0']
+  },
+  {
+    id: 'claude-2.1',
+    family: 'anthropic',
+    tokenizer: 'claude',
+    encoding: 'claude-legacy',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { input: 8, output: 24 }
+  },
+  {
+    id: 'claude-3-opus-20240229',
+    family: 'anthropic',
+    tokenizer: 'claude',
+    encoding: 'claude-3',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { input: 15, output: 75, cachedInput: 1.5 },
+    aliases: ['claude-3-opus', 'claude-3-opus-latest']
+  },
+  {
+    id: 'claude-3-sonnet-20240229',
+    family: 'anthropic',
+    tokenizer: 'claude',
+    encoding: 'claude-3',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { input: 3, output: 15 },
+    aliases: ['claude-3-sonnet']
+  },
+  {
+    id: 'claude-3-haiku-20240307',
+    family: 'anthropic',
+    tokenizer: 'claude',
+    encoding: 'claude-3',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.25, output: 1.25, cachedInput: 0.03 },
+    aliases: ['claude-3-haiku']
+  },
+  {
+    id: 'claude-3-5-sonnet-20240620',
+    family: 'anthropic',
+    tokenizer: 'claude',
+    encoding: 'claude-3',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    pricing: { input: 3, output: 15, cachedInput: 0.3 },
+    aliases: ['claude-3-5-sonnet-20241022', 'claude-3-5-sonnet', 'claude-3-5-sonnet-latest']
+  },
+  {
+    id: 'claude-3-5-haiku-20241022',
+    family: 'anthropic',
+    tokenizer: 'claude',
+    encoding: 'claude-3',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.8, output: 4, cachedInput: 0.08 },
+    aliases: ['claude-3-5-haiku', 'claude-3-5-haiku-latest']
+  },
+  {
+    id: 'claude-3-7-sonnet-20250219',
+    family: 'anthropic',
+    tokenizer: 'claude',
+    encoding: 'claude-3',
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    pricing: { input: 3, output: 15, cachedInput: 0.3 },
+    aliases: ['claude-3-7-sonnet-20240729', 'claude-3-7-sonnet', 'claude-3-7-sonnet-latest']
+  },
+  {
+    id: 'claude-sonnet-4-20250514',
+    family: 'anthropic',
+    tokenizer: 'claude',
+    encoding: 'claude-3',
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    pricing: { input: 3, output: 15, cachedInput: 0.3 },
+    aliases: ['claude-sonnet-4', 'claude-sonnet-4-0']
+  },
+  {
+    id: 'claude-opus-4-20250514',
+    family: 'anthropic',
+    tokenizer: 'claude',
+    encoding: 'claude-3',
+    contextWindow: 200000,
+    maxOutputTokens: 32000,
+    pricing: { input: 15, output: 75, cachedInput: 1.5 },
+    aliases: ['claude-opus-4', 'claude-opus-4-0']
+  },
+
+  // Google
+  {
+    id: 'gemini-1.5-pro',
+    family: 'google',
+    tokenizer: 'openai',
+    encoding: 'cl100k_base',
+    contextWindow: 2097152,
+    maxOutputTokens: 8192,
+    pricing: { input: 1.25, output: 5 }
+  },
+  {
+    id: 'gemini-1.5-flash',
+    family: 'google',
+    tokenizer: 'openai',
+    encoding: 'cl100k_base',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.075, output: 0.3 }
+  },
+  {
+    id: 'gemini-2.0-flash',
+    family: 'google',
+    tokenizer: 'openai',
+    encoding: 'cl100k_base',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.1, output: 0.4 }
+  },
+
+  // Mistral
+  {
+    id: 'mistral-large-latest',
+    family: 'mistral',
+    tokenizer: 'openai',
+    encoding: 'cl100k_base',
+    contextWindow: 131072,
+    maxOutputTokens: 4096,
+    pricing: { input: 2, output: 6 },
+    aliases: ['mistral-large']
+  },
+  {
+    id: 'mixtral-8x7b',
+    family: 'mistral',
+    tokenizer: 'openai',
+    encoding: 'cl100k_base',
+    contextWindow: 32768,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.7, output: 0.7 },
+    aliases: ['open-mixtral-8x7b']
+  },
+
+  // Meta (hosted prices vary, so none are recorded)
+  {
+    id: 'llama-3.1-70b',
+    family: 'meta',
+    tokenizer: 'openai',
+    encoding: 'cl100k_base',
+    contextWindow: 131072,
+    maxOutputTokens: 4096
+  },
+  {
+    id: 'llama-3.1-8b',
+    family: 'meta',
+    tokenizer: 'openai',
+    encoding: 'cl100k_base',
+    contextWindow: 131072,
+    maxOutputTokens: 4096
+  }
+];
@@ -0,0 +1,108 @@
+import {
+  ChatMessage,
+  ContextFitOptions,
+  ContextFitResult,
+  ContextSectionInfo,
+  SupportedModel,
+  TokenizerAdapter
+} from '../types';
+import { OptimizerError } from '../optimizers/base-optimizer';
+import { validateMessages } from '../optimizers/message-optimization';
+import { createTokenizer } from '../tokenizers';
+import { countConversationTokens, countMessageTokens } from '../utils/chat-format';
+import { splitTextSections } from '../utils/text-sections';
+import { getModelInfo } from './model-registry';
+
+/**
+ * Default options for context window checks
+ */
+export const DEFAULT_CONTEXT_FIT_OPTIONS: Required<ContextFitOptions> = {
+  reserveOutputTokens: 0,
+  maxSections: 3
+};
+
+/**
+ * Check whether a prompt fits a model's context window
+ *
+ * The prompt must fit the context window minus the tokens reserved for the
+ * response. Text is split into markdown heading sections (or paragraphs) and
+ * a conversation into messages, and the largest ones are reported so an
+ * overflow can be traced to its causes. Messages are counted with the chat
+ * format overhead.
+ *
+ * @example
+ * ```typescript
+ * const fit = checkFit(prompt, 'gpt-4o', { reserveOutputTokens: 4096 });
+ * if (!fit.fits) {
+ *   console.log(`${fit.overflowTokens} tokens too many, largest: ${fit.largestSections[0].label}`);
+ * }
+ * ```
+ *
+ * @param input - Prompt text, or messages in the OpenAI chat format
+ * @param model - Model in the model registry
+ * @param options - Reserved output tokens and number of sections to report
+ * @returns Token count, available tokens, overflow and largest sections
+ * @throws {OptimizerError} If the model is not in the model registry, or the input or options are invalid
+ */
+export function checkFit(
+  input: string | ChatMessage[],
+  model: SupportedModel,
+  options: ContextFitOptions = {}
+): ContextFitResult {
+  const info = getModelInfo(model);
+  if (!info) {
+    throw new OptimizerError(`Unknown context window for model ${model}; register the model with registerModel`);
+  }
+
+  const reserveOutputTokens = options.reserveOutputTokens ?? DEFAULT_CONTEXT_FIT_OPTIONS.reserveOutputTokens;
+  const maxSections = options.maxSections ?? DEFAULT_CONTEXT_FIT_OPTIONS.maxSections;
+  if (!Number.isInteger(reserveOutputTokens) || reserveOutputTokens < 0 || reserveOutputTokens > info.contextWindow) {
+    throw new OptimizerError('reserveOutputTokens must be an integer between 0 and the context window');
+  }
+
+  if (!Number.isInteger(maxSections) || maxSections < 0) {
+    throw new OptimizerError('maxSections must be a non-negative integer');
+  }
+
+  let tokenizer: TokenizerAdapter | null = null;
+  const countTokens = (text: string) => (tokenizer = tokenizer || createTokenizer(model)).countTokens(text);
+
+  let tokenCount: number;
+  let sections: ContextSectionInfo[];
+  if (typeof input === 'string') {
+    tokenCount = countTokens(input);
+    sections = splitTextSections(input).map(section => ({
+      label: section.label,
+      tokenCount: countTokens(section.text),
+      start: section.start,
+      end: section.end
+    }));
+  } else {
+    validateMessages(input);
+    tokenCount = countConversationTokens(input, countTokens);
+    sections = input.map((message, index) => ({
+      label: `messages[${index}] (${message.role})`,
+      tokenCount: countMessageTokens(message, countTokens),
+      messageIndex: index
+    }));
+  }
+
+  const availableTokens = info.contextWindow - reserveOutputTokens;
+  const overflowTokens = Math.max(0, tokenCount - availableTokens);
+
+  return {
+    model: info.id,
+    contextWindow: info.contextWindow,
+    reserveOutputTokens,
+    availableTokens,
+    tokenCount,
+    fits: overflowTokens === 0,
+    overflowTokens,
+    // Stable sort: equal sections keep their order of appearance
+    largestSections: sections
+      .map((section, index) => ({ section, index }))
+      .sort((a, b) => b.section.tokenCount - a.section.tokenCount || a.index - b.index)
+      .slice(0, maxSections)
+      .map(({ section }) => section)
+  };
+}
@@ -0,0 +1,93 @@
+import { CostEstimate, ModelPricing, SavingsProjection, SavingsProjectionOptions } from '../types';
+import { OptimizerError } from '../optimizers/base-optimizer';
+
+/**
+ * Default number of days in a month for savings projections
+ */
+export const DEFAULT_DAYS_PER_MONTH = 30;
+
+const TOKENS_PER_PRICE_UNIT = 1000000;
+
+/**
+ * Validate model prices
+ *
+ * @param pricing - Prices in USD per million tokens
+ * @param subject - What the prices belong to, for error messages
+ * @throws {OptimizerError} If a price is not a non-negative number
+ */
+export function validateModelPricing(pricing: ModelPricing, subject: string = 'Pricing'): void {
+  const { input, output, cachedInput } = pricing || ({} as Record<string, unknown>);
+  const isPrice = (value: unknown) => typeof value === 'number' && isFinite(value) && value >= 0;
+
+  if (!isPrice(input) || !isPrice(output) || (cachedInput !== undefined && !isPrice(cachedInput))) {
+    throw new OptimizerError(`${subject} prices must be non-negative numbers`);
+  }
+}
+
+/**
+ * Estimate the input cost of one call before and after optimization
+ *
+ * @param originalTokenCount - Token count of the original input
+ * @param optimizedTokenCount - Token count of the optimized input
+ * @param pricing - Prices in USD per million tokens
+ * @returns Input costs in USD
+ */
+export function estimateInputCost(
+  originalTokenCount: number,
+  optimizedTokenCount: number,
+  pricing: ModelPricing
+): CostEstimate {
+  const originalCost = (originalTokenCount * pricing.input) / TOKENS_PER_PRICE_UNIT;
+  const optimizedCost = (optimizedTokenCount * pricing.input) / TOKENS_PER_PRICE_UNIT;
+
+  return {
+    inputPricePerMillion: pricing.input,
+    originalCost,
+    optimizedCost,
+    costSaved: originalCost - optimizedCost
+  };
+}
+
+/**
+ * Project the tokens and input cost saved by an optimization over a day and a month
+ *
+ * @example
+ * ```typescript
+ * const result = optimizer.optimize(systemPrompt);
+ * const { costSavedPerMonth } = projectSavings(result, { callsPerDay: 50000 });
+ * ```
+ *
+ * @param result - Optimization result, or any result with tokens saved and a cost estimate
+ * @param options - Calls per day and days per month
+ * @returns Daily and monthly savings (costs are null if the result has no cost estimate)
+ * @throws {OptimizerError} If the options are invalid
+ */
+export function projectSavings(
+  result: { tokensSaved: number; costEstimate?: CostEstimate },
+  options: SavingsProjectionOptions
+): SavingsProjection {
+  if (!result || typeof result.tokensSaved !== 'number') {
+    throw new OptimizerError('Result must have a tokensSaved count');
+  }
+
+  if (!options || typeof options.callsPerDay !== 'number' || !isFinite(options.callsPerDay) || options.callsPerDay < 0) {
+    throw new OptimizerError('callsPerDay must be a non-negative number');
+  }
+
+  const daysPerMonth = options.daysPerMonth ?? DEFAULT_DAYS_PER_MONTH;
+  if (typeof daysPerMonth !== 'number' || !isFinite(daysPerMonth) || daysPerMonth <= 0) {
+    throw new OptimizerError('daysPerMonth must be a positive number');
+  }
+
+  const { callsPerDay } = options;
+  const costSavedPerDay = result.costEstimate ? result.costEstimate.costSaved * callsPerDay : null;
+
+  return {
+    callsPerDay,
+    daysPerMonth,
+    tokensSavedPerDay: result.tokensSaved * callsPerDay,
+    tokensSavedPerMonth: result.tokensSaved * callsPerDay * daysPerMonth,
+    costSavedPerDay,
+    costSavedPerMonth: costSavedPerDay === null ? null : costSavedPerDay * daysPerMonth
+  };
+}
@@ -0,0 +1,5 @@
+export * from './built-in-models';
+export * from './model-families';
+export * from './model-registry';
+export * from './cost-estimation';
+export * from './context-window';
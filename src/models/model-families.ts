@@ -0,0 +1,46 @@
+import { ModelFamilyRule } from '../types';
+
+/**
+ * Model family rules for models that are not in the model registry
+ *
+ * Rules are tried in order and the first match wins, so more specific rules
+ * come first. Models from other providers without a tokenizer of their own are
+ * counted with cl100k_base as an approximation, as in BUILT_IN_MODELS.
+ */
+export const BUILT_IN_MODEL_FAMILIES: ModelFamilyRule[] = [
+  // GPT-4o, GPT-4.1, GPT-4.5, GPT-5 and the o-series reasoning models
+  {
+    family: 'openai',
+    match: /^(?:gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o\d+(?:-|$))/,
+    tokenizer: 'openai',
+    encoding: 'o200k_base'
+  },
+  { family: 'openai', match: /^text-davinci-/, tokenizer: 'openai', encoding: 'p50k_base' },
+  {
+    family: 'openai',
+    match: /^(?:gpt-|chatgpt-)|davinci|curie|babbage|ada|embedding/,
+    tokenizer: 'openai',
+    encoding: 'cl100k_base'
+  },
+
+  // Anthropic
+  { family: 'anthropic', match: /^claude-3/, tokenizer: 'claude', encoding: 'claude-3' },
+  { family: 'anthropic', match: /^claude-/, tokenizer: 'claude', encoding: 'claude-legacy' },
+
+  // Approximated with the OpenAI tokenizer
+  { family: 'google', match: /^(?:gemini|palm|bison)-/, tokenizer: 'openai', encoding: 'cl100k_base' },
+  { family: 'mistral', match: /^(?:mistral|mixtral)-/, tokenizer: 'openai', encoding: 'cl100k_base' },
+  { family: 'meta', match: /^llama-|llama2/, tokenizer: 'openai', encoding: 'cl100k_base' }
+];
+
+/**
+ * Get the family rule a model name matches
+ * @param model - Model name
+ * @returns The first matching rule, or undefined if no family matches
+ */
+export function getModelFamilyRule(model: string): ModelFamilyRule | undefined {
+  if (typeof model !== 'string' || model === '') return undefined;
+
+  const name = model.toLowerCase();
+  return BUILT_IN_MODEL_FAMILIES.find(rule => rule.match.test(name));
+}
@@ -0,0 +1,179 @@
+import { ModelInfo, ModelRegistryFile, ModelTokenizerKind } from '../types';
+import { OptimizerError } from '../optimizers/base-optimizer';
+import { isNode } from '../utils/environment';
+import { sharedTokenCache } from '../tokenizers/shared-token-cache';
+import { BUILT_IN_MODELS } from './built-in-models';
+import { validateModelPricing } from './cost-estimation';
+
+const TOKENIZER_KINDS: ModelTokenizerKind[] = ['openai', 'claude', 'simple'];
+
+// Models registered at runtime, by lowercase ID; they take precedence over built-in models
+const customModels = new Map<string, ModelInfo>();
+
+/**
+ * Register a model, or replace the metadata of a registered one
+ *
+ * A model registered under the ID of a built-in model replaces it (for
+ * example to record negotiated prices) until it is unregistered.
+ *
+ * @param info - Model metadata
+ * @throws {OptimizerError} If the metadata is invalid
+ */
+export function registerModel(info: ModelInfo): void {
+  validateModelInfo(info);
+
+  customModels.set(info.id.toLowerCase(), {
+    ...info,
+    pricing: info.pricing ? { ...info.pricing } : undefined,
+    aliases: info.aliases ? [...info.aliases] : undefined
+  });
+
+  // Cached counts may have come from the encoding this model replaces
+  sharedTokenCache.clear();
+}
+
+/**
+ * Register several models, as a list or in the model registry file format
+ *
+ * All models are validated before any is registered.
+ *
+ * @param data - Models, or an object with a models array
+ * @returns The registered models
+ * @throws {OptimizerError} If the data or any model is invalid
+ */
+export function registerModels(data: ModelInfo[] | ModelRegistryFile): ModelInfo[] {
+  const models = Array.isArray(data) ? data : data && (data as ModelRegistryFile).models;
+  if (!Array.isArray(models)) {
+    throw new OptimizerError('Model registry data must be an array of models or an object with a models array');
+  }
+
+  models.forEach(validateModelInfo);
+  models.forEach(registerModel);
+  return models;
+}
+
+/**
+ * Register the models of a local JSON file (Node.js only)
+ *
+ * The file holds either an array of models or an object with a models array,
+ * in the ModelInfo format.
+ *
+ * @param filePath - Path of the JSON file
+ * @returns The registered models
+ * @throws {OptimizerError} If the file cannot be read or parsed, or a model is invalid
+ */
+export function loadModelRegistryFile(filePath: string): ModelInfo[] {
+  if (!isNode) {
+    throw new OptimizerError('Model registry files can only be loaded in Node.js');
+  }
+
+  let data: unknown;
+  try {
+    const fs = require('fs');
+    data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new OptimizerError(`Could not load model registry file ${filePath}: ${error}`);
+  }
+
+  return registerModels(data as ModelInfo[] | ModelRegistryFile);
+}
+
+/**
+ * Remove a registered model, restoring the built-in model it replaced, if any
+ * @param id - ID of the model
+ * @returns Whether a model was removed
+ */
+export function unregisterModel(id: string): boolean {
+  const removed = customModels.delete(id.toLowerCase());
+  if (removed) {
+    sharedTokenCache.clear();
+  }
+  return removed;
+}
+
+/**
+ * Get all models, registered models first
+ *
+ * Built-in models replaced by a registered model are not included.
+ *
+ * @returns Model metadata
+ */
+export function getRegisteredModels(): ModelInfo[] {
+  return [
+    ...customModels.values(),
+    ...BUILT_IN_MODELS.filter(model => !customModels.has(model.id.toLowerCase()))
+  ];
+}
+
+/**
+ * Get the metadata of a model by ID or alias
+ *
+ * Names are compared case-insensitively. A name matching no model exactly
+ * resolves to the model with the longest ID or alias it extends with a dash,
+ * so dated snapshots such as 'gpt-4o-2024-08-06' resolve to 'gpt-4o'.
+ * Registered models take precedence over built-in ones.
+ *
+ * @param model - Model name
+ * @returns The model's metadata, or undefined if the model is unknown
+ */
+export function getModelInfo(model: string): ModelInfo | undefined {
+  if (typeof model !== 'string' || model === '') return undefined;
+
+  const name = model.toLowerCase();
+  const models = getRegisteredModels();
+  const namesOf = (info: ModelInfo) => [info.id, ...(info.aliases || [])].map(value => value.toLowerCase());
+
+  const exact = models.find(info => namesOf(info).includes(name));
+  if (exact) return exact;
+
+  let best: ModelInfo | undefined;
+  let bestLength = 0;
+  models.forEach(info => {
+    namesOf(info).forEach(candidate => {
+      if (candidate.length > bestLength && name.startsWith(`${candidate}-`)) {
+        best = info;
+        bestLength = candidate.length;
+      }
+    });
+  });
+  return best;
+}
+
+/**
+ * Validate model metadata
+ * @private
+ */
+function validateModelInfo(info: ModelInfo): void {
+  if (!info || typeof info.id !== 'string' || info.id.trim() === '') {
+    throw new OptimizerError('Model must have an id');
+  }
+
+  if (typeof info.family !== 'string' || info.family.trim() === '') {
+    throw new OptimizerError(`Model ${info.id} must have a family`);
+  }
+
+  if (!TOKENIZER_KINDS.includes(info.tokenizer)) {
+    throw new OptimizerError(`Model ${info.id} tokenizer must be one of: ${TOKENIZER_KINDS.join(', ')}`);
+  }
+
+  if (info.encoding !== undefined && (typeof info.encoding !== 'string' || info.encoding === '')) {
+    throw new OptimizerError(`Model ${info.id} encoding must be a non-empty string`);
+  }
+
+  if (!Number.isInteger(info.contextWindow) || info.contextWindow <= 0) {
+    throw new OptimizerError(`Model ${info.id} contextWindow must be a positive integer`);
+  }
+
+  if (!Number.isInteger(info.maxOutputTokens) || info.maxOutputTokens < 0 || info.maxOutputTokens > info.contextWindow) {
+    throw new OptimizerError(`Model ${info.id} maxOutputTokens must be an integer between 0 and the context window`);
+  }
+
+  if (info.pricing !== undefined) {
+    validateModelPricing(info.pricing, `Model ${info.id}`);
+  }
+
+  if (info.aliases !== undefined &&
+    (!Array.isArray(info.aliases) || !info.aliases.every(alias => typeof alias === 'string' && alias !== ''))) {
+    throw new OptimizerError(`Model ${info.id} aliases must be an array of non-empty strings`);
+  }
+}
@@ -0,0 +1,212 @@
+import {
+  AnthropicContentBlock,
+  AnthropicMessagesRequest,
+  AnthropicRequestOptimizationResult,
+  AnthropicTextBlockInfo,
+  ChatRolePolicy,
+  MessageOptimizationOptions,
+  OptimizationResult
+} from '../types';
+import { resolveRolePolicies } from './message-optimization';
+import { OptimizerError } from './base-optimizer';
+
+/**
+ * Content of a request in prompt order: the system prompt, then each message
+ * @private
+ */
+interface RequestSection {
+  location: 'system' | 'messages';
+  messageIndex?: number;
+  role: 'system' | 'user' | 'assistant';
+  content: string | AnthropicContentBlock[] | undefined;
+}
+
+/**
+ * Optimize the text blocks of an Anthropic Messages request with a policy per role
+ *
+ * The system prompt uses the 'system' role policy and messages the policy of
+ * their role. Only text blocks (and string content) are rewritten. Prompt
+ * caching reads a prefix of the request up to its last cache_control
+ * breakpoint, so every block at or before that breakpoint is left unchanged
+ * to keep cache hits. The request passed in is not modified.
+ *
+ * @param request - Request to optimize
+ * @param options - Role policies
+ * @param getOptimizer - Returns the function optimizing a text for a policy
+ * @param countTokens - Function counting the tokens of a text
+ * @returns Optimized request with per-block and total token counts
+ * @throws {OptimizerError} If the request or a policy is invalid
+ */
+export function optimizeAnthropicRequestContent(
+  request: AnthropicMessagesRequest,
+  options: MessageOptimizationOptions,
+  getOptimizer: (policy: ChatRolePolicy) => (text: string) => OptimizationResult,
+  countTokens: (text: string) => number
+): AnthropicRequestOptimizationResult {
+  validateRequest(request);
+  const policyFor = resolveRolePolicies(options);
+
+  const sections: RequestSection[] = [
+    { location: 'system', role: 'system', content: request.system },
+    ...request.messages.map((message, messageIndex) => ({
+      location: 'messages' as const,
+      messageIndex,
+      role: message.role,
+      content: message.content
+    }))
+  ];
+
+  // Position of the last block marked with cache_control; every block up to it is cached
+  let position = 0;
+  let breakpoint = -1;
+  sections.forEach(section => {
+    if (Array.isArray(section.content)) {
+      section.content.forEach(block => {
+        if (block && block.cache_control) breakpoint = position;
+        position++;
+      });
+    } else {
+      position++;
+    }
+  });
+
+  const blocks: AnthropicTextBlockInfo[] = [];
+  position = 0;
+
+  const rewrite = (section: RequestSection, text: string, blockIndex: number): string => {
+    const policy = policyFor(section.role);
+    const cached = position++ <= breakpoint;
+    const optimize = !cached && policy !== 'none' && text.trim() !== '';
+    const result = optimize ? getOptimizer(policy)(text) : undefined;
+    const optimizedText = result ? result.optimizedText : text;
+
+    const originalTokenCount = countTokens(text);
+    const optimizedTokenCount = result ? countTokens(optimizedText) : originalTokenCount;
+    blocks.push({
+      location: section.location,
+      ...(section.messageIndex !== undefined ? { messageIndex: section.messageIndex } : {}),
+      blockIndex,
+      role: section.role,
+      policy,
+      cached,
+      originalTokenCount,
+      optimizedTokenCount,
+      tokensSaved: originalTokenCount - optimizedTokenCount,
+      ...(result ? { result } : {})
+    });
+
+    return optimizedText;
+  };
+
+  const optimizedContent = sections.map(section => {
+    if (typeof section.content === 'string') {
+      return rewrite(section, section.content, 0);
+    }
+
+    if (!Array.isArray(section.content)) {
+      position++;
+      return section.content;
+    }
+
+    return section.content.map((block, blockIndex) => {
+      if (block.type !== 'text' || typeof block.text !== 'string') {
+        position++;
+        return block;
+      }
+
+      const text = rewrite(section, block.text, blockIndex);
+      return text === block.text ? block : { ...block, text };
+    });
+  });
+
+  const optimizedRequest: AnthropicMessagesRequest = {
+    ...request,
+    messages: request.messages.map((message, index) => ({
+      ...message,
+      content: optimizedContent[index + 1] as string | AnthropicContentBlock[]
+    }))
+  };
+  if (request.system !== undefined) {
+    optimizedRequest.system = optimizedContent[0];
+  }
+
+  const originalTokenCount = sections.reduce(
+    (total, section) => total + countContentTokens(section.content, countTokens), 0);
+  const optimizedTokenCount = optimizedContent.reduce(
+    (total: number, content) => total + countContentTokens(content, countTokens), 0);
+  const tokensSaved = originalTokenCount - optimizedTokenCount;
+
+  return {
+    originalRequest: request,
+    optimizedRequest,
+    originalTokenCount,
+    optimizedTokenCount,
+    tokensSaved,
+    percentSaved: originalTokenCount > 0 ? (tokensSaved / originalTokenCount) * 100 : 0,
+    blocks
+  };
+}
+
+/**
+ * Count the tokens of request content: text, tool inputs and tool results
+ *
+ * Images and other binary blocks are billed separately and are not counted.
+ *
+ * @param content - String content or content blocks
+ * @param countTokens - Function counting the tokens of a text
+ * @returns Token count of the content
+ */
+export function countContentTokens(
+  content: string | AnthropicContentBlock[] | undefined,
+  countTokens: (text: string) => number
+): number {
+  if (typeof content === 'string') return countTokens(content);
+  if (!Array.isArray(content)) return 0;
+
+  return content.reduce((total, block) => {
+    if (block.type === 'text' && typeof block.text === 'string') {
+      return total + countTokens(block.text);
+    }
+    if (block.type === 'tool_use') {
+      return total + countTokens(JSON.stringify(block.input ?? {}));
+    }
+    if (block.type === 'tool_result') {
+      const content = block.content as string | AnthropicContentBlock[] | undefined;
+      return total + countContentTokens(content, countTokens);
+    }
+    return total;
+  }, 0);
+}
+
+/**
+ * Validate the shape of an Anthropic Messages request
+ * @private
+ */
+function validateRequest(request: AnthropicMessagesRequest): void {
+  if (!request || typeof request !== 'object' || !Array.isArray(request.messages)) {
+    throw new OptimizerError('Request must be an object with a messages array');
+  }
+
+  if (request.system !== undefined && typeof request.system !== 'string' && !isBlockArray(request.system)) {
+    throw new OptimizerError('Request system must be a string or an array of content blocks');
+  }
+
+  request.messages.forEach((message, index) => {
+    if (!message || (message.role !== 'user' && message.role !== 'assistant')) {
+      throw new OptimizerError(`Message ${index} role must be 'user' or 'assistant'`);
+    }
+
+    if (typeof message.content !== 'string' && !isBlockArray(message.content)) {
+      throw new OptimizerError(`Message ${index} content must be a string or an array of content blocks`);
+    }
+  });
+}
+
+/**
+ * Check whether a value is an array of content blocks
+ * @private
+ */
+function isBlockArray(value: unknown): value is AnthropicContentBlock[] {
+  return Array.isArray(value) &&
+    value.every(block => !!block && typeof block === 'object' && typeof block.type === 'string');
+}
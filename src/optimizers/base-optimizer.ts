@@ -49,3 +49,16 @@ export class OptimizerError extends Error {
     Object.setPrototypeOf(this, OptimizerError.prototype);
   }
 }
+
+/**
+ * Error raised when a pattern exceeds its time budget
+ */
+export class PatternTimeoutError extends OptimizerError {
+  constructor(patternId: string, budgetMs: number) {
+    super(`Pattern ${patternId} exceeded its time budget of ${budgetMs}ms`);
+    this.name = 'PatternTimeoutError';
+
+    // Ensure proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, PatternTimeoutError.prototype);
+  }
+}
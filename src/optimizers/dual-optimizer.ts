@@ -1,6 +1,21 @@
-import { OptimizationPattern, OptimizationResult, AppliedPatternInfo, SupportedModel, PatternCategory } from '../types';
-import { createTokenizer } from '../tokenizers';
-import { BaseOptimizer, OptimizerError } from './base-optimizer';
+import {
+  OptimizationPattern,
+  OptimizationResult,
+  AppliedPatternInfo,
+  SupportedModel,
+  PatternCategory,
+  PatternFilters,
+  PatternOverride,
+  SkipReason,
+  SkippedPatternInfo
+} from '../types';
+import { createTokenizer, getTokenizerRegistryVersion } from '../tokenizers';
+import { maskProtectedRegions, restoreProtectedRegions, hasIntactSentinels, restoreEdits } from '../utils/protected-regions';
+import { BaseOptimizer, OptimizerError, PatternTimeoutError } from './base-optimizer';
+import { applyPattern, validatePattern } from './pattern-application';
+import { applyPatternOverrides, isPatternAllowed, validatePatternFilters } from './pattern-filters';
+import { SourceMap } from '../utils/source-map';
+import { getBuiltInPatternRisk } from '../patterns';
 
 /**
  * Configuration options for the DualOptimizer
@@ -12,6 +27,58 @@ export interface DualOptimizerConfig {
   model: SupportedModel;
   // Custom patterns to add
   customPatterns?: OptimizationPattern[];
+  // Whether to hide code, quoted literals and template placeholders from all patterns (default: true)
+  protectRegions?: boolean;
+  // Additional regular expressions whose matches must never be rewritten
+  protectedPatterns?: RegExp[];
+  // Maximum time a single pattern application may run in ms (default: 1000)
+  patternTimeBudgetMs?: number;
+  // IDs of patterns that are never used
+  disabledPatternIds?: string[];
+  // If non-empty, only patterns with these IDs are used
+  onlyPatternIds?: string[];
+  // Option overrides by pattern ID, applied to copies of the patterns
+  patternOverrides?: Record<string, PatternOverride>;
+}
+
+/**
+ * Why the DualOptimizer included or excluded a pattern
+ * - quality-pattern: quality patterns are used at any balance above 0
+ * - efficiency-only: a balance of 0 uses only efficiency patterns
+ * - quality-only: a balance of 1 uses only quality patterns
+ * - within-risk-tolerance: the efficiency pattern's risk is at most the tolerance
+ * - above-risk-tolerance: the efficiency pattern's risk exceeds the tolerance
+ * - disabled-by-id: the pattern is excluded by disabledPatternIds or onlyPatternIds
+ */
+export type PatternSelectionReason =
+  | 'quality-pattern'
+  | 'efficiency-only'
+  | 'quality-only'
+  | 'within-risk-tolerance'
+  | 'above-risk-tolerance'
+  | 'disabled-by-id';
+
+/**
+ * Selection decision for a single pattern
+ */
+export interface PatternSelectionInfo {
+  id: string;
+  // Which pattern set the pattern belongs to
+  group: 'quality' | 'efficiency';
+  included: boolean;
+  reason: PatternSelectionReason;
+  // Risk score used for the decision (efficiency patterns only)
+  risk?: number;
+}
+
+/**
+ * How patterns were selected for an optimization
+ */
+export interface PatternSelection {
+  qualityVsEfficiencyBalance: number;
+  // Highest risk an efficiency pattern may have to be included (1 - balance)
+  riskTolerance: number;
+  patterns: PatternSelectionInfo[];
 }
 
 /**
@@ -19,8 +86,15 @@ export interface DualOptimizerConfig {
  */
 export interface DualOptimizationResult extends OptimizationResult {
   qualityVsEfficiencyBalance: number;
+  // Which patterns were included at this balance and why
+  patternSelection: PatternSelection;
 }
 
+/**
+ * Risk assumed for patterns that do not declare one and are not built in
+ */
+export const DEFAULT_PATTERN_RISK = 0.5;
+
 /**
  * DualOptimizer provides optimization that balances between token efficiency and output quality
  * It uses separate pattern sets for each optimization goal and blends them based on user preference
@@ -30,7 +104,12 @@ export class DualOptimizer implements BaseOptimizer {
   private qualityPatterns: OptimizationPattern[] = [];
   private qualityVsEfficiencyBalance: number;
   private model: SupportedModel;
+  private protectRegions: boolean;
+  private protectedPatterns: RegExp[];
+  private patternTimeBudgetMs: number;
+  private patternFilters: PatternFilters;
   private tokenizer: any; // Will be initialized in the constructor or during optimization
+  private tokenizerVersion = -1; // Tokenizer registry version the tokenizer was resolved at
 
   /**
    * Create a new DualOptimizer
@@ -47,10 +126,26 @@ export class DualOptimizer implements BaseOptimizer {
 
     this.qualityVsEfficiencyBalance = config.qualityVsEfficiencyBalance;
     this.model = config.model;
+    this.protectRegions = config.protectRegions !== undefined ? config.protectRegions : true;
+    this.protectedPatterns = config.protectedPatterns || [];
+
+    if (config.patternTimeBudgetMs !== undefined &&
+      (typeof config.patternTimeBudgetMs !== 'number' || isNaN(config.patternTimeBudgetMs) ||
+        config.patternTimeBudgetMs <= 0)) {
+      throw new OptimizerError('patternTimeBudgetMs must be a positive number');
+    }
+    this.patternTimeBudgetMs = config.patternTimeBudgetMs ?? 1000;
+
+    validatePatternFilters(config);
+    this.patternFilters = {
+      disabledPatternIds: config.disabledPatternIds,
+      onlyPatternIds: config.onlyPatternIds,
+      patternOverrides: config.patternOverrides
+    };
 
     // Initialize tokenizer
     try {
-      this.tokenizer = createTokenizer(this.model);
+      this.initializeTokenizer();
     } catch (error) {
       console.warn(`Could not initialize tokenizer for model ${this.model}: ${error}`);
       // We'll try again during optimization
@@ -73,7 +168,7 @@ export class DualOptimizer implements BaseOptimizer {
     }
 
     patterns.forEach(pattern => {
-      this.validatePattern(pattern);
+      validatePattern(pattern);
       this.tokenEfficiencyPatterns.push(pattern);
     });
   }
@@ -89,7 +184,7 @@ export class DualOptimizer implements BaseOptimizer {
     }
 
     patterns.forEach(pattern => {
-      this.validatePattern(pattern);
+      validatePattern(pattern);
       this.qualityPatterns.push(pattern);
     });
   }
@@ -101,7 +196,7 @@ export class DualOptimizer implements BaseOptimizer {
    * @throws {OptimizerError} If the pattern is invalid
    */
   addPattern(pattern: OptimizationPattern): void {
-    this.validatePattern(pattern);
+    validatePattern(pattern);
     
     // Determine if pattern is for token efficiency or quality
     if (pattern.category === 'efficiency' ||
@@ -133,7 +228,7 @@ export class DualOptimizer implements BaseOptimizer {
     }
 
     patterns.forEach(pattern => {
-      this.validatePattern(pattern);
+      validatePattern(pattern);
 
       // Determine if pattern is for token efficiency or quality
       if (pattern.category === 'efficiency' ||
@@ -146,40 +241,6 @@ export class DualOptimizer implements BaseOptimizer {
     });
   }
 
-  /**
-   * Validate a pattern has the required properties
-   * @param pattern Pattern to validate
-   * @throws {OptimizerError} If pattern is invalid
-   * @private
-   */
-  private validatePattern(pattern: OptimizationPattern): void {
-    if (!pattern.id) {
-      throw new OptimizerError('Pattern must have an id');
-    }
-
-    if (!pattern.category) {
-      throw new OptimizerError(`Pattern ${pattern.id} must have a category`);
-    }
-
-    if (!pattern.description) {
-      throw new OptimizerError(`Pattern ${pattern.id} must have a description`);
-    }
-
-    // A pattern must have at least one of these properties
-    if (!pattern.find && !pattern.transform) {
-      throw new OptimizerError(
-        `Pattern ${pattern.id} must have either a 'find' or 'transform' property`
-      );
-    }
-
-    // If find is specified, replace must also be specified
-    if (pattern.find && !pattern.replace) {
-      throw new OptimizerError(
-        `Pattern ${pattern.id} with 'find' must also have a 'replace' property`
-      );
-    }
-  }
-
   /**
    * Set the balance between token efficiency and quality
    * @param balance Balance between token efficiency and quality (0-1)
@@ -207,7 +268,7 @@ export class DualOptimizer implements BaseOptimizer {
 
     // Reinitialize tokenizer with new model
     try {
-      this.tokenizer = createTokenizer(this.model);
+      this.initializeTokenizer();
     } catch (error) {
       console.warn(`Could not initialize tokenizer for model ${this.model}: ${error}`);
       // We'll try again during optimization
@@ -241,15 +302,17 @@ export class DualOptimizer implements BaseOptimizer {
         percentSaved: 0,
         appliedPatterns: [],
         skippedPatterns: [],
-        qualityVsEfficiencyBalance: this.qualityVsEfficiencyBalance
+        sourceMap: SourceMap.identity(text.length),
+        qualityVsEfficiencyBalance: this.qualityVsEfficiencyBalance,
+        patternSelection: this.selectPatterns()
       };
     }
 
     try {
-      // Ensure tokenizer is initialized
-      if (!this.tokenizer) {
+      // Ensure tokenizer is initialized, and still the one the model resolves to
+      if (!this.tokenizer || this.tokenizerVersion !== getTokenizerRegistryVersion()) {
         try {
-          this.tokenizer = createTokenizer(this.model);
+          this.initializeTokenizer();
         } catch (error) {
           throw new OptimizerError(`Could not initialize tokenizer for model ${this.model}: ${error}`);
         }
@@ -258,31 +321,62 @@ export class DualOptimizer implements BaseOptimizer {
       const originalTokenCount = this.tokenizer.countTokens(text);
 
       // Select patterns based on balance
-      const patternsToApply: OptimizationPattern[] = this.selectPatterns();
+      const patternSelection = this.selectPatterns();
+      const selected = this.getConfiguredPatterns()
+        .filter((pattern, index) => patternSelection.patterns[index].included)
+        .map(pattern => ({ ...pattern }));
+
+      // A blend of both sets runs in priority order
+      const blended = this.qualityVsEfficiencyBalance > 0 && this.qualityVsEfficiencyBalance < 1;
+      const patternsToApply = blended ? this.sortByPriority(selected) : selected;
+
+      // Hide protected regions from all patterns
+      const masked = this.protectRegions
+        ? maskProtectedRegions(text, this.protectedPatterns)
+        : null;
+      let workingText = masked ? masked.text : text;
 
       let optimizedText = text;
+      let currentTokenCount = originalTokenCount;
+      let sourceMap = SourceMap.identity(text.length);
       const appliedPatterns: AppliedPatternInfo[] = [];
       const skippedPatterns: OptimizationPattern[] = [];
+      const skipReasons: SkippedPatternInfo[] = [];
+      const skip = (pattern: OptimizationPattern, reason?: SkipReason, detail?: string) => {
+        skippedPatterns.push(pattern);
+        if (reason) {
+          skipReasons.push({ id: pattern.id, reason, ...(detail !== undefined ? { detail } : {}) });
+        }
+      };
 
       // Apply selected patterns
       for (const pattern of patternsToApply) {
         try {
           // Skip if pattern is disabled
           if (pattern.disabled) {
-            skippedPatterns.push(pattern);
+            skip(pattern);
             continue;
           }
 
-          // Try to apply the pattern
-          const textBeforePattern = optimizedText;
-          const result = this.applyPattern(optimizedText, pattern);
+          // Try to apply the pattern within its time budget
+          const result = applyPattern(workingText, pattern, this.patternTimeBudgetMs);
+
+          // Discard the output if the pattern altered a protected region
+          if (result.applied && masked && !hasIntactSentinels(result.text, masked)) {
+            skip(pattern, 'protected-region');
+            continue;
+          }
 
           // If pattern was applied, update optimized text and track metrics
           if (result.applied) {
-            const tokensBeforePattern = this.tokenizer.countTokens(textBeforePattern);
-            optimizedText = result.text;
+            const tokensBeforePattern = currentTokenCount;
+            const edits = masked ? restoreEdits(result.edits, workingText, masked) : result.edits;
+            sourceMap = sourceMap.compose(SourceMap.fromEdits(optimizedText.length, edits));
+            workingText = result.text;
+            optimizedText = masked ? restoreProtectedRegions(workingText, masked) : workingText;
             const tokensAfterPattern = this.tokenizer.countTokens(optimizedText);
             const tokenChange = tokensAfterPattern - tokensBeforePattern;
+            currentTokenCount = tokensAfterPattern;
 
             appliedPatterns.push({
               id: pattern.id,
@@ -290,15 +384,22 @@ export class DualOptimizer implements BaseOptimizer {
               description: pattern.description,
               priority: pattern.priority,
               tokensSaved: -tokenChange, // Negative change means tokens were saved
-              tokenChange: tokenChange
+              tokenChange: tokenChange,
+              edits
             });
           } else {
-            skippedPatterns.push(pattern);
+            skip(pattern);
           }
         } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (error instanceof PatternTimeoutError) {
+            skip(pattern, 'timeout', message);
+            continue;
+          }
+
           // Log error but continue with other patterns
           console.error(`Error applying pattern ${pattern.id}:`, error);
-          skippedPatterns.push(pattern);
+          skip(pattern, 'error', message);
         }
       }
 
@@ -318,7 +419,11 @@ export class DualOptimizer implements BaseOptimizer {
         percentSaved,
         appliedPatterns,
         skippedPatterns,
-        qualityVsEfficiencyBalance: this.qualityVsEfficiencyBalance
+        skipReasons,
+        protectedRegions: masked ? masked.regions : [],
+        sourceMap,
+        qualityVsEfficiencyBalance: this.qualityVsEfficiencyBalance,
+        patternSelection
       };
     } catch (error) {
       throw new OptimizerError(
@@ -328,123 +433,102 @@ export class DualOptimizer implements BaseOptimizer {
   }
 
   /**
-   * Select patterns to apply based on the quality/efficiency balance
-   * @returns Array of patterns to apply
+   * Create the tokenizer of the model, recording the tokenizer registry version it was resolved at
+   * @throws {Error} If the tokenizer cannot be created (the tokenizer is then unset)
    * @private
    */
-  private selectPatterns(): OptimizationPattern[] {
-    // If balance is 0, use only token efficiency patterns
-    if (this.qualityVsEfficiencyBalance === 0) {
-      return [...this.tokenEfficiencyPatterns];
-    }
-
-    // If balance is 1, use only quality patterns
-    if (this.qualityVsEfficiencyBalance === 1) {
-      return [...this.qualityPatterns];
-    }
-
-    // Otherwise, blend patterns based on balance
-    const patterns: OptimizationPattern[] = [];
-
-    // Add all quality patterns
-    this.qualityPatterns.forEach(pattern => patterns.push({ ...pattern }));
-
-    // Add token efficiency patterns with probability based on balance
-    this.tokenEfficiencyPatterns.forEach(pattern => {
-      // The lower the balance, the more likely we include efficiency patterns
-      if (Math.random() > this.qualityVsEfficiencyBalance) {
-        patterns.push({ ...pattern });
-      }
-    });
-
-    // Sort by priority if available
-    return patterns.sort((a, b) => {
-      const priorityA = a.priority || 0;
-      const priorityB = b.priority || 0;
-      return priorityB - priorityA; // Higher priority first
-    });
+  private initializeTokenizer(): void {
+    this.tokenizer = null;
+    this.tokenizer = createTokenizer(this.model);
+    this.tokenizerVersion = getTokenizerRegistryVersion();
   }
 
   /**
-   * Apply a pattern to text
-   * @param text Text to apply pattern to
-   * @param pattern Pattern to apply
-   * @returns Result of applying pattern
-   * @throws {OptimizerError} If pattern application fails
+   * Decide which patterns to apply at the current quality/efficiency balance
+   *
+   * Selection is deterministic: quality patterns are used at any balance above 0,
+   * and an efficiency pattern is used when its risk is at most 1 - balance
+   * (all of them at balance 0, none at balance 1). Patterns excluded by ID are
+   * never used, and risk overrides take the place of the pattern's own risk.
+   * Built-in patterns without a risk get the risk of their aggressiveness level.
+   * @returns Selection decision for every quality pattern, then every efficiency pattern
    * @private
    */
-  private applyPattern(text: string, pattern: OptimizationPattern): {
-    text: string;
-    applied: boolean;
-  } {
-    // If the pattern has a test function, use it to check if the pattern applies
-    if (pattern.test) {
-      try {
-        if (!pattern.test(text)) {
-          return { text, applied: false };
-        }
-      } catch (error) {
-        throw new OptimizerError(
-          `Error in test function for pattern ${pattern.id}: ${error instanceof Error ? error.message : String(error)}`
-        );
+  private selectPatterns(): PatternSelection {
+    const balance = this.qualityVsEfficiencyBalance;
+    const riskTolerance = 1 - balance;
+    const qualityPatterns = applyPatternOverrides(this.qualityPatterns, this.patternFilters.patternOverrides);
+    const efficiencyPatterns = applyPatternOverrides(this.tokenEfficiencyPatterns, this.patternFilters.patternOverrides);
+
+    const quality: PatternSelectionInfo[] = qualityPatterns.map(pattern => {
+      if (!isPatternAllowed(pattern.id, this.patternFilters)) {
+        return { id: pattern.id, group: 'quality', included: false, reason: 'disabled-by-id' };
       }
-    }
 
-    // If the pattern has a transform function, use it
-    if (pattern.transform) {
-      try {
-        const transformed = pattern.transform(text);
-        return {
-          text: transformed,
-          applied: transformed !== text
-        };
-      } catch (error) {
-        throw new OptimizerError(
-          `Error in transform function for pattern ${pattern.id}: ${error instanceof Error ? error.message : String(error)}`
-        );
-      }
-    }
+      return {
+        id: pattern.id,
+        group: 'quality',
+        included: balance > 0,
+        reason: balance > 0 ? 'quality-pattern' : 'efficiency-only'
+      };
+    });
 
-    // Otherwise, use the find and replace
-    if (pattern.find) {
-      try {
-        const regex = typeof pattern.find === 'string'
-          ? new RegExp(pattern.find, 'g')
-          : pattern.find;
-
-        let newText = text;
-
-        // Handle both string and function replacers
-        if (typeof pattern.replace === 'string') {
-          newText = text.replace(regex, pattern.replace);
-        } else if (typeof pattern.replace === 'function') {
-          newText = text.replace(regex, function () {
-            try {
-              // @ts-ignore - We know it's a function at this point
-              return pattern.replace.apply(null, arguments);
-            } catch (error) {
-              console.error(`Error in replacer function for pattern ${pattern.id}:`, error);
-              // Return the original match if the replacer fails
-              return arguments[0];
-            }
-          });
-        } else {
-          // If no replace specified, use empty string
-          newText = text.replace(regex, '');
-        }
+    const efficiency: PatternSelectionInfo[] = efficiencyPatterns.map(pattern => {
+      const risk = pattern.risk ?? getBuiltInPatternRisk(pattern.id) ?? DEFAULT_PATTERN_RISK;
+
+      if (!isPatternAllowed(pattern.id, this.patternFilters)) {
+        return { id: pattern.id, group: 'efficiency', included: false, reason: 'disabled-by-id', risk };
+      }
 
+      if (balance === 0 || balance === 1) {
         return {
-          text: newText,
-          applied: newText !== text
+          id: pattern.id,
+          group: 'efficiency',
+          included: balance === 0,
+          reason: balance === 0 ? 'efficiency-only' : 'quality-only',
+          risk
         };
-      } catch (error) {
-        throw new OptimizerError(
-          `Error applying pattern ${pattern.id} (find/replace): ${error instanceof Error ? error.message : String(error)}`
-        );
       }
-    }
 
-    // If no valid pattern method, return unchanged
-    return { text, applied: false };
+      // The lower the balance, the riskier the efficiency patterns we accept
+      return {
+        id: pattern.id,
+        group: 'efficiency',
+        included: risk <= riskTolerance,
+        reason: risk <= riskTolerance ? 'within-risk-tolerance' : 'above-risk-tolerance',
+        risk
+      };
+    });
+
+    return {
+      qualityVsEfficiencyBalance: balance,
+      riskTolerance,
+      patterns: [...quality, ...efficiency]
+    };
+  }
+
+  /**
+   * Get the quality patterns, then the efficiency patterns, with their overrides applied
+   * @returns Patterns in the order of the selection decisions
+   * @private
+   */
+  private getConfiguredPatterns(): OptimizationPattern[] {
+    return applyPatternOverrides(
+      [...this.qualityPatterns, ...this.tokenEfficiencyPatterns],
+      this.patternFilters.patternOverrides
+    );
+  }
+
+  /**
+   * Sort patterns by priority, keeping their relative order on ties
+   * @param patterns Patterns to sort
+   * @returns Patterns with higher priority first
+   * @private
+   */
+  private sortByPriority(patterns: OptimizationPattern[]): OptimizationPattern[] {
+    return patterns
+      .map((pattern, index) => ({ pattern, index }))
+      .sort((a, b) => ((b.pattern.priority || 0) - (a.pattern.priority || 0)) || a.index - b.index)
+      .map(({ pattern }) => pattern);
   }
 }
@@ -0,0 +1,161 @@
+import { ExampleInfo, ExamplePruningOptions, ExamplePruningResult } from '../types';
+import { detectExampleBlocks, shingleSimilarity } from '../utils/example-blocks';
+import { OptimizerError } from './base-optimizer';
+
+/**
+ * Default options for few-shot example pruning
+ */
+export const DEFAULT_EXAMPLE_PRUNING_OPTIONS: Required<Omit<ExamplePruningOptions, 'maxExampleTokens'>> = {
+  similarityThreshold: 0.8,
+  shingleSize: 3
+};
+
+/**
+ * Drop redundant few-shot examples from a text
+ *
+ * Examples nearly identical to an earlier kept example are dropped first.
+ * With a token budget, the remaining examples are then chosen greedily: the
+ * first example that fits, then each time the example least similar to the
+ * ones already chosen that still fits, so the kept subset is as diverse as
+ * possible. Kept examples stay in their original order and place.
+ *
+ * @param text - Text containing the examples
+ * @param options - Token budget and similarity settings
+ * @param countTokens - Function counting the tokens of a text
+ * @returns Pruned text with the kept and dropped examples
+ * @throws {OptimizerError} If the options are invalid
+ */
+export function pruneExampleBlocks(
+  text: string,
+  options: ExamplePruningOptions,
+  countTokens: (text: string) => number
+): ExamplePruningResult {
+  if (typeof text !== 'string') {
+    throw new OptimizerError('Text must be a string');
+  }
+  validateOptions(options);
+  const similarityThreshold = options.similarityThreshold ?? DEFAULT_EXAMPLE_PRUNING_OPTIONS.similarityThreshold;
+  const shingleSize = options.shingleSize ?? DEFAULT_EXAMPLE_PRUNING_OPTIONS.shingleSize;
+
+  const examples: ExampleInfo[] = detectExampleBlocks(text).map((block, index) => ({
+    index,
+    ...block,
+    tokenCount: countTokens(block.text),
+    kept: true
+  }));
+
+  const similarities = new Map<string, number>();
+  const similarity = (a: ExampleInfo, b: ExampleInfo): number => {
+    const key = a.index < b.index ? `${a.index}:${b.index}` : `${b.index}:${a.index}`;
+    if (!similarities.has(key)) {
+      similarities.set(key, shingleSimilarity(a.text, b.text, shingleSize));
+    }
+    return similarities.get(key)!;
+  };
+
+  // Near-duplicates of an earlier kept example
+  const unique: ExampleInfo[] = [];
+  examples.forEach(example => {
+    let closest: ExampleInfo | null = null;
+    let closestSimilarity = 0;
+    unique.forEach(kept => {
+      const value = similarity(example, kept);
+      if (value > closestSimilarity) {
+        closest = kept;
+        closestSimilarity = value;
+      }
+    });
+
+    if (closest && closestSimilarity >= similarityThreshold) {
+      example.kept = false;
+      example.dropReason = 'duplicate';
+      example.duplicateOf = (closest as ExampleInfo).index;
+      example.similarity = closestSimilarity;
+    } else {
+      unique.push(example);
+    }
+  });
+
+  // Most diverse subset within the budget
+  if (options.maxExampleTokens !== undefined) {
+    const selected: ExampleInfo[] = [];
+    let remaining = options.maxExampleTokens;
+
+    let best: ExampleInfo | null = null;
+    do {
+      best = null;
+      let bestDistance = -1;
+      unique
+        .filter(example => !selected.includes(example) && example.tokenCount <= remaining)
+        .forEach(example => {
+          const distance = selected.length === 0
+            ? 1
+            : Math.min(...selected.map(other => 1 - similarity(example, other)));
+          if (distance > bestDistance) {
+            best = example;
+            bestDistance = distance;
+          }
+        });
+
+      if (best) {
+        selected.push(best);
+        remaining -= (best as ExampleInfo).tokenCount;
+      }
+    } while (best);
+
+    unique
+      .filter(example => !selected.includes(example))
+      .forEach(example => {
+        example.kept = false;
+        example.dropReason = 'budget';
+      });
+  }
+
+  // Remove dropped examples together with the whitespace separating them from what follows
+  let prunedText = '';
+  let position = 0;
+  examples.filter(example => !example.kept).forEach(example => {
+    prunedText += text.slice(position, example.start);
+    position = example.end;
+    while (position < text.length && /\s/.test(text[position])) position++;
+  });
+  prunedText += text.slice(position);
+
+  const originalTokenCount = countTokens(text);
+  const prunedTokenCount = prunedText === text ? originalTokenCount : countTokens(prunedText);
+
+  return {
+    originalText: text,
+    prunedText,
+    originalTokenCount,
+    prunedTokenCount,
+    tokensSaved: originalTokenCount - prunedTokenCount,
+    keptExampleTokens: examples
+      .filter(example => example.kept)
+      .reduce((total, example) => total + example.tokenCount, 0),
+    examples,
+    droppedExamples: examples.filter(example => !example.kept)
+  };
+}
+
+/**
+ * Validate few-shot example pruning options
+ * @private
+ */
+function validateOptions(options: ExamplePruningOptions): void {
+  const { maxExampleTokens, similarityThreshold, shingleSize } = options;
+
+  if (maxExampleTokens !== undefined &&
+    (typeof maxExampleTokens !== 'number' || isNaN(maxExampleTokens) || maxExampleTokens < 0)) {
+    throw new OptimizerError('maxExampleTokens must be a non-negative number');
+  }
+
+  if (similarityThreshold !== undefined &&
+    (typeof similarityThreshold !== 'number' || !(similarityThreshold >= 0 && similarityThreshold <= 1))) {
+    throw new OptimizerError('similarityThreshold must be a number between 0 and 1');
+  }
+
+  if (shingleSize !== undefined && (!Number.isInteger(shingleSize) || shingleSize < 1)) {
+    throw new OptimizerError('shingleSize must be a positive integer');
+  }
+}
@@ -0,0 +1,278 @@
+import {
+  ChatMessage,
+  ChatRolePolicy,
+  HistoryCompactionOptions,
+  HistoryCompactionResult,
+  HistoryCompactionStage,
+  HistoryDigestEntry,
+  HistoryDigestKind,
+  OptimizationResult
+} from '../types';
+import { countConversationTokens, isTextPart } from '../utils/chat-format';
+import { extractInvariants } from '../utils/invariants';
+import { getAggressivenessProfile } from '../patterns/aggressiveness-profiles';
+import { mapMessageText, validateMessages } from './message-optimization';
+import { OptimizerError } from './base-optimizer';
+
+/**
+ * Default options for history compaction
+ */
+export const DEFAULT_HISTORY_COMPACTION_OPTIONS: Required<Omit<HistoryCompactionOptions, 'targetTokens'>> = {
+  keepLastTurns: 4,
+  escalation: ['low', 'medium', 'high', 'max'],
+  digestRole: 'system'
+};
+
+/**
+ * First line of the digest message
+ */
+export const HISTORY_DIGEST_HEADER = 'Summary of earlier conversation:';
+
+// Roles whose messages are always kept verbatim
+const INSTRUCTION_ROLES = ['system', 'developer'];
+
+// Roles whose sentences make it into the digest
+const DIGEST_ROLES = ['user', 'assistant'];
+
+const SENTENCE_SPLIT_REGEX = /(?<=[.!?])\s+|\n+/;
+const DECISION_REGEX = /\b(?:decided|decide|agreed|agree|confirmed|confirm|approved|resolved|chose|will|going to|let's|plan to|we'll|i'll)\b/i;
+
+/**
+ * Compact a conversation until it fits a token target, without model calls
+ *
+ * System and developer messages and the last turns are kept verbatim. Older
+ * turns are first optimized with each escalation policy in turn; if that is
+ * not enough, the oldest turns are collapsed one at a time into a single
+ * digest message of their questions, decisions and key facts. The same input
+ * always gives the same output. The messages passed in are not modified.
+ *
+ * @param messages - Conversation in the OpenAI chat format
+ * @param options - Token target, verbatim turns and escalation policies
+ * @param getOptimizer - Returns the function optimizing a text for a policy
+ * @param countTokens - Function counting the tokens of a text
+ * @returns Compacted conversation with the stage that met the target
+ * @throws {OptimizerError} If the messages or options are invalid
+ */
+export function compactMessageHistory(
+  messages: ChatMessage[],
+  options: HistoryCompactionOptions,
+  getOptimizer: (policy: ChatRolePolicy) => (text: string) => OptimizationResult,
+  countTokens: (text: string) => number
+): HistoryCompactionResult {
+  validateMessages(messages);
+  validateOptions(options);
+  const { targetTokens } = options;
+  const keepLastTurns = options.keepLastTurns ?? DEFAULT_HISTORY_COMPACTION_OPTIONS.keepLastTurns;
+  const escalation = options.escalation ?? DEFAULT_HISTORY_COMPACTION_OPTIONS.escalation;
+  const digestRole = options.digestRole ?? DEFAULT_HISTORY_COMPACTION_OPTIONS.digestRole;
+
+  const count = (list: ChatMessage[]) => countConversationTokens(list, countTokens);
+  const originalTokenCount = count(messages);
+  const finish = (
+    compactedMessages: ChatMessage[],
+    stage: HistoryCompactionStage,
+    policy: ChatRolePolicy | null,
+    collapsedMessageCount: number = 0,
+    digest: HistoryDigestEntry[] = []
+  ): HistoryCompactionResult => {
+    const compactedTokenCount = stage === 'none' ? originalTokenCount : count(compactedMessages);
+    return {
+      originalMessages: messages,
+      compactedMessages,
+      originalTokenCount,
+      compactedTokenCount,
+      tokensSaved: originalTokenCount - compactedTokenCount,
+      targetTokens,
+      targetMet: compactedTokenCount <= targetTokens,
+      stage,
+      policy,
+      collapsedMessageCount,
+      digest
+    };
+  };
+
+  if (originalTokenCount <= targetTokens) {
+    return finish(messages.map(message => ({ ...message })), 'none', null);
+  }
+
+  const olderTurns = getOlderTurns(messages, keepLastTurns);
+  const older = new Set<number>();
+  olderTurns.forEach(turn => turn.forEach(index => older.add(index)));
+
+  // Optimize the older turns with increasingly aggressive policies
+  let current = messages;
+  let policy: ChatRolePolicy | null = null;
+  for (const level of escalation) {
+    if (level === 'none') continue;
+    policy = level;
+
+    const optimize = getOptimizer(level);
+    current = messages.map((message, index) => older.has(index)
+      ? mapMessageText(message, text => text.trim() === '' ? text : optimize(text).optimizedText)
+      : message);
+
+    if (count(current) <= targetTokens) {
+      return finish(current.map(message => ({ ...message })), 'patterns', policy);
+    }
+  }
+
+  // Collapse the oldest turns into a digest, one turn at a time
+  const digestMessage = (entries: HistoryDigestEntry[]): ChatMessage => ({
+    role: digestRole,
+    content: [HISTORY_DIGEST_HEADER, ...entries.map(entry => `- ${entry.role}: ${entry.text}`)].join('\n')
+  });
+  const compose = (collapsed: Set<number>, entries: HistoryDigestEntry[]): ChatMessage[] => {
+    const result: ChatMessage[] = [];
+    let digestAdded = entries.length === 0;
+    current.forEach((message, index) => {
+      if (!collapsed.has(index)) {
+        result.push({ ...message });
+        return;
+      }
+      if (!digestAdded) {
+        result.push(digestMessage(entries));
+        digestAdded = true;
+      }
+    });
+    return result;
+  };
+
+  const collapsed = new Set<number>();
+  let entries: HistoryDigestEntry[] = [];
+  let compacted = current;
+  for (const turn of olderTurns) {
+    turn.forEach(index => collapsed.add(index));
+    entries = mergeDigestEntries(entries, extractDigestEntries(messages, turn));
+    compacted = compose(collapsed, entries);
+
+    if (count(compacted) <= targetTokens) {
+      return finish(compacted, 'digest', policy, collapsed.size, entries);
+    }
+  }
+
+  // Still too long: drop the oldest digest sentences
+  while (entries.length > 0 && count(compacted) > targetTokens) {
+    entries = entries.slice(1);
+    compacted = compose(collapsed, entries);
+  }
+
+  return collapsed.size > 0
+    ? finish(compacted, 'digest', policy, collapsed.size, entries)
+    : finish(compacted.map(message => ({ ...message })), 'patterns', policy);
+}
+
+/**
+ * Get the message indices of each turn before the last ones, oldest first
+ *
+ * A turn starts at a user message (or at the first message) and runs until
+ * the next user message. System and developer messages belong to no turn.
+ * @private
+ */
+function getOlderTurns(messages: ChatMessage[], keepLastTurns: number): number[][] {
+  const turns: number[][] = [];
+  messages.forEach((message, index) => {
+    if (INSTRUCTION_ROLES.includes(message.role)) return;
+    if (turns.length === 0 || message.role === 'user') {
+      turns.push([]);
+    }
+    turns[turns.length - 1].push(index);
+  });
+
+  return turns.slice(0, Math.max(0, turns.length - keepLastTurns));
+}
+
+/**
+ * Extract the questions, decisions and key facts of a turn
+ *
+ * A turn without any of them is represented by its first sentence.
+ * @private
+ */
+function extractDigestEntries(messages: ChatMessage[], turn: number[]): HistoryDigestEntry[] {
+  const entries: HistoryDigestEntry[] = [];
+  let first: HistoryDigestEntry | null = null;
+
+  turn
+    .filter(index => DIGEST_ROLES.includes(messages[index].role))
+    .forEach(index => {
+      const message = messages[index];
+      getMessageText(message)
+        .split(SENTENCE_SPLIT_REGEX)
+        .map(sentence => sentence.trim())
+        .filter(sentence => sentence !== '')
+        .forEach(sentence => {
+          const kind = classifySentence(sentence);
+          const entry: HistoryDigestEntry = { messageIndex: index, role: message.role, kind: kind || 'key', text: sentence };
+          if (!first) first = entry;
+          if (kind) entries.push(entry);
+        });
+    });
+
+  return entries.length === 0 && first ? [first] : entries;
+}
+
+/**
+ * Append digest entries, skipping sentences already in the digest
+ * @private
+ */
+function mergeDigestEntries(entries: HistoryDigestEntry[], added: HistoryDigestEntry[]): HistoryDigestEntry[] {
+  const seen = new Set(entries.map(entry => entry.text.toLowerCase()));
+  return [
+    ...entries,
+    ...added.filter(entry => {
+      const key = entry.text.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+  ];
+}
+
+/**
+ * Classify a sentence for the digest, or return null if it is not worth keeping
+ * @private
+ */
+function classifySentence(sentence: string): HistoryDigestKind | null {
+  if (sentence.endsWith('?')) return 'question';
+  if (DECISION_REGEX.test(sentence)) return 'decision';
+  if (extractInvariants(sentence).some(token => token.type !== 'negation')) return 'key';
+  return null;
+}
+
+/**
+ * Get the text of a message, joining its text parts
+ * @private
+ */
+function getMessageText(message: ChatMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  if (!Array.isArray(message.content)) return '';
+  return message.content.filter(isTextPart).map(part => part.text as string).join('\n');
+}
+
+/**
+ * Validate history compaction options
+ * @private
+ */
+function validateOptions(options: HistoryCompactionOptions): void {
+  if (!options || typeof options.targetTokens !== 'number' || isNaN(options.targetTokens) || options.targetTokens < 0) {
+    throw new OptimizerError('targetTokens must be a non-negative number');
+  }
+
+  if (options.keepLastTurns !== undefined && (!Number.isInteger(options.keepLastTurns) || options.keepLastTurns < 0)) {
+    throw new OptimizerError('keepLastTurns must be a non-negative integer');
+  }
+
+  if (options.escalation !== undefined) {
+    if (!Array.isArray(options.escalation)) {
+      throw new OptimizerError('escalation must be an array of policies');
+    }
+    options.escalation.forEach(policy => {
+      if (policy !== 'none' && (typeof policy !== 'string' || !getAggressivenessProfile(policy))) {
+        throw new OptimizerError(`Invalid escalation policy: ${policy}`);
+      }
+    });
+  }
+
+  if (options.digestRole !== undefined && (typeof options.digestRole !== 'string' || options.digestRole === '')) {
+    throw new OptimizerError('digestRole must be a non-empty string');
+  }
+}
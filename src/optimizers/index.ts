@@ -1,10 +1,60 @@
-import { PatternOptimizer } from './pattern-optimizer';
-import { DualOptimizer } from './dual-optimizer';
-import { BaseOptimizer, OptimizerError } from './base-optimizer';
+import { PatternOptimizer, PatternOptimizerOptions, DEFAULT_PATTERN_OPTIMIZER_OPTIONS } from './pattern-optimizer';
+import {
+  DualOptimizer,
+  DEFAULT_PATTERN_RISK,
+  PatternSelection,
+  PatternSelectionInfo,
+  PatternSelectionReason
+} from './dual-optimizer';
+import { BaseOptimizer, OptimizerError, PatternTimeoutError } from './base-optimizer';
+import { applyPattern, validatePattern, PatternApplication } from './pattern-application';
+import { searchPatternOrder, PatternOrderSearchOptions, PatternOrderSearchResult } from './pattern-order-search';
+import { orderPatterns, getPatternSuccessors, patternsConflict } from './pattern-ordering';
+import { createSuggestions, applyAcceptedSuggestions } from './suggestions';
+import { optimizeMessageList, resolveRolePolicies, DEFAULT_ROLE_POLICIES } from './message-optimization';
+import { optimizeAnthropicRequestContent, countContentTokens } from './anthropic-request-optimization';
+import { optimizeToolList, countToolTokens } from './tool-optimization';
+import { pruneExampleBlocks, DEFAULT_EXAMPLE_PRUNING_OPTIONS } from './example-pruning';
+import { compactMessageHistory, DEFAULT_HISTORY_COMPACTION_OPTIONS, HISTORY_DIGEST_HEADER } from './history-compaction';
+import { filterPatterns, applyPatternOverrides, isPatternAllowed, validatePatternFilters } from './pattern-filters';
 
 export {
   BaseOptimizer,
   PatternOptimizer,
+  PatternOptimizerOptions,
+  DEFAULT_PATTERN_OPTIMIZER_OPTIONS,
   DualOptimizer,
-  OptimizerError
+  DEFAULT_PATTERN_RISK,
+  PatternSelection,
+  PatternSelectionInfo,
+  PatternSelectionReason,
+  OptimizerError,
+  PatternTimeoutError,
+  applyPattern,
+  validatePattern,
+  PatternApplication,
+  searchPatternOrder,
+  PatternOrderSearchOptions,
+  PatternOrderSearchResult,
+  orderPatterns,
+  getPatternSuccessors,
+  patternsConflict,
+  createSuggestions,
+  applyAcceptedSuggestions,
+  filterPatterns,
+  applyPatternOverrides,
+  isPatternAllowed,
+  validatePatternFilters,
+  optimizeMessageList,
+  resolveRolePolicies,
+  DEFAULT_ROLE_POLICIES,
+  optimizeAnthropicRequestContent,
+  countContentTokens,
+  optimizeToolList,
+  countToolTokens,
+  pruneExampleBlocks,
+  DEFAULT_EXAMPLE_PRUNING_OPTIONS,
+  compactMessageHistory,
+  DEFAULT_HISTORY_COMPACTION_OPTIONS,
+  HISTORY_DIGEST_HEADER
 };
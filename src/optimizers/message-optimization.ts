@@ -0,0 +1,170 @@
+import {
+  ChatContentPart,
+  ChatMessage,
+  ChatRole,
+  ChatRolePolicy,
+  MessageOptimizationInfo,
+  MessageOptimizationOptions,
+  MessagesOptimizationResult,
+  OptimizationResult
+} from '../types';
+import { countConversationTokens, countMessageTokens, isTextPart } from '../utils/chat-format';
+import { getAggressivenessProfile } from '../patterns/aggressiveness-profiles';
+import { OptimizerError } from './base-optimizer';
+
+/**
+ * Default policy per role: instructions are optimized aggressively, user input
+ * conservatively, and model output and tool results are never touched
+ */
+export const DEFAULT_ROLE_POLICIES: Record<ChatRole, ChatRolePolicy> = {
+  system: 'high',
+  developer: 'high',
+  user: 'low',
+  assistant: 'none',
+  tool: 'none',
+  function: 'none'
+};
+
+/**
+ * Optimize the text content of chat messages with a policy per role
+ *
+ * String content and the text parts of array-of-parts content are optimized;
+ * other parts, null content and all other message fields are kept as they are.
+ * The messages passed in are not modified.
+ *
+ * @param messages - Messages to optimize
+ * @param options - Role policies
+ * @param getOptimizer - Returns the function optimizing a text for a policy
+ * @param countTokens - Function counting the tokens of a text
+ * @returns Optimized messages with per-message and total token counts
+ * @throws {OptimizerError} If the messages or a policy are invalid
+ */
+export function optimizeMessageList(
+  messages: ChatMessage[],
+  options: MessageOptimizationOptions,
+  getOptimizer: (policy: ChatRolePolicy) => (text: string) => OptimizationResult,
+  countTokens: (text: string) => number
+): MessagesOptimizationResult {
+  validateMessages(messages);
+  const policyFor = resolveRolePolicies(options);
+
+  const infos: MessageOptimizationInfo[] = [];
+  const optimizedMessages = messages.map((message, index) => {
+    const policy = policyFor(message.role);
+    const results: OptimizationResult[] = [];
+
+    let optimized: ChatMessage = { ...message };
+    if (policy !== 'none') {
+      const optimize = getOptimizer(policy);
+      optimized = mapMessageText(message, text => {
+        if (text.trim() === '') return text;
+        const result = optimize(text);
+        results.push(result);
+        return result.optimizedText;
+      });
+    }
+
+    const originalTokenCount = countMessageTokens(message, countTokens);
+    const optimizedTokenCount = countMessageTokens(optimized, countTokens);
+    infos.push({
+      index,
+      role: message.role,
+      policy,
+      originalTokenCount,
+      optimizedTokenCount,
+      tokensSaved: originalTokenCount - optimizedTokenCount,
+      results
+    });
+
+    return optimized;
+  });
+
+  const originalTokenCount = countConversationTokens(messages, countTokens);
+  const optimizedTokenCount = countConversationTokens(optimizedMessages, countTokens);
+  const tokensSaved = originalTokenCount - optimizedTokenCount;
+
+  return {
+    originalMessages: messages,
+    optimizedMessages,
+    originalTokenCount,
+    optimizedTokenCount,
+    tokensSaved,
+    percentSaved: originalTokenCount > 0 ? (tokensSaved / originalTokenCount) * 100 : 0,
+    messages: infos
+  };
+}
+
+/**
+ * Resolve the role policies of message optimization options
+ *
+ * @param options - Role policies, merged over the defaults
+ * @returns Function giving the policy of a role
+ * @throws {OptimizerError} If a policy is not 'none' or a known aggressiveness profile
+ */
+export function resolveRolePolicies(options: MessageOptimizationOptions): (role: ChatRole) => ChatRolePolicy {
+  const policies = { ...DEFAULT_ROLE_POLICIES, ...(options.rolePolicies || {}) };
+  const defaultPolicy = options.defaultPolicy ?? 'none';
+  Object.keys(policies).forEach(role => validatePolicy(policies[role], `role ${role}`));
+  validatePolicy(defaultPolicy, 'defaultPolicy');
+
+  return role => Object.prototype.hasOwnProperty.call(policies, role) ? policies[role] : defaultPolicy;
+}
+
+/**
+ * Copy a message with each of its texts replaced
+ *
+ * String content and the text parts of array-of-parts content are mapped;
+ * other parts, null content and all other message fields are kept as they are.
+ *
+ * @param message - Message to copy
+ * @param mapText - Returns the new text for a text of the message
+ * @returns Copy of the message with the new texts
+ */
+export function mapMessageText(message: ChatMessage, mapText: (text: string) => string): ChatMessage {
+  if (typeof message.content === 'string') {
+    return { ...message, content: mapText(message.content) };
+  }
+
+  if (Array.isArray(message.content)) {
+    return {
+      ...message,
+      content: message.content.map((part: ChatContentPart) =>
+        isTextPart(part) ? { ...part, text: mapText(part.text as string) } : part)
+    };
+  }
+
+  return { ...message };
+}
+
+/**
+ * Validate an array of chat messages
+ *
+ * @param messages - Messages to validate
+ * @throws {OptimizerError} If messages is not an array or a message has no role or invalid content
+ */
+export function validateMessages(messages: ChatMessage[]): void {
+  if (!Array.isArray(messages)) {
+    throw new OptimizerError('Messages must be an array');
+  }
+
+  messages.forEach((message, index) => {
+    if (!message || typeof message !== 'object' || typeof message.role !== 'string') {
+      throw new OptimizerError(`Message ${index} must be an object with a role`);
+    }
+
+    const content = message.content;
+    if (content !== null && content !== undefined && typeof content !== 'string' && !Array.isArray(content)) {
+      throw new OptimizerError(`Message ${index} content must be a string, an array of parts or null`);
+    }
+  });
+}
+
+/**
+ * Validate a role policy
+ * @private
+ */
+function validatePolicy(policy: ChatRolePolicy, target: string): void {
+  if (policy !== 'none' && (typeof policy !== 'string' || !getAggressivenessProfile(policy))) {
+    throw new OptimizerError(`Invalid policy for ${target}: ${policy}`);
+  }
+}
@@ -0,0 +1,323 @@
+import { OptimizationPattern, TextEdit } from '../types';
+import { diffText } from '../utils/text-diff';
+import { isBrowser } from '../utils/environment';
+import { detectCatastrophicBacktracking } from '../utils/regex-safety';
+import { OptimizerError, PatternTimeoutError } from './base-optimizer';
+
+// Optional import of vm - lets Node interrupt a runaway regex or transform
+let vm: typeof import('vm') | null = null;
+if (!isBrowser) {
+  try {
+    vm = require('vm');
+  } catch (error) {
+    // vm not available - time budgets are enforced after the fact
+  }
+}
+
+// Context and script reused for every budgeted call, so the per-call overhead stays small
+let budgetContext: import('vm').Context | null = null;
+let budgetScript: import('vm').Script | null = null;
+
+/**
+ * Result of applying a single pattern to text
+ */
+export interface PatternApplication {
+  /**
+   * Text after the pattern was applied
+   */
+  text: string;
+
+  /**
+   * Whether the pattern changed the text
+   */
+  applied: boolean;
+
+  /**
+   * Edits made by the pattern, with offsets in the input text
+   */
+  edits: TextEdit[];
+}
+
+/**
+ * Validate a pattern to ensure it has the required properties
+ *
+ * Shared by the optimizers and the pattern registry, so a pattern is accepted
+ * or rejected the same way wherever it is added.
+ *
+ * @param pattern - Pattern to validate
+ * @throws {OptimizerError} If the pattern is invalid or missing required properties
+ */
+export function validatePattern(pattern: OptimizationPattern): void {
+  if (!pattern.id) {
+    throw new OptimizerError('Pattern must have an id');
+  }
+
+  if (!pattern.category) {
+    throw new OptimizerError(`Pattern ${pattern.id} must have a category`);
+  }
+
+  if (!pattern.description) {
+    throw new OptimizerError(`Pattern ${pattern.id} must have a description`);
+  }
+
+  // A pattern must have at least one of these properties
+  if (!pattern.find && !pattern.transform) {
+    throw new OptimizerError(
+      `Pattern ${pattern.id} must have either a 'find' or 'transform' property`
+    );
+  }
+
+  // If find is specified, replace must also be specified
+  if (pattern.find && pattern.replace === undefined) {
+    throw new OptimizerError(
+      `Pattern ${pattern.id} with 'find' must also have a 'replace' property`
+    );
+  }
+
+  // Risk scores are used by the DualOptimizer's pattern selection
+  if (pattern.risk !== undefined &&
+    (typeof pattern.risk !== 'number' || isNaN(pattern.risk) || pattern.risk < 0 || pattern.risk > 1)) {
+    throw new OptimizerError(`Pattern ${pattern.id} risk must be a number between 0 and 1`);
+  }
+
+  // Reject regular expressions prone to catastrophic backtracking
+  if (pattern.find) {
+    const problem = detectCatastrophicBacktracking(pattern.find);
+    if (problem) {
+      throw new OptimizerError(`Pattern ${pattern.id} has an unsafe regular expression: ${problem}`);
+    }
+  }
+
+  // Dependency and conflict declarations must be lists of pattern IDs
+  for (const key of ['runAfter', 'runBefore', 'conflictsWith'] as const) {
+    const ids = pattern[key];
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => typeof id === 'string'))) {
+      throw new OptimizerError(`Pattern ${pattern.id} '${key}' must be an array of pattern IDs`);
+    }
+  }
+}
+
+/**
+ * Apply a single pattern to the text
+ *
+ * This function implements the pattern application logic shared by all optimizers, supporting:
+ * - Custom test functions to determine if a pattern applies
+ * - Transform functions that directly modify text (edits are recovered by diffing)
+ * - Find/replace patterns using RegExp or string (edits are recorded per match)
+ *
+ * With a time budget, the pattern's test, transform and find/replace share a
+ * single deadline. In Node a runaway regex or transform is interrupted; in the
+ * browser the overrun is detected between matches or once the call returns.
+ *
+ * @param text - Text to apply the pattern to
+ * @param pattern - Pattern to apply
+ * @param timeBudgetMs - Maximum time the pattern may run (in ms), or undefined for no limit
+ * @returns The resulting text, whether the pattern was applied, and the edits it made
+ * @throws {PatternTimeoutError} If the pattern exceeds its time budget
+ * @throws {OptimizerError} If pattern application fails
+ */
+export function applyPattern(
+  text: string,
+  pattern: OptimizationPattern,
+  timeBudgetMs?: number
+): PatternApplication {
+  const deadline = timeBudgetMs === undefined ? Infinity : performance.now() + timeBudgetMs;
+
+  // Run pattern-supplied code against whatever is left of the budget
+  const run = <T>(fn: () => T): T => {
+    if (timeBudgetMs === undefined) return fn();
+    return runWithinDeadline(fn, deadline, pattern.id, timeBudgetMs);
+  };
+
+  // If the pattern has a test function, use it to check if the pattern applies
+  if (pattern.test) {
+    try {
+      if (!run(() => pattern.test!(text))) {
+        return { text, applied: false, edits: [] };
+      }
+    } catch (error) {
+      if (error instanceof PatternTimeoutError) throw error;
+      throw new OptimizerError(
+        `Error in test function for pattern ${pattern.id}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  // If the pattern has a transform function, use it
+  if (pattern.transform) {
+    try {
+      const transformed = run(() => pattern.transform!(text));
+      return {
+        text: transformed,
+        applied: transformed !== text,
+        edits: diffText(text, transformed)
+      };
+    } catch (error) {
+      if (error instanceof PatternTimeoutError) throw error;
+      throw new OptimizerError(
+        `Error in transform function for pattern ${pattern.id}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  // Otherwise, use the find and replace
+  if (pattern.find) {
+    try {
+      const regex = typeof pattern.find === 'string'
+        ? new RegExp(pattern.find, 'g')
+        : pattern.find;
+
+      const edits: TextEdit[] = [];
+
+      // Replace through a callback so every match can be recorded as an edit
+      const newText = run(() => text.replace(regex, (match: string, ...rest: unknown[]) => {
+        // Checked per match so many cheap matches cannot outrun the budget either
+        if (performance.now() > deadline) {
+          throw new PatternTimeoutError(pattern.id, timeBudgetMs!);
+        }
+
+        // Replacer arguments after the match: ...captures, offset, input[, namedGroups]
+        const hasNamedGroups = typeof rest[rest.length - 1] !== 'string';
+        const offsetIndex = hasNamedGroups ? rest.length - 3 : rest.length - 2;
+        const offset = rest[offsetIndex] as number;
+        const captures = rest.slice(0, offsetIndex) as Array<string | undefined>;
+        const namedGroups = hasNamedGroups
+          ? rest[rest.length - 1] as Record<string, string | undefined>
+          : undefined;
+
+        let replacement: string;
+        if (typeof pattern.replace === 'string') {
+          replacement = expandReplacement(pattern.replace, match, captures, offset, text, namedGroups);
+        } else if (typeof pattern.replace === 'function') {
+          try {
+            replacement = String(pattern.replace(match, ...rest));
+          } catch (error) {
+            console.error(`Error in replacer function for pattern ${pattern.id}:`, error);
+            // Return the original match if the replacer fails
+            replacement = match;
+          }
+        } else {
+          // If no replace specified, use empty string
+          replacement = '';
+        }
+
+        if (replacement !== match) {
+          edits.push({ start: offset, end: offset + match.length, original: match, replacement });
+        }
+
+        return replacement;
+      }));
+
+      return {
+        text: newText,
+        applied: newText !== text,
+        edits
+      };
+    } catch (error) {
+      if (error instanceof PatternTimeoutError) throw error;
+      throw new OptimizerError(
+        `Error applying pattern ${pattern.id} (find/replace): ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  // If no valid pattern method, return unchanged
+  return { text, applied: false, edits: [] };
+}
+
+/**
+ * Run a function, raising a PatternTimeoutError if it does not finish by the deadline
+ *
+ * @param fn - Function to run
+ * @param deadline - performance.now() value the function must finish by
+ * @param patternId - ID of the pattern being applied
+ * @param budgetMs - The pattern's full time budget, for the error message
+ * @returns The function's result
+ * @private
+ */
+function runWithinDeadline<T>(fn: () => T, deadline: number, patternId: string, budgetMs: number): T {
+  const remaining = deadline - performance.now();
+  if (remaining <= 0) {
+    throw new PatternTimeoutError(patternId, budgetMs);
+  }
+
+  if (vm) {
+    if (!budgetContext || !budgetScript) {
+      budgetContext = vm.createContext({});
+      budgetScript = new vm.Script('run()');
+    }
+
+    budgetContext.run = fn;
+    try {
+      return budgetScript.runInContext(budgetContext, { timeout: Math.max(1, Math.ceil(remaining)) });
+    } catch (error) {
+      if (error && (error as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+        throw new PatternTimeoutError(patternId, budgetMs);
+      }
+      throw error;
+    } finally {
+      budgetContext.run = null;
+    }
+  }
+
+  // Without vm the call cannot be interrupted, but its result is discarded if it ran over
+  const result = fn();
+  if (performance.now() > deadline) {
+    throw new PatternTimeoutError(patternId, budgetMs);
+  }
+  return result;
+}
+
+/**
+ * Expand a String.prototype.replace() replacement template for one match
+ *
+ * Supports the same substitutions as the native method: $$, $&, $`, $', $n, $nn and $<name>.
+ *
+ * @param template - Replacement template
+ * @param match - Matched substring
+ * @param captures - Capture group values
+ * @param offset - Offset of the match in the input
+ * @param input - The whole input string
+ * @param namedGroups - Named capture groups, if the regex has any
+ * @returns The replacement for this match
+ * @private
+ */
+function expandReplacement(
+  template: string,
+  match: string,
+  captures: Array<string | undefined>,
+  offset: number,
+  input: string,
+  namedGroups?: Record<string, string | undefined>
+): string {
+  if (template.indexOf('$') === -1) {
+    return template;
+  }
+
+  return template.replace(/\$([$&`']|\d{1,2}|<[^>]*>)/g, (token, key: string) => {
+    if (key === '$') return '$';
+    if (key === '&') return match;
+    if (key === '`') return input.slice(0, offset);
+    if (key === "'") return input.slice(offset + match.length);
+
+    if (key[0] === '<') {
+      if (!namedGroups) return token;
+      return namedGroups[key.slice(1, -1)] ?? '';
+    }
+
+    const index = parseInt(key, 10);
+    if (index >= 1 && index <= captures.length) {
+      return captures[index - 1] ?? '';
+    }
+
+    // A two-digit reference beyond the group count falls back to one digit
+    if (key.length === 2) {
+      const single = parseInt(key[0], 10);
+      if (single >= 1 && single <= captures.length) {
+        return (captures[single - 1] ?? '') + key[1];
+      }
+    }
+
+    return token;
+  });
+}
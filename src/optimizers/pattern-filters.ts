@@ -0,0 +1,105 @@
+import { OptimizationPattern, PatternFilters, PatternOverride } from '../types';
+import { OptimizerError } from './base-optimizer';
+
+// Pattern options that may be overridden per pattern
+const OVERRIDE_KEYS: Array<keyof PatternOverride> = ['disabled', 'priority', 'risk', 'preservesFormatting'];
+
+/**
+ * Check whether pattern filters allow a pattern to be used
+ *
+ * @param patternId - ID of the pattern
+ * @param filters - Pattern filters
+ * @returns False if the pattern is disabled by ID or not in a non-empty onlyPatternIds list
+ */
+export function isPatternAllowed(patternId: string, filters: PatternFilters): boolean {
+  if (filters.disabledPatternIds && filters.disabledPatternIds.includes(patternId)) {
+    return false;
+  }
+
+  return !filters.onlyPatternIds || filters.onlyPatternIds.length === 0 ||
+    filters.onlyPatternIds.includes(patternId);
+}
+
+/**
+ * Apply per-pattern option overrides
+ *
+ * Overridden patterns are copied, so pattern definitions shared between
+ * optimizers (such as the built-in pattern collections) are never modified.
+ *
+ * @param patterns - Patterns to apply the overrides to
+ * @param overrides - Option overrides by pattern ID
+ * @returns Patterns in the same order, with overridden ones replaced by copies
+ */
+export function applyPatternOverrides(
+  patterns: OptimizationPattern[],
+  overrides: Record<string, PatternOverride> = {}
+): OptimizationPattern[] {
+  return patterns.map(pattern =>
+    Object.prototype.hasOwnProperty.call(overrides, pattern.id)
+      ? { ...pattern, ...overrides[pattern.id] }
+      : pattern
+  );
+}
+
+/**
+ * Select the patterns allowed by pattern filters, with their overrides applied
+ *
+ * @param patterns - Candidate patterns
+ * @param filters - Pattern filters
+ * @returns Allowed patterns in their original order
+ */
+export function filterPatterns(patterns: OptimizationPattern[], filters: PatternFilters): OptimizationPattern[] {
+  return applyPatternOverrides(
+    patterns.filter(pattern => isPatternAllowed(pattern.id, filters)),
+    filters.patternOverrides
+  );
+}
+
+/**
+ * Validate pattern filters
+ *
+ * @param filters - Pattern filters to validate
+ * @throws {OptimizerError} If an ID list is not an array of strings or an override is invalid
+ */
+export function validatePatternFilters(filters: PatternFilters): void {
+  for (const key of ['disabledPatternIds', 'onlyPatternIds'] as const) {
+    const ids = filters[key];
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => typeof id === 'string'))) {
+      throw new OptimizerError(`${key} must be an array of pattern IDs`);
+    }
+  }
+
+  const overrides = filters.patternOverrides;
+  if (overrides === undefined) return;
+
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    throw new OptimizerError('patternOverrides must be an object keyed by pattern ID');
+  }
+
+  Object.keys(overrides).forEach(id => {
+    const override = overrides[id];
+    if (typeof override !== 'object' || override === null) {
+      throw new OptimizerError(`Override for pattern ${id} must be an object`);
+    }
+
+    const unknown = Object.keys(override).find(key => !OVERRIDE_KEYS.includes(key as keyof PatternOverride));
+    if (unknown) {
+      throw new OptimizerError(`Override for pattern ${id} has an unsupported option: ${unknown}`);
+    }
+
+    for (const key of ['disabled', 'preservesFormatting'] as const) {
+      if (override[key] !== undefined && typeof override[key] !== 'boolean') {
+        throw new OptimizerError(`Override for pattern ${id} ${key} must be a boolean`);
+      }
+    }
+
+    if (override.priority !== undefined && (typeof override.priority !== 'number' || isNaN(override.priority))) {
+      throw new OptimizerError(`Override for pattern ${id} priority must be a number`);
+    }
+
+    if (override.risk !== undefined &&
+      (typeof override.risk !== 'number' || isNaN(override.risk) || override.risk < 0 || override.risk > 1)) {
+      throw new OptimizerError(`Override for pattern ${id} risk must be a number between 0 and 1`);
+    }
+  });
+}
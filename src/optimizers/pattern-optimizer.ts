@@ -1,6 +1,149 @@
-import { OptimizationPattern, OptimizationResult, SupportedModel, AppliedPatternInfo, PatternEffectivenessMetrics } from '../types';
+import {
+  OptimizationPattern,
+  OptimizationResult,
+  SupportedModel,
+  AppliedPatternInfo,
+  PatternEffectivenessMetrics,
+  PatternOrderStrategy,
+  PatternOrderSearchInfo,
+  RevertedPatternInfo,
+  SkippedPatternInfo,
+  SkipReason,
+  RevertReason,
+  InvariantCheckMode,
+  InvariantViolation,
+  DirectiveViolation,
+  OptimizationPassInfo,
+  PassStopReason,
+  PatternOverride
+} from '../types';
 import { createTokenizer } from '../tokenizers';
-import { BaseOptimizer, OptimizerError } from './base-optimizer';
+import { maskProtectedRegions, restoreProtectedRegions, hasIntactSentinels, restoreEdits } from '../utils/protected-regions';
+import { extractInvariants, findLostInvariants } from '../utils/invariants';
+import { extractDirectives, findLostDirectives } from '../utils/directives';
+import { BaseOptimizer, OptimizerError, PatternTimeoutError } from './base-optimizer';
+import { applyPattern, validatePattern } from './pattern-application';
+import { searchPatternOrder } from './pattern-order-search';
+import { orderPatterns, patternsConflict } from './pattern-ordering';
+import { filterPatterns, validatePatternFilters } from './pattern-filters';
+import { SourceMap } from '../utils/source-map';
+
+/**
+ * Additional options for the PatternOptimizer
+ */
+export interface PatternOptimizerOptions {
+  /**
+   * Whether to hide code, quoted literals and template placeholders from all patterns
+   * @default true
+   */
+  protectRegions: boolean;
+
+  /**
+   * Additional regular expressions whose matches must never be rewritten
+   * @default []
+   */
+  protectedPatterns: RegExp[];
+
+  /**
+   * Stop applying patterns as soon as the text fits within this many tokens
+   * @default undefined (apply every pattern)
+   */
+  tokenBudget?: number;
+
+  /**
+   * Revert any step whose token delta (tokens after minus tokens before) exceeds this value
+   * @default undefined (keep every step)
+   */
+  revertThreshold?: number;
+
+  /**
+   * Maximum number of passes over the pattern list; passes stop early once the
+   * text stops changing or starts cycling between earlier states
+   * @default 1
+   */
+  maxPasses: number;
+
+  /**
+   * Search over pattern orderings instead of applying patterns in their configured order
+   * @default 'none'
+   */
+  orderSearch: PatternOrderStrategy;
+
+  /**
+   * Number of candidate orderings kept at each depth of a beam search
+   * @default 3
+   */
+  beamWidth: number;
+
+  /**
+   * Maximum number of pattern applications tried by an order search
+   * @default 500
+   */
+  searchMaxIterations: number;
+
+  /**
+   * Maximum time spent by an order search (in ms)
+   * @default 1000
+   */
+  searchTimeLimitMs: number;
+
+  /**
+   * Maximum time a single pattern application may run (in ms); a pattern that
+   * exceeds it is skipped with reason 'timeout'
+   * @default 1000 (undefined disables the limit)
+   */
+  patternTimeBudgetMs?: number;
+
+  /**
+   * Whether to flag or revert steps that lose numbers, dates, URLs, emails,
+   * capitalized entities, quoted strings or negations
+   * @default 'flag'
+   */
+  invariantCheck: InvariantCheckMode;
+
+  /**
+   * Revert any step that drops a MUST/NEVER/IMPORTANT-style directive
+   * @default true
+   */
+  preserveDirectives: boolean;
+
+  /**
+   * IDs of patterns that are never used
+   * @default []
+   */
+  disabledPatternIds: string[];
+
+  /**
+   * If non-empty, only patterns with these IDs are used
+   * @default []
+   */
+  onlyPatternIds: string[];
+
+  /**
+   * Option overrides by pattern ID, applied to copies of the patterns
+   * @default {}
+   */
+  patternOverrides: Record<string, PatternOverride>;
+}
+
+/**
+ * Default options for the PatternOptimizer
+ */
+export const DEFAULT_PATTERN_OPTIMIZER_OPTIONS: PatternOptimizerOptions = {
+  protectRegions: true,
+  protectedPatterns: [],
+  maxPasses: 1,
+  orderSearch: 'none',
+  beamWidth: 3,
+  searchMaxIterations: 500,
+  searchTimeLimitMs: 1000,
+  patternTimeBudgetMs: 1000,
+  invariantCheck: 'flag',
+  preserveDirectives: true,
+  disabledPatternIds: [],
+  onlyPatternIds: [],
+  patternOverrides: {}
+};
 
 /**
  * PatternOptimizer - Applies optimization patterns to reduce token usage in text
@@ -27,10 +170,14 @@ import { BaseOptimizer, OptimizerError } from './base-optimizer';
  * ```
  */
 export class PatternOptimizer implements BaseOptimizer {
+  // Patterns as added, before pattern filters and overrides
+  private configuredPatterns: OptimizationPattern[];
+  // Patterns in use: the configured patterns allowed by the filters, with overrides, in run order
   private patterns: OptimizationPattern[];
   private model: SupportedModel;
   private preserveFormatting: boolean;
   private trackEffectiveness: boolean;
+  private options: PatternOptimizerOptions;
 
   /**
    * Create a new pattern optimizer
@@ -39,18 +186,23 @@ export class PatternOptimizer implements BaseOptimizer {
    * @param model - Model to use for tokenization (determines token counting method)
    * @param preserveFormatting - When true, patterns that would alter formatting are skipped
    * @param trackEffectiveness - Whether to track pattern effectiveness metrics
+   * @param options - Additional options (protected regions, etc.)
    * @throws {OptimizerError} If an invalid pattern is provided
    */
   constructor(
     patterns: OptimizationPattern[] = [],
     model: SupportedModel = 'gpt-3.5-turbo',
     preserveFormatting: boolean = true,
-    trackEffectiveness: boolean = true
+    trackEffectiveness: boolean = true,
+    options: Partial<PatternOptimizerOptions> = {}
   ) {
     this.model = model;
     this.preserveFormatting = preserveFormatting;
     this.trackEffectiveness = trackEffectiveness;
+    this.configuredPatterns = [];
     this.patterns = [];
+    this.options = { ...DEFAULT_PATTERN_OPTIMIZER_OPTIONS };
+    this.setOptions(options);
 
     // Validate and set patterns
     if (patterns && patterns.length > 0) {
@@ -66,31 +218,7 @@ export class PatternOptimizer implements BaseOptimizer {
    * @private
    */
   private validatePattern(pattern: OptimizationPattern): void {
-    if (!pattern.id) {
-      throw new OptimizerError('Pattern must have an id');
-    }
-
-    if (!pattern.category) {
-      throw new OptimizerError(`Pattern ${pattern.id} must have a category`);
-    }
-
-    if (!pattern.description) {
-      throw new OptimizerError(`Pattern ${pattern.id} must have a description`);
-    }
-
-    // A pattern must have at least one of these properties
-    if (!pattern.find && !pattern.transform) {
-      throw new OptimizerError(
-        `Pattern ${pattern.id} must have either a 'find' or 'transform' property`
-      );
-    }
-
-    // If find is specified, replace must also be specified
-    if (pattern.find && pattern.replace === undefined) {
-      throw new OptimizerError(
-        `Pattern ${pattern.id} with 'find' must also have a 'replace' property`
-      );
-    }
+    validatePattern(pattern);
 
     // Initialize effectiveness metrics if tracking is enabled and they don't exist
     if (this.trackEffectiveness && !pattern.effectivenessMetrics) {
@@ -109,6 +237,11 @@ export class PatternOptimizer implements BaseOptimizer {
    * 
    * This method applies each pattern in sequence to the input text.
    * It tracks which patterns are applied vs. skipped, and calculates token metrics.
+   * Protected regions are masked before the first pattern runs and restored
+   * afterwards; a pattern whose output alters a protected region is skipped.
+   * When an order search strategy is enabled, only the patterns of the best
+   * ordering found are applied, in that order. With maxPasses above 1 the
+   * pattern list is rerun until the text reaches a fixed point.
    * 
    * @param text - Text to optimize
    * @returns Detailed optimization result including token metrics and applied patterns
@@ -137,7 +270,8 @@ export class PatternOptimizer implements BaseOptimizer {
         tokensSaved: 0,
         percentSaved: 0,
         appliedPatterns: [],
-        skippedPatterns: []
+        skippedPatterns: [],
+        sourceMap: SourceMap.identity(text.length)
       };
     }
 
@@ -145,62 +279,235 @@ export class PatternOptimizer implements BaseOptimizer {
       const tokenizer = createTokenizer(this.model);
       const originalTokenCount = tokenizer.countTokens(text);
 
+      // Hide protected regions from all patterns
+      const masked = this.options.protectRegions
+        ? maskProtectedRegions(text, this.options.protectedPatterns)
+        : null;
+      let workingText = masked ? masked.text : text;
+
       let optimizedText = text;
+      let currentTokenCount = originalTokenCount;
+      let sourceMap = SourceMap.identity(text.length);
       const appliedPatterns: AppliedPatternInfo[] = [];
       const skippedPatterns: OptimizationPattern[] = [];
+      const revertedPatterns: RevertedPatternInfo[] = [];
+      const skipReasons: SkippedPatternInfo[] = [];
+      const invariantViolations: InvariantViolation[] = [];
+      const violatingPatternIds = new Set<string>();
+      const checkInvariants = this.options.invariantCheck !== 'off';
+      let currentInvariants = checkInvariants ? extractInvariants(text) : [];
+      const directiveViolations: DirectiveViolation[] = [];
+      let currentDirectives = this.options.preserveDirectives ? extractDirectives(text) : [];
+
+      // Optionally search for a better order, scored by token counts of the restored text
+      let patternsToApply = this.patterns;
+      let orderSearch: PatternOrderSearchInfo | undefined;
+      if (this.options.orderSearch !== 'none') {
+        const search = searchPatternOrder(
+          workingText,
+          this.patterns.filter(pattern => this.isPatternEligible(pattern)),
+          {
+            strategy: this.options.orderSearch,
+            beamWidth: this.options.beamWidth,
+            maxIterations: this.options.searchMaxIterations,
+            timeLimitMs: this.options.searchTimeLimitMs,
+            patternTimeBudgetMs: this.options.patternTimeBudgetMs,
+            score: candidate => tokenizer.countTokens(masked ? restoreProtectedRegions(candidate, masked) : candidate),
+            isValid: masked ? candidate => hasIntactSentinels(candidate, masked) : undefined
+          }
+        );
+
+        patternsToApply = search.order;
+        orderSearch = {
+          strategy: this.options.orderSearch,
+          order: search.order.map(pattern => pattern.id),
+          iterations: search.iterations,
+          capped: search.capped
+        };
 
-      // Apply each pattern
-      for (const pattern of this.patterns) {
-        try {
-          // Skip if pattern is disabled
-          if (pattern.disabled) {
+        // Patterns left out of the chosen order are skipped
+        this.patterns
+          .filter(pattern => !search.order.includes(pattern))
+          .forEach(pattern => {
             this.updatePatternSkippedMetrics(pattern);
             skippedPatterns.push(pattern);
-            continue;
+          });
+      }
+
+      // Apply the patterns, rerunning them until the text stops changing or maxPasses is reached
+      const passes: OptimizationPassInfo[] = [];
+      const seenTexts = new Set<string>([workingText]);
+      const appliedInLaterPasses = new Set<OptimizationPattern>();
+      const appliedSoFar: OptimizationPattern[] = [];
+      const withinBudget = () =>
+        this.options.tokenBudget !== undefined && currentTokenCount <= this.options.tokenBudget;
+      let stopReason: PassStopReason = 'max-passes';
+
+      for (let pass = 1; pass <= this.options.maxPasses; pass++) {
+        const passStartTokenCount = currentTokenCount;
+        const passAppliedIds: string[] = [];
+
+        // Skips and reverts are recorded in the first pass only; later passes just look for new opportunities
+        const revert = (pattern: OptimizationPattern, reason: RevertReason, tokenChange: number) => {
+          if (pass > 1) return;
+          revertedPatterns.push({
+            id: pattern.id,
+            category: pattern.category,
+            description: pattern.description,
+            priority: pattern.priority,
+            reason,
+            tokenChange
+          });
+          this.updatePatternRevertedMetrics(pattern);
+          skippedPatterns.push(pattern);
+        };
+        const skip = (pattern: OptimizationPattern, reason?: SkipReason, detail?: string) => {
+          if (pass > 1) return;
+          this.updatePatternSkippedMetrics(pattern);
+          skippedPatterns.push(pattern);
+          if (reason) {
+            skipReasons.push({ id: pattern.id, reason, ...(detail !== undefined ? { detail } : {}) });
           }
+        };
 
-          // Skip if pattern should preserve formatting and we're preserving formatting
-          if (pattern.preservesFormatting === false && this.preserveFormatting) {
-            this.updatePatternSkippedMetrics(pattern);
-            skippedPatterns.push(pattern);
-            continue;
+        for (const pattern of patternsToApply) {
+          // Stop once the text fits within the token budget
+          if (withinBudget()) {
+            break;
           }
 
-          // Apply the pattern
-          const textBeforePattern = optimizedText;
-          const result = this.applyPattern(optimizedText, pattern);
-
-          // If the pattern was applied, update the text and track metrics
-          if (result.applied) {
-            const tokensBeforePattern = tokenizer.countTokens(textBeforePattern);
-            optimizedText = result.text;
-            const tokensAfterPattern = tokenizer.countTokens(optimizedText);
-            const tokenChange = tokensAfterPattern - tokensBeforePattern;
-            const tokensSaved = -tokenChange; // Negative change means tokens were saved
-
-            appliedPatterns.push({
-              id: pattern.id,
-              category: pattern.category,
-              description: pattern.description,
-              priority: pattern.priority,
-              tokensSaved: tokensSaved,
-              tokenChange: tokenChange
-            });
-
-            // Update pattern effectiveness metrics
-            this.updatePatternEffectivenessMetrics(pattern, tokensSaved);
-          } else {
-            this.updatePatternSkippedMetrics(pattern);
-            skippedPatterns.push(pattern);
+          try {
+            // Skip if pattern is disabled or would alter formatting we're preserving
+            if (!this.isPatternEligible(pattern)) {
+              skip(pattern);
+              continue;
+            }
+
+            // Skip if a conflicting pattern has already been applied
+            const conflicting = appliedSoFar.find(applied => patternsConflict(applied, pattern));
+            if (conflicting) {
+              skip(pattern, 'conflict', `conflicts with ${conflicting.id}`);
+              continue;
+            }
+
+            // Apply the pattern within its time budget
+            const result = applyPattern(workingText, pattern, this.options.patternTimeBudgetMs);
+
+            // Discard the output if the pattern dropped, duplicated or moved a protected region
+            if (result.applied && masked && !hasIntactSentinels(result.text, masked)) {
+              skip(pattern, 'protected-region');
+              continue;
+            }
+
+            // If the pattern was applied, update the text and track metrics
+            if (result.applied) {
+              const tokensBeforePattern = currentTokenCount;
+              const candidateText = masked ? restoreProtectedRegions(result.text, masked) : result.text;
+              const tokensAfterPattern = tokenizer.countTokens(candidateText);
+              const tokenChange = tokensAfterPattern - tokensBeforePattern;
+              const tokensSaved = -tokenChange; // Negative change means tokens were saved
+
+              // Revert steps that cost more tokens than allowed
+              if (this.options.revertThreshold !== undefined && tokenChange > this.options.revertThreshold) {
+                revert(pattern, 'token-increase', tokenChange);
+                continue;
+              }
+
+              // Fail the step if it dropped a directive in every form
+              const lostDirectives = findLostDirectives(currentDirectives, candidateText);
+              if (lostDirectives.length > 0) {
+                if (pass === 1) {
+                  directiveViolations.push({ patternId: pattern.id, lost: lostDirectives });
+                }
+                revert(pattern, 'directive-lost', tokenChange);
+                continue;
+              }
+
+              // Check that the step kept every number, entity, URL, negation and other invariant
+              const candidateInvariants = checkInvariants ? extractInvariants(candidateText) : [];
+              const lost = checkInvariants ? findLostInvariants(currentInvariants, candidateInvariants) : [];
+              if (lost.length > 0) {
+                // Report each pattern's first violation only, however many passes it runs in
+                const action = this.options.invariantCheck === 'revert' ? 'reverted' : 'flagged';
+                if (!violatingPatternIds.has(pattern.id)) {
+                  violatingPatternIds.add(pattern.id);
+                  invariantViolations.push({ patternId: pattern.id, lost, action });
+                }
+                if (action === 'reverted') {
+                  revert(pattern, 'invariant-violation', tokenChange);
+                  continue;
+                }
+              }
+
+              const edits = masked ? restoreEdits(result.edits, workingText, masked) : result.edits;
+              sourceMap = sourceMap.compose(SourceMap.fromEdits(optimizedText.length, edits));
+              workingText = result.text;
+              optimizedText = candidateText;
+              currentTokenCount = tokensAfterPattern;
+              currentInvariants = candidateInvariants;
+              if (currentDirectives.length > 0) {
+                currentDirectives = extractDirectives(candidateText);
+              }
+
+              appliedPatterns.push({
+                id: pattern.id,
+                category: pattern.category,
+                description: pattern.description,
+                priority: pattern.priority,
+                tokensSaved: tokensSaved,
+                tokenChange: tokenChange,
+                edits
+              });
+              passAppliedIds.push(pattern.id);
+              appliedSoFar.push(pattern);
+              if (pass > 1) appliedInLaterPasses.add(pattern);
+
+              // Update pattern effectiveness metrics
+              this.updatePatternEffectivenessMetrics(pattern, tokensSaved);
+            } else {
+              skip(pattern);
+            }
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (error instanceof PatternTimeoutError) {
+              skip(pattern, 'timeout', message);
+              continue;
+            }
+
+            // Log error but continue with other patterns
+            console.error(`Error applying pattern ${pattern.id}:`, error);
+            skip(pattern, 'error', message);
           }
-        } catch (error) {
-          // Log error but continue with other patterns
-          console.error(`Error applying pattern ${pattern.id}:`, error);
-          this.updatePatternSkippedMetrics(pattern);
-          skippedPatterns.push(pattern);
         }
+
+        passes.push({
+          pass,
+          appliedPatterns: passAppliedIds,
+          tokenCount: currentTokenCount,
+          tokensSaved: passStartTokenCount - currentTokenCount
+        });
+
+        if (withinBudget()) {
+          stopReason = 'token-budget';
+          break;
+        }
+
+        if (passAppliedIds.length === 0) {
+          stopReason = 'fixed-point';
+          break;
+        }
+
+        // Patterns that undo each other bring the text back to an earlier state
+        if (seenTexts.has(workingText)) {
+          stopReason = 'cycle';
+          break;
+        }
+        seenTexts.add(workingText);
       }
 
+      // Patterns that found something to do in a later pass were not skipped after all
+      const finalSkippedPatterns = skippedPatterns.filter(pattern => !appliedInLaterPasses.has(pattern));
+
       // Count tokens in optimized text safely
       let optimizedTokenCount: number;
       try {
@@ -229,7 +536,16 @@ export class PatternOptimizer implements BaseOptimizer {
         tokensSaved,
         percentSaved,
         appliedPatterns,
-        skippedPatterns,
+        skippedPatterns: finalSkippedPatterns,
+        revertedPatterns,
+        ...(checkInvariants ? { invariantViolations } : {}),
+        ...(this.options.preserveDirectives ? { directiveViolations } : {}),
+        skipReasons: skipReasons.filter(info =>
+          !Array.from(appliedInLaterPasses).some(pattern => pattern.id === info.id)),
+        protectedRegions: masked ? masked.regions : [],
+        sourceMap,
+        ...(orderSearch ? { orderSearch } : {}),
+        ...(this.options.maxPasses > 1 ? { multiPass: { passes, stopReason } } : {}),
         performanceMetrics: {
           executionTimeMs,
           tokensPerSecond
@@ -242,6 +558,18 @@ export class PatternOptimizer implements BaseOptimizer {
     }
   }
 
+  /**
+   * Check whether a pattern may run under the current settings
+   * 
+   * @param pattern - Pattern to check
+   * @returns False if the pattern is disabled or would alter formatting that is being preserved
+   * @private
+   */
+  private isPatternEligible(pattern: OptimizationPattern): boolean {
+    if (pattern.disabled) return false;
+    return !(pattern.preservesFormatting === false && this.preserveFormatting);
+  }
+
   /**
    * Update effectiveness metrics for a pattern that was successfully applied
    * 
@@ -275,110 +603,41 @@ export class PatternOptimizer implements BaseOptimizer {
   }
 
   /**
-   * Apply a single pattern to the text
-   * 
-   * This method implements the pattern application logic, supporting:
-   * - Custom test functions to determine if a pattern applies
-   * - Transform functions that directly modify text
-   * - Find/replace patterns using RegExp or string
+   * Update effectiveness metrics for a pattern whose output was reverted
    * 
-   * @param text - Text to apply the pattern to
-   * @param pattern - Pattern to apply
-   * @returns Object with the resulting text and whether the pattern was applied
-   * @throws {OptimizerError} If pattern application fails
+   * @param pattern - Pattern that was reverted
    * @private
    */
-  private applyPattern(text: string, pattern: OptimizationPattern): {
-    text: string;
-    applied: boolean;
-  } {
-    // If the pattern has a test function, use it to check if the pattern applies
-    if (pattern.test) {
-      try {
-        if (!pattern.test(text)) {
-          return { text, applied: false };
-        }
-      } catch (error) {
-        throw new OptimizerError(
-          `Error in test function for pattern ${pattern.id}: ${error instanceof Error ? error.message : String(error)}`
-        );
-      }
-    }
-
-    // If the pattern has a transform function, use it
-    if (pattern.transform) {
-      try {
-        const transformed = pattern.transform(text);
-        return {
-          text: transformed,
-          applied: transformed !== text
-        };
-      } catch (error) {
-        throw new OptimizerError(
-          `Error in transform function for pattern ${pattern.id}: ${error instanceof Error ? error.message : String(error)}`
-        );
-      }
-    }
-
-    // Otherwise, use the find and replace
-    if (pattern.find) {
-      try {
-        const regex = typeof pattern.find === 'string'
-          ? new RegExp(pattern.find, 'g')
-          : pattern.find;
-
-        let newText = text;
-
-        // Handle both string and function replacers
-        if (typeof pattern.replace === 'string') {
-          newText = text.replace(regex, pattern.replace);
-        } else if (typeof pattern.replace === 'function') {
-          newText = text.replace(regex, function () {
-            try {
-              // @ts-ignore - We know it's a function at this point
-              return pattern.replace.apply(null, arguments);
-            } catch (error) {
-              console.error(`Error in replacer function for pattern ${pattern.id}:`, error);
-              // Return the original match if the replacer fails
-              return arguments[0];
-            }
-          });
-        } else {
-          // If no replace specified, use empty string
-          newText = text.replace(regex, '');
-        }
-
-        return {
-          text: newText,
-          applied: newText !== text
-        };
-      } catch (error) {
-        throw new OptimizerError(
-          `Error applying pattern ${pattern.id} (find/replace): ${error instanceof Error ? error.message : String(error)}`
-        );
-      }
-    }
+  private updatePatternRevertedMetrics(pattern: OptimizationPattern): void {
+    if (!this.trackEffectiveness || !pattern.effectivenessMetrics) return;
 
-    // If no valid pattern method, return unchanged
-    return { text, applied: false };
+    const metrics = pattern.effectivenessMetrics;
+    metrics.timesReverted = (metrics.timesReverted ?? 0) + 1;
+    metrics.lastReverted = Date.now();
+    this.updatePatternSkippedMetrics(pattern);
   }
 
   /**
    * Add a pattern to the optimizer's pattern collection
    * 
+   * Patterns are kept in the order they were added, adjusted to honor
+   * runAfter/runBefore declarations.
+   * 
    * @param pattern - Pattern to add
-   * @throws {OptimizerError} If the pattern is invalid
+   * @throws {OptimizerError} If the pattern is invalid or its declarations create an ordering cycle
    */
   addPattern(pattern: OptimizationPattern): void {
     this.validatePattern(pattern);
-    this.patterns.push(pattern);
+    this.configuredPatterns = [...this.configuredPatterns, pattern];
+    this.refreshPatterns();
   }
 
   /**
    * Set the patterns to use, replacing any existing patterns
    * 
    * @param patterns - Patterns to use
-   * @throws {OptimizerError} If any pattern is invalid or the input is not an array
+   * @throws {OptimizerError} If any pattern is invalid, the input is not an array,
+   * or runAfter/runBefore declarations create an ordering cycle
    */
   setPatterns(patterns: OptimizationPattern[]): void {
     if (!Array.isArray(patterns)) {
@@ -387,7 +646,18 @@ export class PatternOptimizer implements BaseOptimizer {
 
     // Validate all patterns before setting
     patterns.forEach(pattern => this.validatePattern(pattern));
-    this.patterns = patterns;
+    this.configuredPatterns = [...patterns];
+    this.refreshPatterns();
+  }
+
+  /**
+   * Recompute the patterns in use from the configured patterns and pattern filters
+   * 
+   * @throws {OptimizerError} If runAfter/runBefore declarations create an ordering cycle
+   * @private
+   */
+  private refreshPatterns(): void {
+    this.patterns = orderPatterns(filterPatterns(this.configuredPatterns, this.options));
   }
 
   /**
@@ -418,6 +688,80 @@ export class PatternOptimizer implements BaseOptimizer {
     this.preserveFormatting = preserveFormatting;
   }
 
+  /**
+   * Update the optimizer's additional options
+   * 
+   * @param options - Options to change; omitted options keep their current value
+   * @throws {OptimizerError} If protectedPatterns is not an array of regular expressions
+   * or tokenBudget is not a non-negative number, or revertThreshold, maxPasses, patternTimeBudgetMs,
+   * invariantCheck, preserveDirectives, a pattern filter or an order search option is invalid
+   */
+  setOptions(options: Partial<PatternOptimizerOptions>): void {
+    if (options.protectedPatterns !== undefined &&
+      (!Array.isArray(options.protectedPatterns) ||
+        !options.protectedPatterns.every(pattern => pattern instanceof RegExp))) {
+      throw new OptimizerError('protectedPatterns must be an array of regular expressions');
+    }
+
+    if (options.tokenBudget !== undefined &&
+      (typeof options.tokenBudget !== 'number' || isNaN(options.tokenBudget) || options.tokenBudget < 0)) {
+      throw new OptimizerError('tokenBudget must be a non-negative number');
+    }
+
+    if (options.revertThreshold !== undefined &&
+      (typeof options.revertThreshold !== 'number' || isNaN(options.revertThreshold))) {
+      throw new OptimizerError('revertThreshold must be a number');
+    }
+
+    if (options.orderSearch !== undefined && !['none', 'greedy', 'beam'].includes(options.orderSearch)) {
+      throw new OptimizerError(`Invalid order search strategy: ${options.orderSearch}`);
+    }
+
+    if (options.maxPasses !== undefined &&
+      (typeof options.maxPasses !== 'number' || !Number.isInteger(options.maxPasses) || options.maxPasses < 1)) {
+      throw new OptimizerError('maxPasses must be a positive integer');
+    }
+
+    for (const key of ['beamWidth', 'searchMaxIterations', 'searchTimeLimitMs'] as const) {
+      const value = options[key];
+      if (value !== undefined && (typeof value !== 'number' || isNaN(value) || value <= 0)) {
+        throw new OptimizerError(`${key} must be a positive number`);
+      }
+    }
+
+    if (options.preserveDirectives !== undefined && typeof options.preserveDirectives !== 'boolean') {
+      throw new OptimizerError('preserveDirectives must be a boolean');
+    }
+
+    if (options.invariantCheck !== undefined && !['off', 'flag', 'revert'].includes(options.invariantCheck)) {
+      throw new OptimizerError(`Invalid invariant check mode: ${options.invariantCheck}`);
+    }
+
+    if (options.patternTimeBudgetMs !== undefined &&
+      (typeof options.patternTimeBudgetMs !== 'number' || isNaN(options.patternTimeBudgetMs) ||
+        options.patternTimeBudgetMs <= 0)) {
+      throw new OptimizerError('patternTimeBudgetMs must be a positive number');
+    }
+
+    validatePatternFilters(options);
+
+    this.options = { ...this.options, ...options };
+
+    if (options.disabledPatternIds !== undefined || options.onlyPatternIds !== undefined ||
+      options.patternOverrides !== undefined) {
+      this.refreshPatterns();
+    }
+  }
+
+  /**
+   * Get the optimizer's additional options
+   * 
+   * @returns Copy of the current options
+   */
+  getOptions(): PatternOptimizerOptions {
+    return { ...this.options };
+  }
+
   /**
    * Set whether to track pattern effectiveness
    * 
@@ -0,0 +1,172 @@
+import { OptimizationPattern, PatternOrderStrategy } from '../types';
+import { applyPattern } from './pattern-application';
+import { getPatternSuccessors, patternsConflict } from './pattern-ordering';
+
+/**
+ * Settings for a pattern order search
+ */
+export interface PatternOrderSearchOptions {
+  /**
+   * Search strategy ('greedy' or 'beam')
+   */
+  strategy: Exclude<PatternOrderStrategy, 'none'>;
+
+  /**
+   * Number of candidate orderings kept at each depth of a beam search
+   */
+  beamWidth: number;
+
+  /**
+   * Maximum number of pattern applications to try
+   */
+  maxIterations: number;
+
+  /**
+   * Maximum time to spend searching (in ms)
+   */
+  timeLimitMs: number;
+
+  /**
+   * Maximum time a single pattern application may run (in ms)
+   */
+  patternTimeBudgetMs?: number;
+
+  /**
+   * Token count of a (working) text
+   */
+  score: (text: string) => number;
+
+  /**
+   * Whether a pattern's output is acceptable (e.g. protected regions are intact)
+   */
+  isValid?: (text: string) => boolean;
+}
+
+/**
+ * Outcome of a pattern order search
+ */
+export interface PatternOrderSearchResult {
+  /**
+   * Patterns to apply, in order
+   */
+  order: OptimizationPattern[];
+
+  /**
+   * Token count after applying the order
+   */
+  tokenCount: number;
+
+  /**
+   * Number of pattern applications tried
+   */
+  iterations: number;
+
+  /**
+   * Whether the search stopped early because of the iteration or time cap
+   */
+  capped: boolean;
+}
+
+/**
+ * A partial ordering explored by the search
+ * @private
+ */
+interface SearchState {
+  text: string;
+  tokenCount: number;
+  order: OptimizationPattern[];
+}
+
+/**
+ * Search for the order of patterns that saves the most tokens
+ *
+ * - greedy: repeatedly applies the remaining pattern that yields the lowest token
+ *   count, stopping when no remaining pattern lowers it further
+ * - beam: keeps the `beamWidth` best orderings at each depth, so a pattern that
+ *   costs tokens now but enables a bigger saving later can still win
+ *
+ * Orderings are scored by real token counts and always honor the patterns'
+ * runAfter/runBefore and conflictsWith declarations. When the iteration or
+ * time cap is reached, the best ordering found so far is returned.
+ *
+ * @param text - Text to optimize
+ * @param patterns - Candidate patterns (already filtered for eligibility)
+ * @param options - Search settings
+ * @returns Best ordering found and search statistics
+ */
+export function searchPatternOrder(
+  text: string,
+  patterns: OptimizationPattern[],
+  options: PatternOrderSearchOptions
+): PatternOrderSearchResult {
+  const startTime = performance.now();
+  const width = options.strategy === 'greedy' ? 1 : Math.max(1, Math.floor(options.beamWidth));
+  const successors = getPatternSuccessors(patterns);
+
+  // A pattern can follow an ordering unless it conflicts with, or must run before, a pattern already in it
+  const canFollow = (order: OptimizationPattern[], pattern: OptimizationPattern) =>
+    !order.some(placed =>
+      placed === pattern ||
+      patternsConflict(placed, pattern) ||
+      (successors.get(pattern.id)?.has(placed.id) ?? false));
+
+  let iterations = 0;
+  let capped = false;
+
+  let best: SearchState = { text, tokenCount: options.score(text), order: [] };
+  let beam: SearchState[] = [best];
+
+  while (beam.length > 0 && !capped) {
+    const candidates: SearchState[] = [];
+    const seenTexts = new Set<string>();
+
+    for (const state of beam) {
+      for (const pattern of patterns) {
+        if (!canFollow(state.order, pattern)) continue;
+
+        if (iterations >= options.maxIterations || performance.now() - startTime > options.timeLimitMs) {
+          capped = true;
+          break;
+        }
+        iterations++;
+
+        let result;
+        try {
+          result = applyPattern(state.text, pattern, options.patternTimeBudgetMs);
+        } catch {
+          continue; // A failing or timed-out pattern is never part of the best order
+        }
+
+        if (!result.applied || seenTexts.has(result.text)) continue;
+        if (options.isValid && !options.isValid(result.text)) continue;
+
+        seenTexts.add(result.text);
+        candidates.push({
+          text: result.text,
+          tokenCount: options.score(result.text),
+          order: [...state.order, pattern]
+        });
+      }
+
+      if (capped) break;
+    }
+
+    // Stable sort keeps the given pattern order as the tie-breaker
+    candidates.sort((a, b) => a.tokenCount - b.tokenCount);
+
+    const improved = candidates.length > 0 && candidates[0].tokenCount < best.tokenCount;
+    if (improved) {
+      best = candidates[0];
+    }
+
+    // Greedy stops at the first step that does not save tokens
+    beam = options.strategy === 'greedy' && !improved ? [] : candidates.slice(0, width);
+  }
+
+  return {
+    order: best.order,
+    tokenCount: best.tokenCount,
+    iterations,
+    capped
+  };
+}
@@ -0,0 +1,127 @@
+import { OptimizationPattern } from '../types';
+import { OptimizerError } from './base-optimizer';
+
+/**
+ * Build the "must run before" relation declared by runAfter/runBefore
+ *
+ * Declarations that reference patterns not in the list are ignored.
+ *
+ * @param patterns - Patterns to relate
+ * @returns Map from pattern ID to the IDs of patterns that must run after it
+ */
+export function getPatternSuccessors(patterns: OptimizationPattern[]): Map<string, Set<string>> {
+  const ids = new Set(patterns.map(pattern => pattern.id));
+  const successors = new Map<string, Set<string>>();
+
+  const addEdge = (before: string, after: string) => {
+    if (!ids.has(before) || !ids.has(after) || before === after) return;
+    if (!successors.has(before)) {
+      successors.set(before, new Set());
+    }
+    successors.get(before)!.add(after);
+  };
+
+  for (const pattern of patterns) {
+    (pattern.runAfter || []).forEach(id => addEdge(id, pattern.id));
+    (pattern.runBefore || []).forEach(id => addEdge(pattern.id, id));
+  }
+
+  return successors;
+}
+
+/**
+ * Order patterns so that every runAfter/runBefore declaration is honored
+ *
+ * The sort is stable: patterns keep their given relative order unless a
+ * declaration requires otherwise, so lists without declarations are unchanged.
+ *
+ * @param patterns - Patterns in their preferred order
+ * @returns Patterns in dependency order
+ * @throws {OptimizerError} If the declarations form a cycle
+ */
+export function orderPatterns(patterns: OptimizationPattern[]): OptimizationPattern[] {
+  const successors = getPatternSuccessors(patterns);
+  if (successors.size === 0) {
+    return [...patterns];
+  }
+
+  // Count unmet predecessors per pattern ID
+  const pending = new Map<string, number>();
+  patterns.forEach(pattern => pending.set(pattern.id, 0));
+  successors.forEach(afters => afters.forEach(id => pending.set(id, pending.get(id)! + 1)));
+
+  const ordered: OptimizationPattern[] = [];
+  const remaining = [...patterns];
+
+  while (remaining.length > 0) {
+    // Take the earliest pattern whose predecessors have all been placed
+    const index = remaining.findIndex(pattern => pending.get(pattern.id) === 0);
+    if (index === -1) {
+      throw new OptimizerError(
+        `Pattern ordering cycle detected: ${findCycle(remaining, successors).join(' -> ')}`
+      );
+    }
+
+    const [next] = remaining.splice(index, 1);
+    ordered.push(next);
+
+    // Release successors once the last pattern with this ID has been placed
+    if (!remaining.some(pattern => pattern.id === next.id)) {
+      (successors.get(next.id) || new Set<string>()).forEach(id => pending.set(id, pending.get(id)! - 1));
+    }
+  }
+
+  return ordered;
+}
+
+/**
+ * Check whether two patterns must never run in the same optimization
+ *
+ * Conflicts are symmetric: it is enough for one of the patterns to declare the other.
+ *
+ * @param a - First pattern
+ * @param b - Second pattern
+ * @returns True if either pattern declares a conflict with the other
+ */
+export function patternsConflict(a: OptimizationPattern, b: OptimizationPattern): boolean {
+  return (a.conflictsWith || []).includes(b.id) || (b.conflictsWith || []).includes(a.id);
+}
+
+/**
+ * Find a cycle among patterns that could not be ordered
+ * @private
+ */
+function findCycle(patterns: OptimizationPattern[], successors: Map<string, Set<string>>): string[] {
+  const ids = new Set(patterns.map(pattern => pattern.id));
+  const path: string[] = [];
+  const onPath = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (id: string): string[] | null => {
+    if (onPath.has(id)) {
+      return [...path.slice(path.indexOf(id)), id];
+    }
+    if (visited.has(id)) return null;
+
+    visited.add(id);
+    onPath.add(id);
+    path.push(id);
+
+    for (const next of successors.get(id) || []) {
+      if (!ids.has(next)) continue;
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+
+    onPath.delete(id);
+    path.pop();
+    return null;
+  };
+
+  for (const id of ids) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+
+  return Array.from(ids);
+}
@@ -4,6 +4,8 @@ import { technicalPatterns } from '../patterns/technical-patterns';
 import { rolePatterns } from '../patterns/role-patterns';
 import { structuralPatterns } from '../patterns/structural-patterns';
 import { OptimizerError } from './base-optimizer';
+import { validatePattern } from './pattern-application';
+import { orderPatterns } from './pattern-ordering';
 
 /**
  * Interface for pattern version information
@@ -23,6 +25,7 @@ interface PatternVersion {
  * - Conflict resolution when patterns with the same ID are registered
  * - Efficient filtering and retrieval of patterns
  * - Pattern validation to ensure all required fields are present
+ * - Dependency ordering using the patterns' runAfter/runBefore declarations
  */
 class PatternRegistry {
   private patterns: Map<string, PatternVersion> = new Map();
@@ -53,11 +56,12 @@ class PatternRegistry {
    * 
    * @param pattern - Pattern to register
    * @param overwrite - Whether to overwrite an existing pattern with the same ID
-   * @throws {OptimizerError} If the pattern is invalid or if there's a conflict and overwrite is false
+   * @throws {OptimizerError} If the pattern is invalid, if there's a conflict and overwrite is false,
+   * or if its runAfter/runBefore declarations create an ordering cycle
    */
   registerPattern(pattern: OptimizationPattern, overwrite: boolean = false): void {
     // Validate pattern
-    this.validatePattern(pattern);
+    validatePattern(pattern);
     
     const patternId = pattern.id;
     
@@ -67,6 +71,14 @@ class PatternRegistry {
         `Pattern with ID "${patternId}" already exists. Use overwrite=true to replace it.`
       );
     }
+
+    // Reject declarations that would make the registered patterns impossible to order
+    if (pattern.runAfter || pattern.runBefore) {
+      orderPatterns([
+        ...this.getAllPatterns().filter(existing => existing.id !== patternId),
+        pattern
+      ]);
+    }
     
     // Get current version number
     const currentVersion = this.patterns.has(patternId) 
@@ -98,48 +110,13 @@ class PatternRegistry {
     this.categorizedPatterns.get(category)!.add(patternId);
   }
 
-  /**
-   * Validate a pattern has all required properties
-   * 
-   * @param pattern - Pattern to validate
-   * @throws {OptimizerError} If the pattern is invalid
-   * @private
-   */
-  private validatePattern(pattern: OptimizationPattern): void {
-    if (!pattern.id) {
-      throw new OptimizerError('Pattern must have an id');
-    }
-
-    if (!pattern.category) {
-      throw new OptimizerError(`Pattern ${pattern.id} must have a category`);
-    }
-
-    if (!pattern.description) {
-      throw new OptimizerError(`Pattern ${pattern.id} must have a description`);
-    }
-
-    // A pattern must have at least one of these properties
-    if (!pattern.find && !pattern.transform) {
-      throw new OptimizerError(
-        `Pattern ${pattern.id} must have either a 'find' or 'transform' property`
-      );
-    }
-
-    // If find is specified, replace must also be specified
-    if (pattern.find && pattern.replace === undefined) {
-      throw new OptimizerError(
-        `Pattern ${pattern.id} with 'find' must also have a 'replace' property`
-      );
-    }
-  }
-
   /**
    * Get all registered patterns
    * 
-   * @returns Array of all patterns
+   * @returns Array of all patterns in registration order, adjusted to honor runAfter/runBefore
    */
   getAllPatterns(): OptimizationPattern[] {
-    return Array.from(this.patterns.values()).map(v => v.pattern);
+    return orderPatterns(Array.from(this.patterns.values()).map(v => v.pattern));
   }
 
   /**
@@ -182,11 +159,14 @@ class PatternRegistry {
   /**
    * Get patterns sorted by priority (highest first)
    * 
+   * runAfter/runBefore declarations take precedence over priority.
+   * 
    * @returns Array of patterns sorted by priority
    */
   getPatternsByPriority(): OptimizationPattern[] {
-    return this.getAllPatterns()
-      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+    return orderPatterns(
+      this.getAllPatterns().sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+    );
   }
   
   /**
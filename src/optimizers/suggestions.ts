@@ -0,0 +1,110 @@
+import { OptimizationResult, OptimizationSuggestion, TextEdit } from '../types';
+import { SourceMap, SourceMapRange } from '../utils/source-map';
+import { applyEdits } from '../utils/text-diff';
+import { OptimizerError } from './base-optimizer';
+
+/**
+ * Split an optimization result into discrete suggestions
+ *
+ * Each suggestion is one region of the original text that the optimization
+ * rewrote, found between the unchanged runs of the result's source map, so
+ * suggestions never overlap and accepting all of them reproduces the optimized
+ * text. Each region is attributed to the patterns whose edits touched it.
+ *
+ * @param result - Result of optimizing the text
+ * @param countTokens - Token counter used to score each suggestion on its own
+ * @returns Suggestions sorted by offset
+ */
+export function createSuggestions(
+  result: OptimizationResult,
+  countTokens: (text: string) => number
+): OptimizationSuggestion[] {
+  const { originalText, optimizedText } = result;
+  const sourceMap = result.sourceMap || SourceMap.identity(originalText.length);
+
+  // Every gap between unchanged runs is one rewritten region
+  const regions: Array<{ edit: TextEdit; patternIds: string[] }> = [];
+  let original = 0;
+  let optimized = 0;
+  const addRegion = (originalEnd: number, optimizedEnd: number) => {
+    if (originalEnd > original || optimizedEnd > optimized) {
+      regions.push({
+        edit: {
+          start: original,
+          end: originalEnd,
+          original: originalText.slice(original, originalEnd),
+          replacement: optimizedText.slice(optimized, optimizedEnd)
+        },
+        patternIds: []
+      });
+    }
+  };
+
+  for (const run of sourceMap.getRuns()) {
+    addRegion(run.original, run.optimized);
+    original = run.original + run.length;
+    optimized = run.optimized + run.length;
+  }
+  addRegion(originalText.length, optimizedText.length);
+
+  // Attribute regions by replaying each applied pattern's edits back onto the original text
+  let stepMap = SourceMap.identity(originalText.length);
+  for (const applied of result.appliedPatterns) {
+    const edits = applied.edits || [];
+    const ranges: SourceMapRange[] = edits.map(edit => stepMap.toOriginalRange(edit.start, edit.end));
+
+    for (const region of regions) {
+      const touched = ranges.some(range => range.start <= region.edit.end && region.edit.start <= range.end);
+      if (touched && !region.patternIds.includes(applied.id)) {
+        region.patternIds.push(applied.id);
+      }
+    }
+
+    stepMap = stepMap.compose(SourceMap.fromEdits(stepMap.optimizedLength, edits));
+  }
+
+  const originalTokenCount = result.originalTokenCount;
+  return regions.map(({ edit, patternIds }) => {
+    const pattern = result.appliedPatterns.find(applied => applied.id === patternIds[0]);
+
+    return {
+      id: `${patternIds[0] || 'edit'}@${edit.start}`,
+      patternId: patternIds[0] || '',
+      patternIds,
+      category: pattern ? pattern.category : 'custom',
+      description: pattern ? pattern.description : '',
+      ...edit,
+      tokenChange: countTokens(applyEdits(originalText, [edit])) - originalTokenCount
+    };
+  });
+}
+
+/**
+ * Apply the accepted subset of a set of suggestions
+ *
+ * @param text - Text the suggestions were made for
+ * @param suggestions - Suggestions made for the text
+ * @param acceptedIds - IDs of the suggestions to apply
+ * @returns Text with only the accepted suggestions applied
+ * @throws {OptimizerError} If an ID is unknown or a suggestion does not match the text
+ */
+export function applyAcceptedSuggestions(
+  text: string,
+  suggestions: OptimizationSuggestion[],
+  acceptedIds: string[]
+): string {
+  const byId = new Map(suggestions.map(suggestion => [suggestion.id, suggestion]));
+
+  const accepted = Array.from(new Set(acceptedIds)).map(id => {
+    const suggestion = byId.get(id);
+    if (!suggestion) {
+      throw new OptimizerError(`Unknown suggestion: ${id}`);
+    }
+    if (text.slice(suggestion.start, suggestion.end) !== suggestion.original) {
+      throw new OptimizerError(`Suggestion ${id} does not match the text`);
+    }
+    return suggestion;
+  });
+
+  return applyEdits(text, accepted);
+}
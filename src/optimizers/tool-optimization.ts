@@ -0,0 +1,233 @@
+import {
+  AnthropicToolDefinition,
+  OpenAIToolDefinition,
+  OptimizationResult,
+  ToolDefinition,
+  ToolDefinitionFormat,
+  ToolOptimizationInfo,
+  ToolOptimizationOptions,
+  ToolSchemaCheck,
+  ToolsOptimizationResult
+} from '../types';
+import {
+  JsonSchema,
+  mapSchemaDescriptions,
+  minifyJsonSchema,
+  schemasStructurallyEqual,
+  validateJsonSchema
+} from '../utils/json-schema';
+import { OptimizerError } from './base-optimizer';
+
+/**
+ * Optimize the descriptions and schemas of OpenAI or Anthropic tool definitions
+ *
+ * Descriptions (of the tool and of every schema node) are rewritten with the
+ * given text optimizer and schemas are minified. An optimized schema must
+ * still be valid and structurally equal to the original; if it is not, the
+ * original schema is kept. Tools at or before the last Anthropic cache_control
+ * breakpoint are left unchanged to keep prompt cache hits. The tools passed in
+ * are not modified.
+ *
+ * @param tools - Tool definitions to optimize
+ * @param options - Which parts of the definitions to optimize
+ * @param optimizeText - Function optimizing a description
+ * @param countTokens - Function counting the tokens of a text
+ * @returns Optimized tools with per-tool and total token counts
+ * @throws {OptimizerError} If a tool definition is invalid
+ */
+export function optimizeToolList(
+  tools: ToolDefinition[],
+  options: ToolOptimizationOptions,
+  optimizeText: (text: string) => OptimizationResult,
+  countTokens: (text: string) => number
+): ToolsOptimizationResult {
+  if (!Array.isArray(tools)) {
+    throw new OptimizerError('Tools must be an array');
+  }
+  const formats = tools.map(getToolFormat);
+  const optimizeDescriptions = options.optimizeDescriptions ?? true;
+  const minifySchemas = options.minifySchemas ?? true;
+
+  // Prompt caching reads the tools up to the last one marked with cache_control
+  let breakpoint = -1;
+  tools.forEach((tool, index) => {
+    if (formats[index] === 'anthropic' && tool.cache_control) breakpoint = index;
+  });
+
+  const infos: ToolOptimizationInfo[] = [];
+  const optimizedTools = tools.map((tool, index) => {
+    const format = formats[index];
+    const cached = index <= breakpoint;
+    let descriptionsOptimized = 0;
+
+    const rewrite = (description: string): string => {
+      if (description.trim() === '') return description;
+      const optimized = optimizeText(description).optimizedText;
+      if (optimized !== description) descriptionsOptimized++;
+      return optimized;
+    };
+
+    const fields = getToolFields(tool, format);
+    let description = fields.description;
+    let schema = fields.schema;
+    let removedKeywords: string[] = [];
+    let schemaCheck: ToolSchemaCheck = 'passed';
+    let schemaProblems: string[] = [];
+
+    if (!cached) {
+      if (optimizeDescriptions && typeof description === 'string') {
+        description = rewrite(description);
+      }
+
+      if (schema !== undefined) {
+        const inputProblems = validateJsonSchema(schema);
+        if (inputProblems.length > 0) {
+          schemaCheck = 'invalid-input';
+          schemaProblems = inputProblems;
+        } else {
+          const descriptionCount = descriptionsOptimized;
+          let optimizedSchema = optimizeDescriptions ? mapSchemaDescriptions(schema, rewrite) : schema;
+          if (minifySchemas) {
+            const strict = format === 'openai' && (tool as OpenAIToolDefinition).function.strict === true;
+            const minified = minifyJsonSchema(optimizedSchema, { keepImpliedTypes: strict });
+            optimizedSchema = minified.schema;
+            removedKeywords = minified.removed;
+          }
+
+          const problems = validateJsonSchema(optimizedSchema);
+          if (problems.length === 0 && !schemasStructurallyEqual(schema, optimizedSchema)) {
+            problems.push('optimized schema does not accept the same values as the original');
+          }
+
+          if (problems.length > 0) {
+            schemaCheck = 'reverted';
+            schemaProblems = problems;
+            removedKeywords = [];
+            descriptionsOptimized = descriptionCount;
+          } else {
+            schema = optimizedSchema;
+          }
+        }
+      }
+    }
+
+    const optimized = description === fields.description && schema === fields.schema
+      ? tool
+      : setToolFields(tool, format, description, schema);
+
+    const originalTokenCount = countToolTokens(tool, countTokens);
+    const optimizedTokenCount = optimized === tool ? originalTokenCount : countToolTokens(optimized, countTokens);
+    infos.push({
+      index,
+      name: fields.name,
+      format,
+      cached,
+      originalTokenCount,
+      optimizedTokenCount,
+      tokensSaved: originalTokenCount - optimizedTokenCount,
+      descriptionsOptimized,
+      removedKeywords,
+      schemaCheck,
+      schemaProblems
+    });
+
+    return optimized;
+  });
+
+  const originalTokenCount = infos.reduce((total, info) => total + info.originalTokenCount, 0);
+  const optimizedTokenCount = infos.reduce((total, info) => total + info.optimizedTokenCount, 0);
+  const tokensSaved = originalTokenCount - optimizedTokenCount;
+
+  return {
+    originalTools: tools,
+    optimizedTools,
+    originalTokenCount,
+    optimizedTokenCount,
+    tokensSaved,
+    percentSaved: originalTokenCount > 0 ? (tokensSaved / originalTokenCount) * 100 : 0,
+    tools: infos
+  };
+}
+
+/**
+ * Count the tokens of a tool definition, serialized as compact JSON
+ *
+ * @param tool - Tool definition
+ * @param countTokens - Function counting the tokens of a text
+ * @returns Token count of the definition
+ */
+export function countToolTokens(tool: ToolDefinition, countTokens: (text: string) => number): number {
+  return countTokens(JSON.stringify(tool));
+}
+
+/**
+ * Detect the format of a tool definition
+ * @private
+ */
+function getToolFormat(tool: ToolDefinition, index: number): ToolDefinitionFormat {
+  if (!tool || typeof tool !== 'object') {
+    throw new OptimizerError(`Tool ${index} must be an object`);
+  }
+
+  const fn = (tool as OpenAIToolDefinition).function;
+  if (tool.type === 'function' && fn && typeof fn === 'object') {
+    if (typeof fn.name !== 'string' || fn.name === '') {
+      throw new OptimizerError(`Tool ${index} function must have a name`);
+    }
+    return 'openai';
+  }
+
+  if (typeof tool.name === 'string' && tool.name !== '' && (tool as AnthropicToolDefinition).input_schema !== undefined) {
+    return 'anthropic';
+  }
+
+  throw new OptimizerError(
+    `Tool ${index} must be an OpenAI function tool or an Anthropic tool with a name and input_schema`
+  );
+}
+
+/**
+ * Get the name, description and schema of a tool definition
+ * @private
+ */
+function getToolFields(
+  tool: ToolDefinition,
+  format: ToolDefinitionFormat
+): { name: string; description: string | undefined; schema: JsonSchema | undefined } {
+  if (format === 'openai') {
+    const fn = (tool as OpenAIToolDefinition).function;
+    return { name: fn.name, description: fn.description, schema: fn.parameters };
+  }
+
+  const anthropicTool = tool as AnthropicToolDefinition;
+  return { name: anthropicTool.name, description: anthropicTool.description, schema: anthropicTool.input_schema };
+}
+
+/**
+ * Copy a tool definition with a new description and schema
+ * @private
+ */
+function setToolFields(
+  tool: ToolDefinition,
+  format: ToolDefinitionFormat,
+  description: string | undefined,
+  schema: JsonSchema | undefined
+): ToolDefinition {
+  if (format === 'openai') {
+    const openAITool = tool as OpenAIToolDefinition;
+    return {
+      ...openAITool,
+      function: {
+        ...openAITool.function,
+        ...(description !== undefined ? { description } : {}),
+        ...(schema !== undefined ? { parameters: schema } : {})
+      }
+    };
+  }
+
+  return {
+    ...(tool as AnthropicToolDefinition),
+    ...(description !== undefined ? { description } : {}),
+    input_schema: schema as JsonSchema
+  };
+}
@@ -0,0 +1,149 @@
+import { AggressivenessCategoryRule, AggressivenessLevel, AggressivenessProfile } from '../types';
+import { OptimizerError } from '../optimizers/base-optimizer';
+
+/**
+ * Built-in aggressiveness profiles
+ *
+ * Each level is plain data: the categories it applies (in order, optionally
+ * limited by priority) and patterns it includes or excludes by ID.
+ */
+export const BUILT_IN_AGGRESSIVENESS_PROFILES: Record<AggressivenessLevel, AggressivenessProfile> = {
+  low: {
+    name: 'low',
+    description: "Only patterns that don't change meaning",
+    categories: [
+      'filler',
+      'formatting',
+      { category: 'structural', maxPriority: 60 }
+    ]
+  },
+
+  medium: {
+    name: 'medium',
+    description: 'Moderate patterns that preserve essential meaning',
+    categories: [
+      'verbosity',
+      'filler',
+      'formatting',
+      { category: 'instructional', maxPriority: 90 },
+      { category: 'technical', maxPriority: 70 },
+      { category: 'role', maxPriority: 70 },
+      { category: 'structural', maxPriority: 80 }
+    ]
+  },
+
+  high: {
+    name: 'high',
+    description: 'All patterns, structural patterns first for maximum effect',
+    categories: ['structural', 'verbosity', 'filler', 'formatting', 'instructional', 'technical', 'role']
+  },
+
+  max: {
+    name: 'max',
+    description: 'All patterns plus rewrites that trade nuance for tokens',
+    categories: ['structural', 'verbosity', 'filler', 'formatting', 'instructional', 'technical', 'role'],
+    includePatternIds: ['max-remove-all-explanations', 'max-convert-paragraphs-to-bullets']
+  }
+};
+
+// Profiles registered at runtime, by name
+const customProfiles = new Map<string, AggressivenessProfile>();
+
+/**
+ * Register a custom aggressiveness profile
+ *
+ * Registering a profile under an existing custom name replaces it; the
+ * built-in levels cannot be redefined.
+ *
+ * @param profile - Profile to register
+ * @throws {OptimizerError} If the profile is invalid or uses a built-in name
+ */
+export function registerAggressivenessProfile(profile: AggressivenessProfile): void {
+  validateProfile(profile);
+
+  if (Object.prototype.hasOwnProperty.call(BUILT_IN_AGGRESSIVENESS_PROFILES, profile.name)) {
+    throw new OptimizerError(`Cannot redefine built-in aggressiveness profile: ${profile.name}`);
+  }
+
+  customProfiles.set(profile.name, {
+    ...profile,
+    categories: profile.categories.map(rule => typeof rule === 'string' ? rule : { ...rule }),
+    includePatternIds: profile.includePatternIds ? [...profile.includePatternIds] : undefined,
+    excludePatternIds: profile.excludePatternIds ? [...profile.excludePatternIds] : undefined
+  });
+}
+
+/**
+ * Remove a custom aggressiveness profile
+ * @param name - Name of the profile
+ * @returns Whether a profile was removed
+ */
+export function unregisterAggressivenessProfile(name: string): boolean {
+  return customProfiles.delete(name);
+}
+
+/**
+ * Get an aggressiveness profile by name
+ * @param name - Built-in level or custom profile name
+ * @returns The profile, or undefined if none is registered under the name
+ */
+export function getAggressivenessProfile(name: string): AggressivenessProfile | undefined {
+  if (Object.prototype.hasOwnProperty.call(BUILT_IN_AGGRESSIVENESS_PROFILES, name)) {
+    return BUILT_IN_AGGRESSIVENESS_PROFILES[name as AggressivenessLevel];
+  }
+  return customProfiles.get(name);
+}
+
+/**
+ * Get the names of all aggressiveness profiles, built-in levels first
+ * @returns Profile names
+ */
+export function getAggressivenessProfileNames(): string[] {
+  return [...Object.keys(BUILT_IN_AGGRESSIVENESS_PROFILES), ...customProfiles.keys()];
+}
+
+/**
+ * Validate a profile definition
+ * @private
+ */
+function validateProfile(profile: AggressivenessProfile): void {
+  if (!profile || typeof profile.name !== 'string' || profile.name.trim() === '') {
+    throw new OptimizerError('Aggressiveness profile must have a name');
+  }
+
+  if (!Array.isArray(profile.categories)) {
+    throw new OptimizerError(`Aggressiveness profile ${profile.name} must have a categories array`);
+  }
+
+  profile.categories.forEach(rule => {
+    if (typeof rule === 'string') return;
+
+    if (!rule || typeof rule.category !== 'string') {
+      throw new OptimizerError(`Aggressiveness profile ${profile.name} has an invalid category rule`);
+    }
+    validatePriority(profile.name, rule, 'minPriority');
+    validatePriority(profile.name, rule, 'maxPriority');
+  });
+
+  (['includePatternIds', 'excludePatternIds'] as const).forEach(key => {
+    const ids = profile[key];
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+      throw new OptimizerError(`Aggressiveness profile ${profile.name} ${key} must be an array of pattern IDs`);
+    }
+  });
+}
+
+/**
+ * Validate a priority threshold of a category rule
+ * @private
+ */
+function validatePriority(
+  name: string,
+  rule: AggressivenessCategoryRule,
+  key: 'minPriority' | 'maxPriority'
+): void {
+  const value = rule[key];
+  if (value !== undefined && (typeof value !== 'number' || isNaN(value))) {
+    throw new OptimizerError(`Aggressiveness profile ${name} has an invalid ${key} for ${rule.category}`);
+  }
+}
@@ -1,4 +1,4 @@
-import { OptimizationPattern } from '../types';
+import { OptimizationPattern, AggressivenessLevel, AggressivenessProfile, AggressivenessCategoryRule } from '../types';
 import { verbosityPatterns } from './verbosity-patterns';
 import { fillerPatterns } from './filler-patterns';
 import { formattingPatterns } from './formatting-patterns';
@@ -6,6 +6,8 @@ import { instructionalPatterns } from './instructional-patterns';
 import { technicalPatterns } from './technical-patterns';
 import { rolePatterns } from './role-patterns';
 import { structuralPatterns } from './structural-patterns';
+import { maxPatterns } from './max-patterns';
+import { BUILT_IN_AGGRESSIVENESS_PROFILES, getAggressivenessProfile } from './aggressiveness-profiles';
 
 // All available pattern categories
 const CATEGORIES = [
@@ -66,44 +68,86 @@ export function getPatternsByCategory(category: string): OptimizationPattern[] {
 
 /**
  * Get patterns by aggressiveness level
- * @param level Aggressiveness level
- * @returns Patterns for the level
+ * @param level Built-in aggressiveness level or registered profile name
+ * @returns Patterns for the level, in the order they are applied (all patterns for an unknown level)
  */
-export function getPatternsByAggressiveness(level: 'low' | 'medium' | 'high'): OptimizationPattern[] {
-  const allPatterns = getAllPatterns();
+export function getPatternsByAggressiveness(level: AggressivenessLevel | string): OptimizationPattern[] {
+  const profile = getAggressivenessProfile(level);
+  return profile ? getPatternsForProfile(profile) : getAllPatterns();
+}
 
-  switch (level) {
-    case 'low':
-      // Only include patterns that don't change meaning
-      return allPatterns.filter(pattern =>
-        pattern.category === 'filler' ||
-        pattern.category === 'formatting' ||
-        (pattern.category === 'structural' && pattern.priority && pattern.priority < 60)
-      );
+/**
+ * Resolve an aggressiveness profile to its patterns
+ * @param profile Profile to resolve
+ * @returns Patterns of the included categories in profile order, then the included patterns,
+ * without the excluded ones
+ */
+export function getPatternsForProfile(profile: AggressivenessProfile): OptimizationPattern[] {
+  const patterns: OptimizationPattern[] = [];
+  const seen = new Set<string>();
+  const add = (pattern: OptimizationPattern) => {
+    if (seen.has(pattern.id)) return;
+    seen.add(pattern.id);
+    patterns.push(pattern);
+  };
 
-    case 'medium':
-      // Include moderate patterns that preserve essential meaning
-      return allPatterns.filter(pattern =>
-        pattern.category === 'filler' ||
-        pattern.category === 'formatting' ||
-        pattern.category === 'verbosity' ||
-        (pattern.category === 'structural' && pattern.priority && pattern.priority < 80) ||
-        (pattern.category === 'instructional' && pattern.priority && pattern.priority < 90) ||
-        ((pattern.category === 'technical' || pattern.category === 'role') && pattern.priority && pattern.priority < 70)
-      );
+  profile.categories.forEach(rule => {
+    const { category, minPriority, maxPriority }: AggressivenessCategoryRule =
+      typeof rule === 'string' ? { category: rule } : rule;
 
-    case 'high':
-      // Include all patterns, prioritizing structural patterns
-      return [
-        // First apply structural patterns for maximum effect
-        ...allPatterns.filter(pattern => pattern.category === 'structural'),
-        // Then apply other patterns
-        ...allPatterns.filter(pattern => pattern.category !== 'structural')
-      ];
+    getPatternsByCategory(category)
+      .filter(pattern => minPriority === undefined || (pattern.priority || 0) >= minPriority)
+      .filter(pattern => maxPriority === undefined || (!!pattern.priority && pattern.priority < maxPriority))
+      .forEach(add);
+  });
 
-    default:
-      return allPatterns;
+  if (profile.includePatternIds && profile.includePatternIds.length > 0) {
+    const byId = new Map([...getAllPatterns(), ...maxPatterns].map(pattern => [pattern.id, pattern]));
+    profile.includePatternIds.forEach(id => {
+      const pattern = byId.get(id);
+      if (pattern) add(pattern);
+    });
+  }
+
+  const excluded = new Set(profile.excludePatternIds || []);
+  return patterns.filter(pattern => !excluded.has(pattern.id));
+}
+
+/**
+ * Risk of the built-in patterns, by the lowest built-in aggressiveness level that includes them
+ */
+export const AGGRESSIVENESS_LEVEL_RISK: Record<AggressivenessLevel, number> = {
+  low: 0.2,
+  medium: 0.4,
+  high: 0.6,
+  max: 0.8
+};
+
+// Risk of every built-in pattern by ID, resolved on first use
+let builtInPatternRisks: Map<string, number> | null = null;
+
+/**
+ * Get the risk of a built-in pattern
+ *
+ * Patterns that the low level already applies are the safest, patterns that
+ * only the max level applies the riskiest (see AGGRESSIVENESS_LEVEL_RISK).
+ *
+ * @param patternId ID of the pattern
+ * @returns Risk from 0 to 1, or undefined if no built-in level includes the pattern
+ */
+export function getBuiltInPatternRisk(patternId: string): number | undefined {
+  if (!builtInPatternRisks) {
+    const risks = new Map<string, number>();
+    (Object.keys(AGGRESSIVENESS_LEVEL_RISK) as AggressivenessLevel[]).forEach(level => {
+      getPatternsForProfile(BUILT_IN_AGGRESSIVENESS_PROFILES[level]).forEach(pattern => {
+        if (!risks.has(pattern.id)) {
+          risks.set(pattern.id, AGGRESSIVENESS_LEVEL_RISK[level]);
+        }
+      });
+    });
+    builtInPatternRisks = risks;
   }
+  return builtInPatternRisks.get(patternId);
 }
 
 /**
@@ -122,3 +166,5 @@ export * from './instructional-patterns';
 export * from './technical-patterns';
 export * from './role-patterns';
 export * from './structural-patterns';
+export * from './max-patterns';
+export * from './aggressiveness-profiles';
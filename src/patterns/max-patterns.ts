@@ -0,0 +1,27 @@
+import { OptimizationPattern } from '../types';
+
+/**
+ * Max patterns are extra aggressive rewrites used only at the 'max' level,
+ * after every other pattern has been applied. They trade nuance for tokens.
+ */
+export const maxPatterns: OptimizationPattern[] = [
+  {
+    id: 'max-remove-all-explanations',
+    category: 'max',
+    description: 'Remove all explanation texts',
+    priority: 100,
+    preservesFormatting: true,
+    find: /This (could|should|will|may|might) ([^.]+)\./gi,
+    replace: ''
+  },
+
+  {
+    id: 'max-convert-paragraphs-to-bullets',
+    category: 'max',
+    description: 'Aggressively convert all paragraphs to bullet points',
+    priority: 100,
+    preservesFormatting: true,
+    find: /([A-Z][^.]+)\. ([A-Z][^.]+)\. ([A-Z][^.]+)\./g,
+    replace: '• $1\n• $2\n• $3'
+  }
+];
@@ -1,15 +1,13 @@
-import { OptimizationPattern, OptimizerConfig, OptimizationResult, AggressivenessLevel } from './types';
+import { OptimizationPattern, OptimizerConfig, OptimizationResult } from './types';
 import { Tokenizer } from './utils/tokenizer';
 import patternRegistry from './optimizers/pattern-registry';
+import { maxPatterns } from './patterns/max-patterns';
 
 // Define AppliedPattern type locally if not in types.ts
 interface AppliedPattern extends OptimizationPattern {
   tokensSaved: number;
 }
 
-// Extended aggressiveness level for internal use
-type ExtendedAggressivenessLevel = AggressivenessLevel | 'max';
-
 export class PromptOptimizer {
   private patterns: OptimizationPattern[] = [];
   private config: OptimizerConfig;
@@ -54,28 +52,9 @@ export class PromptOptimizer {
         // Include all patterns
         this.patterns = allPatterns;
         break;
-      case 'max' as ExtendedAggressivenessLevel:
-        // Include all patterns plus special high-impact patterns
-        this.patterns = allPatterns;
-        // Add extra aggressive patterns for maximum token reduction
-        this.patterns.push({
-          id: 'max-remove-all-explanations',
-          category: 'max',
-          description: 'Remove all explanation texts',
-          priority: 100,
-          preservesFormatting: true,
-          find: /This (could|should|will|may|might) ([^.]+)\./gi,
-          replace: ''
-        });
-        this.patterns.push({
-          id: 'max-convert-paragraphs-to-bullets',
-          category: 'max',
-          description: 'Aggressively convert all paragraphs to bullet points',
-          priority: 100,
-          preservesFormatting: true,
-          find: /([A-Z][^.]+)\. ([A-Z][^.]+)\. ([A-Z][^.]+)\./g,
-          replace: '• $1\n• $2\n• $3'
-        });
+      case 'max':
+        // Include all patterns plus special high-impact patterns for maximum token reduction
+        this.patterns = [...allPatterns, ...maxPatterns];
         break;
     }
 
@@ -130,7 +109,7 @@ export class PromptOptimizer {
 
     // Apply structural meta-patterns after initial optimizations
     // These are more aggressive transformations that convert paragraphs to lists, etc.
-    if (this.config.aggressiveness === 'high' || this.config.aggressiveness === ('max' as ExtendedAggressivenessLevel)) {
+    if (this.config.aggressiveness === 'high' || this.config.aggressiveness === 'max') {
       const structuralOptimizer = this.applyStructuralOptimizations(optimizedText);
       optimizedText = structuralOptimizer.text;
 
@@ -1,5 +1,7 @@
 import { BaseTokenizer } from './base-tokenizer';
 import { SupportedModel } from '../types';
+import { getModelInfo } from '../models/model-registry';
+import { getModelFamilyRule } from '../models/model-families';
 
 /**
  * Tokenizer adapter for Anthropic Claude models
@@ -20,9 +22,11 @@ export class ClaudeTokenizer extends BaseTokenizer {
     super(modelName);
 
     // Check if this is a Claude 3 model which uses slightly different tokenization
-    this.isClaude3Model = modelName.toLowerCase().includes('claude-3') ||
-      modelName.toLowerCase().includes('claude-3.5') ||
-      modelName.toLowerCase().includes('claude-3.7');
+    const info = getModelInfo(modelName);
+    const rule = getModelFamilyRule(modelName);
+    this.isClaude3Model = info && info.tokenizer === 'claude'
+      ? info.encoding !== 'claude-legacy'
+      : !!rule && rule.tokenizer === 'claude' && rule.encoding !== 'claude-legacy';
   }
 
   /**
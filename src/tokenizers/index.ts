@@ -1,89 +1,178 @@
-import { TokenizerAdapter, SupportedModel } from '../types';
+import {
+  TokenizerAdapter,
+  SupportedModel,
+  TokenizerMatcher,
+  TokenizerFactory,
+  TokenizerRegistration,
+  TokenizerRegistrationOptions,
+  TokenizerResolution,
+  ModelTokenizerKind
+} from '../types';
 import { OpenAITokenizer } from './openai-tokenizer';
 import { SimpleTokenizer } from './simple-tokenizer';
 import { ClaudeTokenizer } from './claude-tokenizer';
-import { TokenCache } from '../utils/token-cache';
+import { sharedTokenCache } from './shared-token-cache';
+import { getModelInfo } from '../models/model-registry';
+import { getModelFamilyRule } from '../models/model-families';
+import { OptimizerError } from '../optimizers/base-optimizer';
 
-// Global token cache to improve performance
-const tokenCache = new TokenCache(2000);
+// Resolution name of the OpenAI tokenizer when it only approximates another family's tokenizer
+const OPENAI_APPROXIMATION = 'openai-approximation';
+
+// Registered tokenizers by name, with their registration order for priority ties
+const registeredTokenizers = new Map<string, TokenizerRegistration & { sequence: number }>();
+let registrationSequence = 0;
+
+// Changes whenever a tokenizer is registered or removed, so tokenizers kept by optimizers can be re-resolved
+let registryVersion = 0;
 
 /**
- * Create a tokenizer for the specified model with built-in caching
- * 
- * This factory function returns the appropriate tokenizer for a given model:
- * - OpenAI models use the OpenAI tokenizer (with tiktoken if available)
- * - Claude models use the Claude tokenizer
- * - Other models use appropriate tokenizers or fallbacks
- * 
- * The returned tokenizer instance is cached for future reuse to improve performance.
- * 
- * @param model - Model to create tokenizer for
- * @returns Tokenizer adapter for the specified model
- * @throws {Error} If the model is invalid or tokenizer creation fails
- * 
+ * Register a tokenizer for the models a matcher accepts
+ *
+ * Registered tokenizers take precedence over the built-in ones, for
+ * createTokenizer, countTokens and every optimizer. Registrations are tried
+ * by descending priority, the latest first among equal priorities.
+ *
  * @example
  * ```typescript
- * const tokenizer = createTokenizer('gpt-4');
- * const tokenCount = tokenizer.countTokens('Hello, world!');
- * console.log(`Token count: ${tokenCount}`);
+ * registerTokenizer('acme-', model => new AcmeTokenizer(model), { name: 'acme', priority: 10 });
  * ```
+ *
+ * @param matcher - Case-insensitive model name prefix, regular expression or predicate
+ * @param factory - Creates the tokenizer for a model name
+ * @param options - Name and priority of the registration
+ * @returns Name of the registration
+ * @throws {OptimizerError} If the matcher, factory or options are invalid
  */
-export function createTokenizer(model: SupportedModel): TokenizerAdapter {
-  // Validate input
-  if (!model || typeof model !== 'string') {
-    throw new Error('Model name must be a non-empty string');
+export function registerTokenizer(
+  matcher: TokenizerMatcher,
+  factory: TokenizerFactory,
+  options: TokenizerRegistrationOptions = {}
+): string {
+  if (!(matcher instanceof RegExp) && typeof matcher !== 'function' && (typeof matcher !== 'string' || matcher === '')) {
+    throw new OptimizerError('Tokenizer matcher must be a non-empty string, a regular expression or a function');
   }
 
-  // Normalize model name to lowercase for consistency
-  const normalizedModel = model.toLowerCase();
-
-  // OpenAI GPT models
-  if (normalizedModel.startsWith('gpt-') ||
-    normalizedModel.includes('davinci') ||
-    normalizedModel.includes('curie') ||
-    normalizedModel.includes('babbage') ||
-    normalizedModel.includes('ada') ||
-    normalizedModel.includes('embedding')) {
-    return new OpenAITokenizer(normalizedModel);
+  if (typeof factory !== 'function') {
+    throw new OptimizerError('Tokenizer factory must be a function');
   }
 
-  // Anthropic Claude models
-  if (normalizedModel.startsWith('claude-')) {
-    // Use the dedicated Claude tokenizer implementation
-    return new ClaudeTokenizer(normalizedModel);
+  const priority = options.priority ?? 0;
+  if (typeof priority !== 'number' || !isFinite(priority)) {
+    throw new OptimizerError('Tokenizer priority must be a finite number');
   }
 
-  // Google models
-  if (normalizedModel.startsWith('gemini-') ||
-    normalizedModel.startsWith('palm-') ||
-    normalizedModel.startsWith('bison-')) {
-    // Using OpenAI tokenizer as a reasonable approximation
-    return new OpenAITokenizer('gpt-3.5-turbo');
+  if (options.name !== undefined && (typeof options.name !== 'string' || options.name === '')) {
+    throw new OptimizerError('Tokenizer name must be a non-empty string');
   }
 
-  // Mistral models
-  if (normalizedModel.startsWith('mistral-') ||
-    normalizedModel.startsWith('mixtral-')) {
-    return new OpenAITokenizer('gpt-3.5-turbo'); // Similar tokenization to GPT models
+  registrationSequence++;
+  const name = options.name ?? `tokenizer-${registrationSequence}`;
+  registeredTokenizers.set(name, { name, matcher, factory, priority, sequence: registrationSequence });
+  registryVersion++;
+
+  // Cached counts may have come from the tokenizer this one replaces
+  sharedTokenCache.clear();
+  return name;
+}
+
+/**
+ * Remove a registered tokenizer
+ * @param name - Name of the registration
+ * @returns Whether a tokenizer was removed
+ */
+export function unregisterTokenizer(name: string): boolean {
+  const removed = registeredTokenizers.delete(name);
+  if (removed) {
+    registryVersion++;
+    sharedTokenCache.clear();
   }
+  return removed;
+}
+
+/**
+ * Get the version of the tokenizer registry
+ *
+ * The version changes whenever a tokenizer is registered or removed; a
+ * tokenizer created at an earlier version may no longer be the one a model
+ * resolves to.
+ *
+ * @returns Registry version
+ */
+export function getTokenizerRegistryVersion(): number {
+  return registryVersion;
+}
+
+/**
+ * Get the registered tokenizers in the order they are tried
+ * @returns Registered tokenizers
+ */
+export function getRegisteredTokenizers(): TokenizerRegistration[] {
+  return [...registeredTokenizers.values()]
+    .sort((a, b) => b.priority - a.priority || b.sequence - a.sequence)
+    .map(({ name, matcher, factory, priority }) => ({ name, matcher, factory, priority }));
+}
+
+/**
+ * Find out which tokenizer a model resolves to, without creating it
+ *
+ * @param model - Model name
+ * @returns Where the tokenizer comes from and its name
+ * @throws {Error} If the model is invalid
+ */
+export function resolveTokenizer(model: SupportedModel): TokenizerResolution {
+  const { source, name } = resolve(model);
+  return { model, source, name };
+}
 
-  // Llama models
-  if (normalizedModel.startsWith('llama-') ||
-    normalizedModel.includes('llama2')) {
-    return new OpenAITokenizer('gpt-3.5-turbo'); // Reasonable approximation
+/**
+ * Create a tokenizer for the specified model
+ *
+ * This factory function returns the appropriate tokenizer for a given model,
+ * trying in order:
+ * - Tokenizers registered with registerTokenizer
+ * - The tokenizer and encoding recorded in the model registry
+ * - The model family rules in BUILT_IN_MODEL_FAMILIES for other names: OpenAI
+ *   models use the OpenAI tokenizer (with tiktoken if available), with the
+ *   o200k_base encoding for GPT-4o, GPT-4.1 and o-series models; Claude models
+ *   use the Claude tokenizer; Gemini, Mistral and Llama models are
+ *   approximated with cl100k_base
+ * - The simple tokenizer, with a warning
+ *
+ * Use resolveTokenizer to see which one a model name resolves to; OpenAI
+ * tokenizers that approximate another family's resolve to 'openai-approximation'.
+ *
+ * @param model - Model to create tokenizer for
+ * @returns Tokenizer adapter for the specified model
+ * @throws {Error} If the model is invalid or tokenizer creation fails
+ *
+ * @example
+ * ```typescript
+ * const tokenizer = createTokenizer('gpt-4');
+ * const tokenCount = tokenizer.countTokens('Hello, world!');
+ * console.log(`Token count: ${tokenCount}`);
+ * ```
+ */
+export function createTokenizer(model: SupportedModel): TokenizerAdapter {
+  const { source, name, create } = resolve(model);
+
+  if (source === 'fallback') {
+    console.warn(`Unknown model "${model}", using simple tokenizer as fallback`);
   }
 
-  // Default to simple tokenizer for any other model
-  console.warn(`Unknown model "${model}", using simple tokenizer as fallback`);
-  return new SimpleTokenizer(model);
+  const tokenizer = create();
+  if (source === 'registered' && (!tokenizer || typeof tokenizer.countTokens !== 'function')) {
+    throw new OptimizerError(`Tokenizer ${name} did not return a tokenizer for model ${model}`);
+  }
+  return tokenizer;
 }
 
 /**
  * Count tokens in text for a specific model with caching
- * 
+ *
  * This is a convenience function that creates a tokenizer and counts tokens
  * while using a cache to avoid repeat tokenizations of the same text.
- * 
+ *
  * @param text - Text to count tokens in
  * @param model - Model to use for tokenization (defaults to GPT-3.5-Turbo)
  * @returns Token count for the text
@@ -93,7 +182,7 @@ export function countTokens(text: string, model: SupportedModel = 'gpt-3.5-turbo
   if (!text) return 0;
 
   // Check cache first
-  const cachedCount = tokenCache.get(text, model);
+  const cachedCount = sharedTokenCache.get(text, model);
   if (cachedCount !== undefined) {
     return cachedCount;
   }
@@ -103,11 +192,89 @@ export function countTokens(text: string, model: SupportedModel = 'gpt-3.5-turbo
   const count = tokenizer.countTokens(text);
 
   // Cache the result
-  tokenCache.set(text, model, count);
+  sharedTokenCache.set(text, model, count);
 
   return count;
 }
 
+/**
+ * Check whether a registered tokenizer's matcher accepts a model name
+ * @private
+ */
+function matches(matcher: TokenizerMatcher, model: string): boolean {
+  if (typeof matcher === 'string') {
+    return model.toLowerCase().startsWith(matcher.toLowerCase());
+  }
+  if (matcher instanceof RegExp) {
+    matcher.lastIndex = 0;
+    return matcher.test(model);
+  }
+  return matcher(model) === true;
+}
+
+/**
+ * Resolve the tokenizer of a model
+ * @private
+ */
+function resolve(model: SupportedModel): Omit<TokenizerResolution, 'model'> & { create: () => TokenizerAdapter } {
+  // Validate input
+  if (!model || typeof model !== 'string') {
+    throw new Error('Model name must be a non-empty string');
+  }
+
+  // Registered tokenizers
+  const registration = getRegisteredTokenizers().find(candidate => matches(candidate.matcher, model));
+  if (registration) {
+    return { source: 'registered', name: registration.name, create: () => registration.factory(model) };
+  }
+
+  // Normalize model name to lowercase for consistency
+  const normalizedModel = model.toLowerCase();
+
+  // Models in the model registry
+  const info = getModelInfo(normalizedModel);
+  if (info) {
+    return resolveKind('model-registry', info.family, info.tokenizer, model);
+  }
+
+  // Other names of a known model family
+  const rule = getModelFamilyRule(normalizedModel);
+  if (rule) {
+    return resolveKind('model-family', rule.family, rule.tokenizer, model);
+  }
+
+  // Default to simple tokenizer for any other model
+  return { source: 'fallback', name: 'simple', create: () => new SimpleTokenizer(model) };
+}
+
+/**
+ * Resolve a built-in tokenizer kind for a model of a family
+ * @private
+ */
+function resolveKind(
+  source: TokenizerResolution['source'],
+  family: string,
+  kind: ModelTokenizerKind,
+  model: string
+): Omit<TokenizerResolution, 'model'> & { create: () => TokenizerAdapter } {
+  const normalizedModel = model.toLowerCase();
+  switch (kind) {
+    case 'openai':
+      return {
+        source,
+        // Other families counted with an OpenAI encoding only get an approximation
+        name: family === 'openai' ? 'openai' : OPENAI_APPROXIMATION,
+        create: () => new OpenAITokenizer(normalizedModel)
+      };
+    case 'claude':
+      return { source, name: 'claude', create: () => new ClaudeTokenizer(normalizedModel) };
+    default:
+      return { source, name: 'simple', create: () => new SimpleTokenizer(model) };
+  }
+}
+
+export * from './base-tokenizer';
 export * from './openai-tokenizer';
 export * from './simple-tokenizer';
-export * from './claude-tokenizer'; 
\ No newline at end of file
+export * from './claude-tokenizer';
+export * from './generic-tokenizer';
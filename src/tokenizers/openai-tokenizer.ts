@@ -1,6 +1,8 @@
 import { TokenizerAdapter, SupportedModel } from '../types';
 import { encode, decode } from 'gpt-tokenizer';
 import { isBrowser } from '../utils/environment';
+import { getModelInfo } from '../models/model-registry';
+import { getModelFamilyRule } from '../models/model-families';
 
 // Optional import of tiktoken - may not be available in all environments
 let tiktoken: any = null;
@@ -14,27 +16,58 @@ if (!isBrowser) {
 }
 
 /**
- * Map of models to encoding names for tiktoken
+ * Loaders of the gpt-tokenizer encode function per encoding; encodings other
+ * than cl100k_base are loaded on first use since their rank tables are large
  */
-const MODEL_TO_ENCODING: Record<string, string> = {
-  'gpt-3.5-turbo': 'cl100k_base',
-  'gpt-3.5-turbo-16k': 'cl100k_base',
-  'gpt-4': 'cl100k_base',
-  'gpt-4-32k': 'cl100k_base',
-  'gpt-4-turbo': 'cl100k_base',
-  'gpt-4o': 'cl100k_base',
-  'gpt-4o-mini': 'cl100k_base',
-  'gpt-4-turbo-preview': 'cl100k_base',
-  'gpt-4-vision-preview': 'cl100k_base',
-  'text-davinci-003': 'p50k_base',
-  'text-embedding-ada-002': 'cl100k_base'
+const GPT_TOKENIZER_ENCODERS: Record<string, () => (text: string) => number[]> = {
+  cl100k_base: () => encode,
+  o200k_base: () => require('gpt-tokenizer/encoding/o200k_base').encode,
+  p50k_base: () => require('gpt-tokenizer/encoding/p50k_base').encode,
+  p50k_edit: () => require('gpt-tokenizer/encoding/p50k_edit').encode,
+  r50k_base: () => require('gpt-tokenizer/encoding/r50k_base').encode
 };
 
+// Encodings gpt-tokenizer does not have that were already reported, so each one is warned about once
+const unsupportedGptTokenizerEncodings = new Set<string>();
+
+// Encodings are expensive to create, so each one is created once and shared
+const tiktokenEncodings = new Map<string, any>();
+const gptTokenizerEncoders = new Map<string, (text: string) => number[]>();
+
+/**
+ * Get the encoding an OpenAI model tokenizes with
+ *
+ * Models in the model registry use the encoding recorded there; other names
+ * use the encoding of their model family (see BUILT_IN_MODEL_FAMILIES).
+ *
+ * @param model - Model name
+ * @returns Encoding name (cl100k_base for unknown models)
+ */
+export function getOpenAIEncodingName(model: string): string {
+  const normalizedModel = model.toLowerCase();
+
+  // Look up registered model
+  const info = getModelInfo(normalizedModel);
+  if (info && info.tokenizer === 'openai' && info.encoding) {
+    return info.encoding;
+  }
+
+  // Other names use the encoding of their model family
+  const rule = getModelFamilyRule(normalizedModel);
+  if (rule && rule.tokenizer === 'openai' && rule.encoding) {
+    return rule.encoding;
+  }
+
+  // Default to cl100k_base for other models
+  return 'cl100k_base';
+}
+
 /**
  * Tokenizer for OpenAI models using tiktoken when available with fallback to gpt-tokenizer
  */
 export class OpenAITokenizer implements TokenizerAdapter {
   private model: SupportedModel;
+  private encodingName: string;
   private encoding: any | null = null;
   private usesTiktoken = false;
 
@@ -45,13 +78,15 @@ export class OpenAITokenizer implements TokenizerAdapter {
    */
   constructor(model: SupportedModel) {
     this.model = model;
+    this.encodingName = getOpenAIEncodingName(model);
 
     // Try to initialize tiktoken encoding
     if (tiktoken) {
       try {
-        // Get encoding name for the model
-        const encodingName = this.getEncodingName(model);
-        this.encoding = tiktoken.get_encoding(encodingName);
+        if (!tiktokenEncodings.has(this.encodingName)) {
+          tiktokenEncodings.set(this.encodingName, tiktoken.get_encoding(this.encodingName));
+        }
+        this.encoding = tiktokenEncodings.get(this.encodingName);
         this.usesTiktoken = true;
       } catch (error) {
         console.warn(`Could not initialize tiktoken for model ${model}: ${error}`);
@@ -59,6 +94,15 @@ export class OpenAITokenizer implements TokenizerAdapter {
         this.encoding = null;
       }
     }
+
+    // Without tiktoken, encodings gpt-tokenizer does not have are counted with cl100k_base
+    if (!this.usesTiktoken && !(this.encodingName in GPT_TOKENIZER_ENCODERS)) {
+      if (!unsupportedGptTokenizerEncodings.has(this.encodingName)) {
+        unsupportedGptTokenizerEncodings.add(this.encodingName);
+        console.warn(`Encoding ${this.encodingName} is not available in gpt-tokenizer, counting with cl100k_base instead`);
+      }
+      this.encodingName = 'cl100k_base';
+    }
   }
 
   /**
@@ -83,7 +127,7 @@ export class OpenAITokenizer implements TokenizerAdapter {
 
     // Fall back to gpt-tokenizer
     try {
-      return encode(text).length;
+      return this.getGptTokenizerEncoder()(text).length;
     } catch (error) {
       throw new Error(`Token counting failed: ${error}`);
     }
@@ -106,35 +150,29 @@ export class OpenAITokenizer implements TokenizerAdapter {
   }
 
   /**
-   * Get the encoding name for a model
-   * @param model Model to get encoding for
-   * @returns Encoding name for tiktoken
-   * @private
+   * Get the name of the encoding tokens are counted with
+   *
+   * This is the model's encoding, unless neither tiktoken nor gpt-tokenizer
+   * has it and cl100k_base is used instead.
+   * @returns Encoding name, e.g. 'o200k_base' or 'cl100k_base'
    */
-  private getEncodingName(model: string): string {
-    // Look up exact model match
-    if (model in MODEL_TO_ENCODING) {
-      return MODEL_TO_ENCODING[model];
-    }
-
-    // Check for model family matches
-    if (model.startsWith('gpt-3.5-turbo')) {
-      return 'cl100k_base';
-    }
-
-    if (model.startsWith('gpt-4')) {
-      return 'cl100k_base';
-    }
-
-    if (model.startsWith('text-embedding-')) {
-      return 'cl100k_base';
-    }
+  getEncodingName(): string {
+    return this.encodingName;
+  }
 
-    if (model.startsWith('text-davinci-')) {
-      return 'p50k_base';
+  /**
+   * Get the gpt-tokenizer encode function for the model's encoding
+   * 
+   * Encodings gpt-tokenizer does not have fall back to cl100k_base, which only
+   * happens here when tiktoken fails while counting.
+   * @returns Encode function
+   * @private
+   */
+  private getGptTokenizerEncoder(): (text: string) => number[] {
+    const encodingName = this.encodingName in GPT_TOKENIZER_ENCODERS ? this.encodingName : 'cl100k_base';
+    if (!gptTokenizerEncoders.has(encodingName)) {
+      gptTokenizerEncoders.set(encodingName, GPT_TOKENIZER_ENCODERS[encodingName]());
     }
-
-    // Default to cl100k_base for newer models
-    return 'cl100k_base';
+    return gptTokenizerEncoders.get(encodingName)!;
   }
 }
@@ -0,0 +1,9 @@
+import { TokenCache } from '../utils/token-cache';
+
+/**
+ * Token counts cached by countTokens, by text and model
+ *
+ * Cleared whenever a tokenizer or a model is registered or removed, since the
+ * cached counts may have come from the tokenizer or encoding it replaced.
+ */
+export const sharedTokenCache = new TokenCache(2000);
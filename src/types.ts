@@ -4,29 +4,15 @@
 
 // Import types from dual-optimizer
 import { DualOptimizationResult, DualOptimizerConfig } from './optimizers/dual-optimizer';
+import { SourceMap } from './utils/source-map';
+import { JsonSchema } from './utils/json-schema';
 
 /**
- * Supported language models for tokenization
- * This helps ensure we only use models that have tokenization support
- */
-export type SupportedModel =
-  | 'gpt-3.5-turbo'
-  | 'gpt-4'
-  | 'gpt-4-turbo'
-  | 'gpt-4o'
-  | 'gpt-4o-mini'
-  | 'gpt-4-turbo-preview'
-  | 'gpt-4-vision-preview'
-  | 'claude-instant-1'
-  | 'claude-2'
-  | 'claude-3-opus-20240229'
-  | 'claude-3-sonnet-20240229'
-  | 'claude-3-haiku-20240307'
-  | 'claude-3-5-sonnet-20240620'
-  | 'claude-3-7-sonnet-20240729'
-  | 'text-embedding-ada-002'
-  | 'text-davinci-003'
-  | string; // Allow for custom models, but prefer using the specific ones above
+ * Name of a language model, used for tokenization
+ * Known models are the IDs and aliases in the model registry (see getRegisteredModels);
+ * other names are counted with the tokenizer their model family resolves to
+ */
+export type SupportedModel = string;
 
 /**
  * Pattern categories supported by the optimizer
@@ -42,201 +28,1865 @@ export type PatternCategory =
   | string; // Allow for custom categories
 
 /**
- * Aggressiveness levels for optimization
+ * Built-in aggressiveness levels for optimization
+ */
+export type AggressivenessLevel = 'low' | 'medium' | 'high' | 'max';
+
+/**
+ * Category selection of an aggressiveness profile
+ */
+export interface AggressivenessCategoryRule {
+  /**
+   * Pattern category
+   */
+  category: PatternCategory;
+
+  /**
+   * Only include patterns with at least this priority
+   */
+  minPriority?: number;
+
+  /**
+   * Only include patterns with a priority below this value
+   * (patterns without a priority are excluded)
+   */
+  maxPriority?: number;
+}
+
+/**
+ * Named set of patterns used at an aggressiveness level
+ */
+export interface AggressivenessProfile {
+  /**
+   * Profile name, used as the aggressiveness level
+   */
+  name: string;
+
+  /**
+   * Description of the profile
+   */
+  description?: string;
+
+  /**
+   * Included categories, in the order their patterns are applied
+   * (a plain category name includes all of its patterns)
+   */
+  categories: Array<PatternCategory | AggressivenessCategoryRule>;
+
+  /**
+   * Built-in patterns included by ID in addition to the categories, applied last
+   */
+  includePatternIds?: string[];
+
+  /**
+   * Patterns excluded by ID, even if their category is included
+   */
+  excludePatternIds?: string[];
+}
+
+/**
+ * Interface for a tokenizer adapter
+ */
+export interface TokenizerAdapter {
+  /**
+   * Count tokens in text
+   * @param text Text to count tokens in
+   * @returns Token count
+   * @throws {Error} If text is invalid or tokenization fails
+   */
+  countTokens(text: string): number;
+
+  /**
+   * Get the model name
+   * @returns Model name
+   */
+  getModel(): string;
+}
+
+/**
+ * Tokenizer implementation a model is counted with
+ * - openai: tiktoken (or gpt-tokenizer) with the model's encoding
+ * - claude: the Claude approximation
+ * - simple: the heuristic SimpleTokenizer
+ */
+export type ModelTokenizerKind = 'openai' | 'claude' | 'simple';
+
+/**
+ * Model names a registered tokenizer applies to: a case-insensitive name
+ * prefix, a regular expression or a predicate
+ */
+export type TokenizerMatcher = string | RegExp | ((model: string) => boolean);
+
+/**
+ * Creates the tokenizer for a model name
+ */
+export type TokenizerFactory = (model: string) => TokenizerAdapter;
+
+/**
+ * Options for registering a tokenizer
+ */
+export interface TokenizerRegistrationOptions {
+  /**
+   * Name of the registration; registering a name again replaces it
+   * @default 'tokenizer-N'
+   */
+  name?: string;
+
+  /**
+   * Registrations with a higher priority are tried first; among equal
+   * priorities the latest registration is tried first
+   * @default 0
+   */
+  priority?: number;
+}
+
+/**
+ * A registered tokenizer
+ */
+export interface TokenizerRegistration {
+  /**
+   * Name of the registration
+   */
+  name: string;
+
+  /**
+   * Model names the tokenizer applies to
+   */
+  matcher: TokenizerMatcher;
+
+  /**
+   * Creates the tokenizer
+   */
+  factory: TokenizerFactory;
+
+  /**
+   * Priority of the registration
+   */
+  priority: number;
+}
+
+/**
+ * Where the tokenizer of a model comes from
+ * - registered: a tokenizer registered with registerTokenizer
+ * - model-registry: the model's entry in the model registry
+ * - model-family: the built-in rules for model name prefixes
+ * - fallback: the SimpleTokenizer for unknown models
+ */
+export type TokenizerSource = 'registered' | 'model-registry' | 'model-family' | 'fallback';
+
+/**
+ * The tokenizer a model name resolves to
+ */
+export interface TokenizerResolution {
+  /**
+   * Model name that was resolved
+   */
+  model: string;
+
+  /**
+   * Where the tokenizer comes from
+   */
+  source: TokenizerSource;
+
+  /**
+   * Registration name for registered tokenizers, otherwise the built-in
+   * tokenizer kind ('openai', 'claude' or 'simple'), or 'openai-approximation'
+   * when the OpenAI tokenizer stands in for another model family's
+   */
+  name: string;
+}
+
+/**
+ * Prices of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  /**
+   * Price of input tokens
+   */
+  input: number;
+
+  /**
+   * Price of output tokens
+   */
+  output: number;
+
+  /**
+   * Price of input tokens read from the prompt cache
+   */
+  cachedInput?: number;
+}
+
+/**
+ * Metadata of a model in the model registry
+ */
+export interface ModelInfo {
+  /**
+   * Canonical model ID, e.g. 'gpt-4o' or 'claude-3-5-sonnet-20240620'
+   */
+  id: string;
+
+  /**
+   * Provider family, e.g. 'openai', 'anthropic', 'google', 'mistral' or 'meta'
+   */
+  family: string;
+
+  /**
+   * Tokenizer the model is counted with
+   */
+  tokenizer: ModelTokenizerKind;
+
+  /**
+   * Encoding of the tokenizer: a tiktoken encoding such as 'o200k_base' for
+   * 'openai', or 'claude-3' / 'claude-legacy' for 'claude'
+   */
+  encoding?: string;
+
+  /**
+   * Context window in tokens (input and output together)
+   */
+  contextWindow: number;
+
+  /**
+   * Maximum number of output tokens per request
+   */
+  maxOutputTokens: number;
+
+  /**
+   * Prices in USD per million tokens, if known
+   */
+  pricing?: ModelPricing;
+
+  /**
+   * Other names of the model, e.g. dated snapshots or '-latest' names
+   */
+  aliases?: string[];
+}
+
+/**
+ * Tokenizer and encoding of the models of a family whose names match a pattern,
+ * for models that are not in the model registry
+ */
+export interface ModelFamilyRule {
+  /**
+   * Provider family, e.g. 'openai', 'anthropic', 'google', 'mistral' or 'meta'
+   */
+  family: string;
+
+  /**
+   * Pattern the lowercase model name matches
+   */
+  match: RegExp;
+
+  /**
+   * Tokenizer the models are counted with
+   */
+  tokenizer: ModelTokenizerKind;
+
+  /**
+   * Encoding of the tokenizer, as in ModelInfo
+   */
+  encoding?: string;
+}
+
+/**
+ * Contents of a model registry JSON file
+ */
+export interface ModelRegistryFile {
+  models: ModelInfo[];
+}
+
+/**
+ * Estimated input cost of one call, in USD
+ */
+export interface CostEstimate {
+  /**
+   * Price of input tokens the estimate uses, in USD per million tokens
+   */
+  inputPricePerMillion: number;
+
+  /**
+   * Input cost of the original text
+   */
+  originalCost: number;
+
+  /**
+   * Input cost of the optimized text
+   */
+  optimizedCost: number;
+
+  /**
+   * Input cost saved by the optimization
+   */
+  costSaved: number;
+}
+
+/**
+ * Options for checking whether a prompt fits a model's context window
+ */
+export interface ContextFitOptions {
+  /**
+   * Tokens to keep free for the model's response
+   * @default 0
+   */
+  reserveOutputTokens?: number;
+
+  /**
+   * Number of largest sections to report
+   * @default 3
+   */
+  maxSections?: number;
+}
+
+/**
+ * A section of a prompt and its share of the tokens
+ */
+export interface ContextSectionInfo {
+  /**
+   * Heading of a text section ('Preamble' / 'Paragraph N' when it has none),
+   * or 'messages[N] (role)' for a message
+   */
+  label: string;
+
+  /**
+   * Token count of the section
+   */
+  tokenCount: number;
+
+  /**
+   * Start offset of a text section
+   */
+  start?: number;
+
+  /**
+   * End offset of a text section (exclusive)
+   */
+  end?: number;
+
+  /**
+   * Index of a message
+   */
+  messageIndex?: number;
+}
+
+/**
+ * Whether a prompt fits a model's context window
+ */
+export interface ContextFitResult {
+  /**
+   * ID of the model the prompt was checked against
+   */
+  model: string;
+
+  /**
+   * Context window of the model
+   */
+  contextWindow: number;
+
+  /**
+   * Tokens kept free for the response
+   */
+  reserveOutputTokens: number;
+
+  /**
+   * Tokens available for the prompt (context window minus reserved output tokens)
+   */
+  availableTokens: number;
+
+  /**
+   * Token count of the prompt
+   */
+  tokenCount: number;
+
+  /**
+   * Whether the prompt fits the available tokens
+   */
+  fits: boolean;
+
+  /**
+   * Tokens over the available tokens (0 if the prompt fits)
+   */
+  overflowTokens: number;
+
+  /**
+   * Sections with the most tokens, largest first
+   */
+  largestSections: ContextSectionInfo[];
+}
+
+/**
+ * Options for projecting savings over time
+ */
+export interface SavingsProjectionOptions {
+  /**
+   * Number of calls per day sending the optimized prompt
+   */
+  callsPerDay: number;
+
+  /**
+   * Number of days in a month
+   * @default 30
+   */
+  daysPerMonth?: number;
+}
+
+/**
+ * Tokens and input cost saved over a day and a month
+ */
+export interface SavingsProjection {
+  /**
+   * Number of calls per day
+   */
+  callsPerDay: number;
+
+  /**
+   * Number of days in a month
+   */
+  daysPerMonth: number;
+
+  /**
+   * Tokens saved per day
+   */
+  tokensSavedPerDay: number;
+
+  /**
+   * Tokens saved per month
+   */
+  tokensSavedPerMonth: number;
+
+  /**
+   * Input cost saved per day, in USD (null if the result has no cost estimate)
+   */
+  costSavedPerDay: number | null;
+
+  /**
+   * Input cost saved per month, in USD (null if the result has no cost estimate)
+   */
+  costSavedPerMonth: number | null;
+}
+
+/**
+ * Pattern effectiveness metrics
+ * Used to track how well a pattern performs in real-world optimization
+ */
+export interface PatternEffectivenessMetrics {
+  /**
+   * Total number of times this pattern has been applied
+   */
+  timesApplied: number;
+
+  /**
+   * Total tokens saved across all applications
+   */
+  totalTokensSaved: number;
+
+  /**
+   * Average tokens saved per application
+   */
+  avgTokensSaved: number;
+
+  /**
+   * Number of times the pattern was skipped
+   */
+  timesSkipped: number;
+
+  /**
+   * Success rate (0-1) of pattern application
+   * (timesApplied / (timesApplied + timesSkipped))
+   */
+  successRate: number;
+
+  /**
+   * Last time the pattern was applied (timestamp)
+   */
+  lastApplied?: number;
+
+  /**
+   * Number of times the pattern's output was reverted (also counted in timesSkipped)
+   */
+  timesReverted?: number;
+
+  /**
+   * Last time the pattern's output was reverted (timestamp)
+   */
+  lastReverted?: number;
+}
+
+/**
+ * Optimization pattern definition
+ */
+export interface OptimizationPattern {
+  /**
+   * Unique identifier for the pattern
+   */
+  id: string;
+
+  /**
+   * Category of the pattern
+   */
+  category: PatternCategory;
+
+  /**
+   * Description of what the pattern does
+   */
+  description: string;
+
+  /**
+   * Example of the pattern in action
+   */
+  example?: {
+    before: string;
+    after: string;
+  };
+
+  /**
+   * Whether the pattern is disabled
+   */
+  disabled?: boolean;
+
+  /**
+   * Whether the pattern preserves formatting
+   */
+  preservesFormatting?: boolean;
+
+  /**
+   * Priority of the pattern (higher = applied first)
+   * Defaults to 0 if not specified
+   */
+  priority?: number;
+
+  /**
+   * How likely the pattern is to hurt output quality, from 0 (safe) to 1 (risky)
+   * The DualOptimizer only includes efficiency patterns whose risk is within
+   * the tolerance given by its quality/efficiency balance. Built-in patterns
+   * default to the risk of the lowest aggressiveness level that includes them,
+   * other patterns to 0.5
+   */
+  risk?: number;
+
+  /**
+   * IDs of patterns that must run before this one (when both are in use)
+   */
+  runAfter?: string[];
+
+  /**
+   * IDs of patterns that must run after this one (when both are in use)
+   */
+  runBefore?: string[];
+
+  /**
+   * IDs of patterns that must never run in the same optimization as this one;
+   * whichever pattern applies first wins
+   */
+  conflictsWith?: string[];
+
+  /**
+   * Effectiveness metrics for this pattern
+   * Updated during optimization to track performance
+   */
+  effectivenessMetrics?: PatternEffectivenessMetrics;
+
+  /**
+   * Function to test if the pattern applies to text
+   * @param text The text to test
+   * @returns true if the pattern should be applied, false otherwise
+   */
+  test?: (text: string) => boolean;
+
+  /**
+   * Function to transform text
+   * @param text The text to transform
+   * @returns The transformed text
+   */
+  transform?: (text: string) => string;
+
+  /**
+   * Regular expression or string to find
+   * Must be provided if transform is not specified
+   */
+  find?: RegExp | string;
+
+  /**
+   * String or function to replace with
+   * Must be provided if find is specified
+   * For function replacers, the signature follows the JavaScript replace() method's replacer function
+   */
+  replace?: string | ((substring: string, ...args: any[]) => string);
+}
+
+/**
+ * Per-pattern option overrides, applied to a copy of the pattern
+ */
+export type PatternOverride = Partial<Pick<OptimizationPattern, 'disabled' | 'priority' | 'risk' | 'preservesFormatting'>>;
+
+/**
+ * Which patterns an optimizer uses, by ID
+ */
+export interface PatternFilters {
+  /**
+   * IDs of patterns that are never used
+   */
+  disabledPatternIds?: string[];
+
+  /**
+   * If non-empty, only patterns with these IDs are used
+   */
+  onlyPatternIds?: string[];
+
+  /**
+   * Option overrides by pattern ID; shared pattern definitions are left untouched
+   */
+  patternOverrides?: Record<string, PatternOverride>;
+}
+
+/**
+ * A single edit made to a text
+ */
+export interface TextEdit {
+  /**
+   * Start offset of the replaced fragment (inclusive)
+   */
+  start: number;
+
+  /**
+   * End offset of the replaced fragment (exclusive)
+   */
+  end: number;
+
+  /**
+   * The fragment that was replaced
+   */
+  original: string;
+
+  /**
+   * The text that replaced it (empty for deletions)
+   */
+  replacement: string;
+}
+
+/**
+ * Information about an applied pattern with metrics
+ */
+export interface AppliedPatternInfo {
+  /**
+   * Pattern ID
+   */
+  id: string;
+
+  /**
+   * Pattern category
+   */
+  category: PatternCategory;
+
+  /**
+   * Pattern description
+   */
+  description: string;
+
+  /**
+   * Pattern priority (if specified)
+   */
+  priority?: number;
+
+  /**
+   * Number of tokens saved by applying this pattern
+   */
+  tokensSaved?: number;
+
+  /**
+   * Net change in tokens (negative means tokens were removed)
+   */
+  tokenChange?: number;
+
+  /**
+   * Edits made by this pattern, sorted by start offset
+   * Offsets refer to the text as it was just before this pattern ran
+   */
+  edits?: TextEdit[];
+}
+
+/**
+ * A discrete edit suggested by the optimizer that can be accepted or rejected on its own
+ */
+export interface OptimizationSuggestion {
+  /**
+   * Suggestion ID, unique within one set of suggestions
+   */
+  id: string;
+
+  /**
+   * ID of the pattern that produced the edit
+   */
+  patternId: string;
+
+  /**
+   * IDs of all patterns that contributed to the edit, in the order they ran
+   */
+  patternIds: string[];
+
+  /**
+   * Category of the pattern that produced the edit
+   */
+  category: PatternCategory;
+
+  /**
+   * Description of the pattern that produced the edit
+   */
+  description: string;
+
+  /**
+   * Start offset of the replaced fragment in the original text (inclusive)
+   */
+  start: number;
+
+  /**
+   * End offset of the replaced fragment in the original text (exclusive)
+   */
+  end: number;
+
+  /**
+   * The fragment that would be replaced
+   */
+  original: string;
+
+  /**
+   * The suggested replacement (empty for deletions)
+   */
+  replacement: string;
+
+  /**
+   * Net change in tokens if only this suggestion is accepted (negative means tokens are saved)
+   */
+  tokenChange: number;
+}
+
+/**
+ * Reasons for reverting a pattern's output
+ * - token-increase: the step's token delta exceeded the revert threshold
+ * - invariant-violation: the step lost a number, entity, URL, negation or other invariant
+ * - directive-lost: the step dropped a MUST/NEVER/IMPORTANT-style directive
+ */
+export type RevertReason = 'token-increase' | 'invariant-violation' | 'directive-lost';
+
+/**
+ * Information about a pattern whose output was reverted
+ */
+export interface RevertedPatternInfo {
+  /**
+   * Pattern ID
+   */
+  id: string;
+
+  /**
+   * Pattern category
+   */
+  category: PatternCategory;
+
+  /**
+   * Pattern description
+   */
+  description: string;
+
+  /**
+   * Pattern priority (if specified)
+   */
+  priority?: number;
+
+  /**
+   * Why the output was reverted
+   */
+  reason: RevertReason;
+
+  /**
+   * Net change in tokens the pattern would have caused (positive means tokens were added)
+   */
+  tokenChange: number;
+}
+
+/**
+ * Kinds of content that must survive optimization
+ */
+export type InvariantType =
+  | 'number'
+  | 'date'
+  | 'url'
+  | 'email'
+  | 'entity'
+  | 'quoted'
+  | 'negation';
+
+/**
+ * A piece of content that must survive optimization
+ */
+export interface InvariantToken {
+  /**
+   * Kind of content
+   */
+  type: InvariantType;
+
+  /**
+   * Normalized value, e.g. "1500 ms" for "1,500ms" or "not" for "don't"
+   */
+  value: string;
+}
+
+/**
+ * How pattern steps that lose invariants are handled
+ * - off: no checking
+ * - flag: keep the step and report the violation
+ * - revert: undo the step and report the violation
+ */
+export type InvariantCheckMode = 'off' | 'flag' | 'revert';
+
+/**
+ * A pattern step that lost invariants
+ */
+export interface InvariantViolation {
+  /**
+   * ID of the pattern whose step lost the invariants
+   */
+  patternId: string;
+
+  /**
+   * Invariants present before the step and missing after it
+   */
+  lost: InvariantToken[];
+
+  /**
+   * Whether the step was kept (flagged) or undone (reverted)
+   */
+  action: 'flagged' | 'reverted';
+}
+
+/**
+ * Kinds of directives
+ * - prohibition: NEVER, CANNOT, DO NOT, MUST NOT...
+ * - requirement: MUST, ALWAYS, ONLY, REQUIRED...
+ * - emphasis: IMPORTANT, CRITICAL, WARNING
+ */
+export type DirectiveKind = 'prohibition' | 'requirement' | 'emphasis';
+
+/**
+ * A modal or prohibitive statement that must survive optimization
+ */
+export interface Directive {
+  /**
+   * The sentence, line or list item containing the directive
+   */
+  text: string;
+
+  /**
+   * Kind of directive
+   */
+  kind: DirectiveKind;
+
+  /**
+   * Keyword that made the statement a directive (lowercased)
+   */
+  keyword: string;
+
+  /**
+   * Normalized content words from the keyword on, used to recognize the directive after rewording
+   */
+  terms: string[];
+}
+
+/**
+ * A pattern step that was reverted because it dropped directives
+ */
+export interface DirectiveViolation {
+  /**
+   * ID of the pattern whose step was reverted
+   */
+  patternId: string;
+
+  /**
+   * Directives that were at risk
+   */
+  lost: Directive[];
+}
+
+/**
+ * Reasons for skipping a pattern that would otherwise have run
+ * - timeout: the pattern exceeded its time budget
+ * - error: the pattern's test, transform or replacement threw
+ * - conflict: a pattern it conflicts with was already applied
+ * - protected-region: the pattern tried to rewrite a protected region
+ */
+export type SkipReason = 'timeout' | 'error' | 'conflict' | 'protected-region';
+
+/**
+ * Information about a pattern that was skipped for a specific reason
+ */
+export interface SkippedPatternInfo {
+  /**
+   * Pattern ID
+   */
+  id: string;
+
+  /**
+   * Why the pattern was skipped
+   */
+  reason: SkipReason;
+
+  /**
+   * Additional detail, such as the error message
+   */
+  detail?: string;
+}
+
+/**
+ * Kinds of protected regions that patterns are never allowed to rewrite
+ */
+export type ProtectedRegionType =
+  | 'fenced-code'
+  | 'indented-code'
+  | 'inline-code'
+  | 'quoted'
+  | 'placeholder'
+  | 'custom';
+
+/**
+ * A span of the original text that was hidden from all patterns
+ */
+export interface ProtectedRegion {
+  /**
+   * Kind of region
+   */
+  type: ProtectedRegionType;
+
+  /**
+   * Start offset in the original text (inclusive)
+   */
+  start: number;
+
+  /**
+   * End offset in the original text (exclusive)
+   */
+  end: number;
+
+  /**
+   * The protected text, restored byte-for-byte after optimization
+   */
+  text: string;
+}
+
+/**
+ * Result of optimization
+ */
+export interface OptimizationResult {
+  /**
+   * Original text
+   */
+  originalText: string;
+
+  /**
+   * Optimized text
+   */
+  optimizedText: string;
+
+  /**
+   * Original token count
+   */
+  originalTokenCount: number;
+
+  /**
+   * Optimized token count
+   */
+  optimizedTokenCount: number;
+
+  /**
+   * Tokens saved
+   */
+  tokensSaved: number;
+
+  /**
+   * Percent saved (0-100)
+   */
+  percentSaved: number;
+
+  /**
+   * Patterns that were applied, with metrics
+   */
+  appliedPatterns: AppliedPatternInfo[];
+
+  /**
+   * Patterns whose output was reverted (they are also listed in skippedPatterns)
+   */
+  revertedPatterns?: RevertedPatternInfo[];
+
+  /**
+   * Patterns that were skipped
+   */
+  skippedPatterns: OptimizationPattern[];
+
+  /**
+   * Pattern steps that lost numbers, entities, URLs, negations or other invariants
+   * (the first such step of each pattern, over all passes)
+   */
+  invariantViolations?: InvariantViolation[];
+
+  /**
+   * Pattern steps reverted because they dropped a directive
+   */
+  directiveViolations?: DirectiveViolation[];
+
+  /**
+   * Why patterns were skipped, for those skipped after being tried
+   * (patterns that simply did not match are not listed)
+   */
+  skipReasons?: SkippedPatternInfo[];
+
+  /**
+   * Regions of the original text that were protected from all patterns
+   * (code, quoted literals, template placeholders and custom protected patterns)
+   */
+  protectedRegions?: ProtectedRegion[];
+
+  /**
+   * Offset mapping between optimizedText and originalText, composed across all pattern steps
+   * Serializes to a plain object via JSON.stringify / toJSON()
+   */
+  sourceMap?: SourceMap;
+
+  /**
+   * Pattern order search details (only when an order search strategy is enabled)
+   */
+  orderSearch?: PatternOrderSearchInfo;
+
+  /**
+   * Per-pass statistics (only when more than one pass is allowed)
+   */
+  multiPass?: MultiPassInfo;
+
+  /**
+   * Estimated input cost per call (only when prices are known for the model)
+   */
+  costEstimate?: CostEstimate;
+
+  /**
+   * Whether the optimized text fits the model's context window
+   * (only when enforceContextWindow is enabled and the model is in the model registry)
+   */
+  contextFit?: ContextFitResult;
+
+  /**
+   * Performance metrics for the optimization
+   */
+  performanceMetrics?: {
+    /**
+     * Time taken for the optimization (in ms)
+     */
+    executionTimeMs: number;
+
+    /**
+     * Tokens processed per second
+     */
+    tokensPerSecond: number;
+  };
+}
+
+/**
+ * Strategies for searching over the order in which patterns are applied
+ * - none: apply patterns in their configured order
+ * - greedy: repeatedly apply the pattern that saves the most tokens next
+ * - beam: bounded beam search over orderings
+ */
+export type PatternOrderStrategy = 'none' | 'greedy' | 'beam';
+
+/**
+ * Details of a pattern order search
+ */
+export interface PatternOrderSearchInfo {
+  /**
+   * Strategy that was used
+   */
+  strategy: PatternOrderStrategy;
+
+  /**
+   * IDs of the patterns in the order that was chosen
+   */
+  order: string[];
+
+  /**
+   * Number of pattern applications tried during the search
+   */
+  iterations: number;
+
+  /**
+   * Whether the search stopped early because of the iteration or time cap
+   */
+  capped: boolean;
+}
+
+/**
+ * Why a multi-pass optimization stopped
+ * - fixed-point: a pass applied no patterns
+ * - cycle: a pass brought the text back to the state after an earlier pass
+ * - max-passes: the pass cap was reached
+ * - token-budget: the text fits within the token budget
+ */
+export type PassStopReason = 'fixed-point' | 'cycle' | 'max-passes' | 'token-budget';
+
+/**
+ * Statistics for a single pass over the pattern list
+ */
+export interface OptimizationPassInfo {
+  /**
+   * Pass number, starting at 1
+   */
+  pass: number;
+
+  /**
+   * IDs of the patterns applied in this pass, in order
+   */
+  appliedPatterns: string[];
+
+  /**
+   * Token count after this pass
+   */
+  tokenCount: number;
+
+  /**
+   * Tokens saved by this pass
+   */
+  tokensSaved: number;
+}
+
+/**
+ * Details of a multi-pass optimization
+ */
+export interface MultiPassInfo {
+  /**
+   * Statistics for each pass that ran
+   */
+  passes: OptimizationPassInfo[];
+
+  /**
+   * Why no further pass was run
+   */
+  stopReason: PassStopReason;
+}
+
+/**
+ * Escalation steps of a token budget optimization, in the order they are tried
+ */
+export type BudgetEscalationStep = AggressivenessLevel;
+
+/**
+ * Result of optimizing text to fit a token budget
+ */
+export interface BudgetOptimizationResult extends OptimizationResult {
+  /**
+   * The token budget that was requested
+   */
+  maxTokens: number;
+
+  /**
+   * Whether the optimized text fits within the budget
+   */
+  budgetMet: boolean;
+
+  /**
+   * Escalation step that was active when optimization stopped
+   * (null if the text already fit without applying any pattern)
+   */
+  escalationStep: BudgetEscalationStep | null;
+
+  /**
+   * Pattern that brought the text within budget, if any
+   */
+  escalationPatternId?: string;
+}
+
+/**
+ * Result of optimizing several texts with the same configuration
+ */
+export interface BatchOptimizationResult {
+  /**
+   * Result of each text, in input order
+   */
+  results: OptimizationResult[];
+
+  /**
+   * Total original token count
+   */
+  originalTokenCount: number;
+
+  /**
+   * Total optimized token count
+   */
+  optimizedTokenCount: number;
+
+  /**
+   * Total tokens saved
+   */
+  tokensSaved: number;
+
+  /**
+   * Percent saved over all texts (0-100)
+   */
+  percentSaved: number;
+
+  /**
+   * Total estimated input cost of one call per text (only when prices are known for the model)
+   */
+  costEstimate?: CostEstimate;
+}
+
+/**
+ * Role of a chat message
+ */
+export type ChatRole = 'system' | 'developer' | 'user' | 'assistant' | 'tool' | 'function' | string;
+
+/**
+ * A part of an array-of-parts chat message content
+ * Only parts of type 'text' are optimized; other parts (images, audio, ...) are left as they are
+ */
+export interface ChatContentPart {
+  type: string;
+  text?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A chat message in the OpenAI chat completions format
+ */
+export interface ChatMessage {
+  role: ChatRole;
+  content: string | ChatContentPart[] | null;
+  name?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * How the messages of a role are optimized: an aggressiveness level or
+ * profile name, or 'none' to leave them untouched
+ */
+export type ChatRolePolicy = AggressivenessLevel | 'none' | string;
+
+/**
+ * Options for optimizing chat messages
+ */
+export interface MessageOptimizationOptions {
+  /**
+   * Policy per role, merged over the defaults
+   * @default { system: 'high', developer: 'high', user: 'low', assistant: 'none', tool: 'none', function: 'none' }
+   */
+  rolePolicies?: Record<ChatRole, ChatRolePolicy>;
+
+  /**
+   * Policy for roles without one
+   * @default 'none'
+   */
+  defaultPolicy?: ChatRolePolicy;
+}
+
+/**
+ * Optimization details of a single chat message
+ */
+export interface MessageOptimizationInfo {
+  /**
+   * Position of the message in the array
+   */
+  index: number;
+
+  /**
+   * Role of the message
+   */
+  role: ChatRole;
+
+  /**
+   * Policy used for the message
+   */
+  policy: ChatRolePolicy;
+
+  /**
+   * Tokens used by the message before optimization, including the chat format overhead
+   */
+  originalTokenCount: number;
+
+  /**
+   * Tokens used by the message after optimization, including the chat format overhead
+   */
+  optimizedTokenCount: number;
+
+  /**
+   * Tokens saved for the message
+   */
+  tokensSaved: number;
+
+  /**
+   * Optimization results of the message's text parts, in order (empty if untouched)
+   */
+  results: OptimizationResult[];
+}
+
+/**
+ * Result of optimizing an array of chat messages
+ */
+export interface MessagesOptimizationResult {
+  /**
+   * The messages as passed in
+   */
+  originalMessages: ChatMessage[];
+
+  /**
+   * The optimized messages; fields other than text content are kept as they are
+   */
+  optimizedMessages: ChatMessage[];
+
+  /**
+   * Tokens used by the whole conversation before optimization, including the chat format overhead
+   */
+  originalTokenCount: number;
+
+  /**
+   * Tokens used by the whole conversation after optimization, including the chat format overhead
+   */
+  optimizedTokenCount: number;
+
+  /**
+   * Total tokens saved
+   */
+  tokensSaved: number;
+
+  /**
+   * Percentage of the conversation's tokens saved
+   */
+  percentSaved: number;
+
+  /**
+   * Details per message, in order
+   */
+  messages: MessageOptimizationInfo[];
+}
+
+/**
+ * Prompt caching marker of an Anthropic content block
+ */
+export interface AnthropicCacheControl {
+  type: 'ephemeral' | string;
+  ttl?: string;
+}
+
+/**
+ * A content block of an Anthropic Messages request
+ * Only blocks of type 'text' are rewritten; tool_use, tool_result, image and
+ * other blocks are left as they are
+ */
+export interface AnthropicContentBlock {
+  type: 'text' | 'tool_use' | 'tool_result' | 'image' | string;
+  text?: string;
+  cache_control?: AnthropicCacheControl | null;
+  [key: string]: unknown;
+}
+
+/**
+ * A message of an Anthropic Messages request
+ */
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+/**
+ * An Anthropic Messages API request
+ */
+export interface AnthropicMessagesRequest {
+  model: string;
+  system?: string | AnthropicContentBlock[];
+  messages: AnthropicMessage[];
+  [key: string]: unknown;
+}
+
+/**
+ * Optimization details of a single text block of an Anthropic request
+ */
+export interface AnthropicTextBlockInfo {
+  /**
+   * Whether the block is part of the system prompt or of a message
+   */
+  location: 'system' | 'messages';
+
+  /**
+   * Position of the message in the messages array (messages only)
+   */
+  messageIndex?: number;
+
+  /**
+   * Position of the block in its content array (0 for string content)
+   */
+  blockIndex: number;
+
+  /**
+   * Role the block belongs to
+   */
+  role: 'system' | 'user' | 'assistant';
+
+  /**
+   * Policy of the role
+   */
+  policy: ChatRolePolicy;
+
+  /**
+   * Whether the block is at or before the last cache_control breakpoint and was left unchanged
+   */
+  cached: boolean;
+
+  /**
+   * Tokens of the block's text before optimization
+   */
+  originalTokenCount: number;
+
+  /**
+   * Tokens of the block's text after optimization
+   */
+  optimizedTokenCount: number;
+
+  /**
+   * Tokens saved for the block
+   */
+  tokensSaved: number;
+
+  /**
+   * Optimization result (absent if the block was left unchanged)
+   */
+  result?: OptimizationResult;
+}
+
+/**
+ * Result of optimizing an Anthropic Messages request
+ */
+export interface AnthropicRequestOptimizationResult {
+  /**
+   * The request as passed in
+   */
+  originalRequest: AnthropicMessagesRequest;
+
+  /**
+   * The optimized request; everything but the rewritten text blocks is kept as it is
+   */
+  optimizedRequest: AnthropicMessagesRequest;
+
+  /**
+   * Tokens of the system prompt and message content before optimization, counted
+   * with the tokenizer of the request's model
+   */
+  originalTokenCount: number;
+
+  /**
+   * Tokens of the system prompt and message content after optimization, counted
+   * with the tokenizer of the request's model
+   */
+  optimizedTokenCount: number;
+
+  /**
+   * Total tokens saved
+   */
+  tokensSaved: number;
+
+  /**
+   * Percentage of the request's tokens saved
+   */
+  percentSaved: number;
+
+  /**
+   * Details per text block, in prompt order
+   */
+  blocks: AnthropicTextBlockInfo[];
+}
+
+/**
+ * An OpenAI tool definition (chat completions `tools` entry)
+ */
+export interface OpenAIToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: JsonSchema;
+    strict?: boolean | null;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * An Anthropic tool definition (Messages API `tools` entry)
+ */
+export interface AnthropicToolDefinition {
+  name: string;
+  description?: string;
+  input_schema: JsonSchema;
+  cache_control?: AnthropicCacheControl | null;
+  [key: string]: unknown;
+}
+
+/**
+ * A tool definition in either the OpenAI or the Anthropic format
+ */
+export type ToolDefinition = OpenAIToolDefinition | AnthropicToolDefinition;
+
+/**
+ * Format of a tool definition
+ */
+export type ToolDefinitionFormat = 'openai' | 'anthropic';
+
+/**
+ * Outcome of checking an optimized tool schema
+ * - passed: the optimized schema is valid and accepts the same values
+ * - reverted: the optimized schema failed the check and the original was kept
+ * - invalid-input: the original schema is not valid and was left unchanged
+ */
+export type ToolSchemaCheck = 'passed' | 'reverted' | 'invalid-input';
+
+/**
+ * Options for optimizing tool definitions
  */
-export type AggressivenessLevel = 'low' | 'medium' | 'high';
+export interface ToolOptimizationOptions {
+  /**
+   * Run the verbosity and filler patterns over the tool and parameter descriptions
+   * @default true
+   */
+  optimizeDescriptions?: boolean;
+
+  /**
+   * Drop schema keywords that do not change what the schema accepts
+   * @default true
+   */
+  minifySchemas?: boolean;
+}
 
 /**
- * Interface for a tokenizer adapter
+ * Optimization details of a single tool definition
  */
-export interface TokenizerAdapter {
+export interface ToolOptimizationInfo {
   /**
-   * Count tokens in text
-   * @param text Text to count tokens in
-   * @returns Token count
-   * @throws {Error} If text is invalid or tokenization fails
+   * Position of the tool in the tools array
    */
-  countTokens(text: string): number;
+  index: number;
 
   /**
-   * Get the model name
-   * @returns Model name
+   * Name of the tool
    */
-  getModel(): string;
+  name: string;
+
+  /**
+   * Format of the tool definition
+   */
+  format: ToolDefinitionFormat;
+
+  /**
+   * Whether the tool is at or before the last cache_control breakpoint and was left unchanged
+   */
+  cached: boolean;
+
+  /**
+   * Tokens of the serialized tool definition before optimization
+   */
+  originalTokenCount: number;
+
+  /**
+   * Tokens of the serialized tool definition after optimization
+   */
+  optimizedTokenCount: number;
+
+  /**
+   * Tokens saved for the tool
+   */
+  tokensSaved: number;
+
+  /**
+   * Number of description fields (tool and schema) that were shortened
+   */
+  descriptionsOptimized: number;
+
+  /**
+   * JSON Pointers of the schema keywords removed by minification
+   */
+  removedKeywords: string[];
+
+  /**
+   * Outcome of the schema check
+   */
+  schemaCheck: ToolSchemaCheck;
+
+  /**
+   * Problems found by the schema check (empty if it passed)
+   */
+  schemaProblems: string[];
 }
 
 /**
- * Pattern effectiveness metrics
- * Used to track how well a pattern performs in real-world optimization
+ * Result of optimizing tool definitions
  */
-export interface PatternEffectivenessMetrics {
+export interface ToolsOptimizationResult {
   /**
-   * Total number of times this pattern has been applied
+   * The tools as passed in
    */
-  timesApplied: number;
+  originalTools: ToolDefinition[];
 
   /**
-   * Total tokens saved across all applications
+   * The optimized tools; everything but descriptions and schemas is kept as it is
    */
-  totalTokensSaved: number;
+  optimizedTools: ToolDefinition[];
 
   /**
-   * Average tokens saved per application
+   * Tokens of the serialized tool definitions before optimization
    */
-  avgTokensSaved: number;
+  originalTokenCount: number;
 
   /**
-   * Number of times the pattern was skipped
+   * Tokens of the serialized tool definitions after optimization
    */
-  timesSkipped: number;
+  optimizedTokenCount: number;
 
   /**
-   * Success rate (0-1) of pattern application
-   * (timesApplied / (timesApplied + timesSkipped))
+   * Total tokens saved
    */
-  successRate: number;
+  tokensSaved: number;
 
   /**
-   * Last time the pattern was applied (timestamp)
+   * Percentage of the tools' tokens saved
    */
-  lastApplied?: number;
+  percentSaved: number;
+
+  /**
+   * Details per tool, in order
+   */
+  tools: ToolOptimizationInfo[];
 }
 
 /**
- * Optimization pattern definition
+ * How a few-shot example is marked up
+ * - xml: an <example> element
+ * - markdown: a section whose heading starts with "Example" or "Sample", up to any closing instruction
+ * - input-output: an Input line followed by an Output line
  */
-export interface OptimizationPattern {
+export type ExampleFormat = 'xml' | 'markdown' | 'input-output';
+
+/**
+ * Why a few-shot example was dropped
+ * - duplicate: it is nearly identical to an example kept earlier
+ * - budget: it did not fit within the example token budget
+ */
+export type ExampleDropReason = 'duplicate' | 'budget';
+
+/**
+ * Options for pruning few-shot examples
+ */
+export interface ExamplePruningOptions {
   /**
-   * Unique identifier for the pattern
+   * Maximum number of tokens all kept examples may use together
+   * (no limit if not set, only near-duplicates are dropped)
    */
-  id: string;
+  maxExampleTokens?: number;
 
   /**
-   * Category of the pattern
+   * Shingle similarity (0-1) at or above which an example is a near-duplicate of a kept one
+   * @default 0.8
    */
-  category: PatternCategory;
+  similarityThreshold?: number;
 
   /**
-   * Description of what the pattern does
+   * Number of words per shingle when comparing examples
+   * @default 3
    */
-  description: string;
+  shingleSize?: number;
+}
 
+/**
+ * Details of a single few-shot example
+ */
+export interface ExampleInfo {
   /**
-   * Example of the pattern in action
+   * Position of the example among the detected examples
    */
-  example?: {
-    before: string;
-    after: string;
-  };
+  index: number;
 
   /**
-   * Whether the pattern is disabled
+   * How the example is marked up
    */
-  disabled?: boolean;
+  format: ExampleFormat;
 
   /**
-   * Whether the pattern preserves formatting
+   * Start offset of the example in the original text
    */
-  preservesFormatting?: boolean;
+  start: number;
 
   /**
-   * Priority of the pattern (higher = applied first)
-   * Defaults to 0 if not specified
+   * End offset of the example in the original text (exclusive)
    */
-  priority?: number;
+  end: number;
 
   /**
-   * Effectiveness metrics for this pattern
-   * Updated during optimization to track performance
+   * Text of the example
    */
-  effectivenessMetrics?: PatternEffectivenessMetrics;
+  text: string;
 
   /**
-   * Function to test if the pattern applies to text
-   * @param text The text to test
-   * @returns true if the pattern should be applied, false otherwise
+   * Tokens of the example
    */
-  test?: (text: string) => boolean;
+  tokenCount: number;
 
   /**
-   * Function to transform text
-   * @param text The text to transform
-   * @returns The transformed text
+   * Whether the example was kept
    */
-  transform?: (text: string) => string;
+  kept: boolean;
 
   /**
-   * Regular expression or string to find
-   * Must be provided if transform is not specified
+   * Why the example was dropped (dropped examples only)
    */
-  find?: RegExp | string;
+  dropReason?: ExampleDropReason;
 
   /**
-   * String or function to replace with
-   * Must be provided if find is specified
-   * For function replacers, the signature follows the JavaScript replace() method's replacer function
+   * Index of the kept example this one duplicates (duplicates only)
    */
-  replace?: string | ((substring: string, ...args: any[]) => string);
+  duplicateOf?: number;
+
+  /**
+   * Similarity to that kept example (duplicates only)
+   */
+  similarity?: number;
 }
 
 /**
- * Information about an applied pattern with metrics
+ * Result of pruning the few-shot examples of a prompt
  */
-export interface AppliedPatternInfo {
+export interface ExamplePruningResult {
   /**
-   * Pattern ID
+   * The text as passed in
    */
-  id: string;
+  originalText: string;
 
   /**
-   * Pattern category
+   * The text without the dropped examples
    */
-  category: PatternCategory;
+  prunedText: string;
 
   /**
-   * Pattern description
+   * Tokens of the original text
    */
-  description: string;
+  originalTokenCount: number;
 
   /**
-   * Pattern priority (if specified)
+   * Tokens of the pruned text
    */
-  priority?: number;
+  prunedTokenCount: number;
 
   /**
-   * Number of tokens saved by applying this pattern
+   * Tokens saved
    */
-  tokensSaved?: number;
+  tokensSaved: number;
 
   /**
-   * Net change in tokens (negative means tokens were removed)
+   * Tokens of the kept examples
    */
-  tokenChange?: number;
+  keptExampleTokens: number;
+
+  /**
+   * All detected examples, in order
+   */
+  examples: ExampleInfo[];
+
+  /**
+   * The dropped examples, in order
+   */
+  droppedExamples: ExampleInfo[];
 }
 
 /**
- * Result of optimization
+ * Options for compacting a conversation history
  */
-export interface OptimizationResult {
+export interface HistoryCompactionOptions {
   /**
-   * Original text
+   * Token count the compacted conversation should fit within, including the chat format overhead
    */
-  originalText: string;
+  targetTokens: number;
 
   /**
-   * Optimized text
+   * Number of most recent turns kept verbatim; a turn starts at a user message
+   * @default 4
    */
-  optimizedText: string;
+  keepLastTurns?: number;
 
   /**
-   * Original token count
+   * Policies applied to older turns, in order, until the target is met
+   * @default ['low', 'medium', 'high', 'max']
+   */
+  escalation?: ChatRolePolicy[];
+
+  /**
+   * Role of the message holding the digest of collapsed turns
+   * @default 'system'
+   */
+  digestRole?: ChatRole;
+}
+
+/**
+ * What compaction had to do to reach the target
+ * - none: the conversation already fit
+ * - patterns: optimizing older turns was enough
+ * - digest: the oldest turns were collapsed into a digest
+ */
+export type HistoryCompactionStage = 'none' | 'patterns' | 'digest';
+
+/**
+ * Why a sentence was taken into the digest
+ * - question: it asks something
+ * - decision: it states a decision, agreement or plan
+ * - key: it carries numbers, dates, names or other facts, or opens its turn
+ */
+export type HistoryDigestKind = 'question' | 'decision' | 'key';
+
+/**
+ * A sentence of the digest of collapsed turns
+ */
+export interface HistoryDigestEntry {
+  /**
+   * Position of the message the sentence comes from in the original messages
+   */
+  messageIndex: number;
+
+  /**
+   * Role of that message
+   */
+  role: ChatRole;
+
+  /**
+   * Why the sentence was taken
+   */
+  kind: HistoryDigestKind;
+
+  /**
+   * The sentence
+   */
+  text: string;
+}
+
+/**
+ * Result of compacting a conversation history
+ */
+export interface HistoryCompactionResult {
+  /**
+   * The messages as passed in
+   */
+  originalMessages: ChatMessage[];
+
+  /**
+   * The compacted messages
+   */
+  compactedMessages: ChatMessage[];
+
+  /**
+   * Tokens of the original conversation, including the chat format overhead
    */
   originalTokenCount: number;
 
   /**
-   * Optimized token count
+   * Tokens of the compacted conversation, including the chat format overhead
    */
-  optimizedTokenCount: number;
+  compactedTokenCount: number;
 
   /**
    * Tokens saved
@@ -244,34 +1894,34 @@ export interface OptimizationResult {
   tokensSaved: number;
 
   /**
-   * Percent saved (0-100)
+   * The token target
    */
-  percentSaved: number;
+  targetTokens: number;
 
   /**
-   * Patterns that were applied, with metrics
+   * Whether the compacted conversation fits within the target
    */
-  appliedPatterns: AppliedPatternInfo[];
+  targetMet: boolean;
 
   /**
-   * Patterns that were skipped
+   * What compaction had to do to reach the target
    */
-  skippedPatterns: OptimizationPattern[];
+  stage: HistoryCompactionStage;
 
   /**
-   * Performance metrics for the optimization
+   * Last policy applied to older turns (null if none was applied)
    */
-  performanceMetrics?: {
-    /**
-     * Time taken for the optimization (in ms)
-     */
-    executionTimeMs: number;
+  policy: ChatRolePolicy | null;
 
-    /**
-     * Tokens processed per second
-     */
-    tokensPerSecond: number;
-  };
+  /**
+   * Number of messages collapsed into the digest
+   */
+  collapsedMessageCount: number;
+
+  /**
+   * Sentences of the digest, in conversation order (empty without a digest)
+   */
+  digest: HistoryDigestEntry[];
 }
 
 /**
@@ -289,9 +1939,11 @@ export interface OptimizerConfig {
    * - low: Only apply patterns that definitely improve quality
    * - medium: Balance between token efficiency and quality
    * - high: Maximize token efficiency, possibly at the expense of quality
+   * - max: Everything in high plus rewrites that trade nuance for tokens
+   * - any other name: a profile registered with registerAggressivenessProfile
    * @default 'medium'
    */
-  aggressiveness: AggressivenessLevel;
+  aggressiveness: AggressivenessLevel | string;
 
   /**
    * Whether to preserve formatting (whitespace, indentation, etc.)
@@ -323,6 +1975,84 @@ export interface OptimizerConfig {
    * @default false
    */
   includePerformanceMetrics?: boolean;
+
+  /**
+   * Whether to protect code, quoted literals and template placeholders
+   * from being rewritten by any pattern
+   * @default true
+   */
+  protectRegions?: boolean;
+
+  /**
+   * Additional regular expressions whose matches must never be rewritten
+   * @default []
+   */
+  protectedPatterns?: RegExp[];
+
+  /**
+   * Revert any pattern step whose token delta (tokens after minus tokens before)
+   * exceeds this value; undefined keeps every step
+   * @default 0
+   */
+  revertThreshold?: number;
+
+  /**
+   * Maximum number of passes over the pattern list; the list is rerun until
+   * the text stops changing, starts cycling or the cap is reached
+   * @default 1
+   */
+  maxPasses?: number;
+
+  /**
+   * Maximum time a single pattern application may run (in ms); patterns
+   * that exceed it are skipped with reason 'timeout'
+   * @default 1000
+   */
+  patternTimeBudgetMs?: number;
+
+  /**
+   * Whether to flag or revert pattern steps that lose numbers, units, dates,
+   * URLs, emails, capitalized entities, quoted strings or negations
+   * @default 'flag'
+   */
+  invariantCheck?: InvariantCheckMode;
+
+  /**
+   * Revert any pattern step that drops a MUST/NEVER/IMPORTANT-style directive
+   * @default true
+   */
+  preserveDirectives?: boolean;
+
+  /**
+   * IDs of patterns that are never used, whatever their category
+   * @default []
+   */
+  disabledPatternIds?: string[];
+
+  /**
+   * If non-empty, only patterns with these IDs are used
+   * @default []
+   */
+  onlyPatternIds?: string[];
+
+  /**
+   * Option overrides (disabled, priority, risk, preservesFormatting) by pattern ID
+   * @default {}
+   */
+  patternOverrides?: Record<string, PatternOverride>;
+
+  /**
+   * Prices to estimate costs with, e.g. negotiated rates; overrides the
+   * model registry's prices for the configured model
+   */
+  pricing?: ModelPricing;
+
+  /**
+   * Check whether optimized text fits the model's context window, with
+   * options for the check; results then report the fit in contextFit
+   * @default false
+   */
+  enforceContextWindow?: boolean | ContextFitOptions;
 }
 
 /**
@@ -335,7 +2065,17 @@ export const DEFAULT_CONFIG: OptimizerConfig = {
   enabledCategories: ['all'],
   customPatterns: [],
   trackPatternEffectiveness: true,
-  includePerformanceMetrics: false
+  includePerformanceMetrics: false,
+  protectRegions: true,
+  protectedPatterns: [],
+  revertThreshold: 0,
+  maxPasses: 1,
+  patternTimeBudgetMs: 1000,
+  invariantCheck: 'flag',
+  preserveDirectives: true,
+  disabledPatternIds: [],
+  onlyPatternIds: [],
+  patternOverrides: {}
 };
 
 // Re-export types from dual-optimizer
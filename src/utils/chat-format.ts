@@ -0,0 +1,77 @@
+/**
+ * Chat format token accounting
+ *
+ * Chat models wrap every message in special tokens that mark its start, role
+ * and end, and prime the reply with a few more. These utilities count a
+ * conversation the way the OpenAI chat completions format bills it, so that
+ * savings can be reported against what a request actually costs.
+ */
+
+import { ChatContentPart, ChatMessage } from '../types';
+
+/**
+ * Tokens added to every message by the chat format
+ */
+export const CHAT_MESSAGE_OVERHEAD_TOKENS = 3;
+
+/**
+ * Tokens added to a message that has a name
+ */
+export const CHAT_NAME_OVERHEAD_TOKENS = 1;
+
+/**
+ * Tokens that prime the assistant's reply, added once per conversation
+ */
+export const CHAT_REPLY_PRIMING_TOKENS = 3;
+
+/**
+ * Check whether a content part is a text part
+ *
+ * @param part - Content part to check
+ * @returns True for parts of type 'text' with a string text
+ */
+export function isTextPart(part: ChatContentPart): boolean {
+  return part.type === 'text' && typeof part.text === 'string';
+}
+
+/**
+ * Count the tokens of a single chat message, including the chat format overhead
+ *
+ * Only text content is counted; non-text parts such as images are billed
+ * separately by the provider and are not included.
+ *
+ * @param message - Message to count
+ * @param countTokens - Function counting the tokens of a text
+ * @returns Token count of the message
+ */
+export function countMessageTokens(message: ChatMessage, countTokens: (text: string) => number): number {
+  let tokens = CHAT_MESSAGE_OVERHEAD_TOKENS + countTokens(message.role);
+
+  if (typeof message.content === 'string') {
+    tokens += countTokens(message.content);
+  } else if (Array.isArray(message.content)) {
+    message.content
+      .filter(isTextPart)
+      .forEach(part => tokens += countTokens(part.text as string));
+  }
+
+  if (typeof message.name === 'string') {
+    tokens += CHAT_NAME_OVERHEAD_TOKENS + countTokens(message.name);
+  }
+
+  return tokens;
+}
+
+/**
+ * Count the tokens of a conversation, including the chat format overhead
+ *
+ * @param messages - Messages to count
+ * @param countTokens - Function counting the tokens of a text
+ * @returns Token count of all messages plus the reply priming
+ */
+export function countConversationTokens(messages: ChatMessage[], countTokens: (text: string) => number): number {
+  return messages.reduce(
+    (total, message) => total + countMessageTokens(message, countTokens),
+    CHAT_REPLY_PRIMING_TOKENS
+  );
+}
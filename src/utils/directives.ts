@@ -0,0 +1,127 @@
+/**
+ * Directive inventory
+ *
+ * System prompts rely on hard constraints such as "You CANNOT process refunds"
+ * or "NEVER share account data". These utilities find such modal and
+ * prohibitive statements so that an optimization step which drops one, or
+ * merges it into something that no longer says the same thing, can be caught.
+ */
+
+import { Directive, DirectiveKind } from '../types';
+
+// Keywords per kind, checked in order so "must not" is a prohibition rather than a requirement
+const DIRECTIVE_KEYWORDS: Array<{ kind: DirectiveKind; regex: RegExp }> = [
+  {
+    kind: 'prohibition',
+    regex: /\b(?:never|cannot|can['’]t|must\s+not|mustn['’]t|do\s+not|don['’]t|does\s+not|doesn['’]t|should\s+not|shouldn['’]t|shall\s+not|may\s+not|not\s+allowed|forbidden|prohibited|under\s+no\s+circumstances)\b/i
+  },
+  {
+    kind: 'requirement',
+    regex: /\b(?:must|always|shall|required|need\s+to|have\s+to|has\s+to|only)\b/i
+  },
+  {
+    kind: 'emphasis',
+    regex: /\b(?:IMPORTANT|CRITICAL|WARNING)\b/
+  }
+];
+
+// Words that carry no meaning of their own when comparing directives
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'as',
+  'is', 'are', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'you', 'your', 'we', 'our',
+  'they', 'their', 'any', 'all', 'under', 'circumstances', 'please', 'very', 'really',
+  'never', 'cannot', 'can', 'must', 'not', 'do', 'does', 'don', 'doesn', 'should', 'shouldn', 'shall',
+  'may', 'allowed', 'forbidden', 'prohibited', 'always', 'required', 'need', 'have', 'has', 'only',
+  'mustn', 't', 'no', 'important', 'critical', 'warning'
+]);
+
+// Share of a directive's terms that must reappear for it to count as preserved
+const MIN_TERM_COVERAGE = 0.6;
+
+/**
+ * Extract the directives of a text
+ *
+ * Text is split into sentences, lines and list items; each one containing a
+ * prohibitive ("never", "cannot", "do not"), obligatory ("must", "always",
+ * "only") or emphatic ("IMPORTANT") keyword is a directive.
+ *
+ * @param text - Text to extract directives from
+ * @returns Directives in order of appearance
+ */
+export function extractDirectives(text: string): Directive[] {
+  const directives: Directive[] = [];
+
+  for (const segment of splitSegments(text)) {
+    const keyword = DIRECTIVE_KEYWORDS.find(({ regex }) => regex.test(segment));
+    if (!keyword) continue;
+
+    // What follows the keyword is what the directive demands; lead-in wording may change freely
+    const match = keyword.regex.exec(segment)!;
+    const demanded = extractTerms(segment.slice(match.index));
+
+    directives.push({
+      text: segment,
+      kind: keyword.kind,
+      keyword: match[0].toLowerCase().replace(/\s+/g, ' '),
+      terms: demanded.length > 0 ? demanded : extractTerms(segment)
+    });
+  }
+
+  return directives;
+}
+
+/**
+ * Find the directives that a rewrite lost
+ *
+ * A directive is preserved if some statement of the rewritten text still has
+ * a keyword of the same kind (any statement at all, for emphasis) and most of
+ * its terms, so rewording and merging directives into a list are both fine.
+ *
+ * @param before - Directives of the text before the rewrite
+ * @param after - Text after the rewrite
+ * @returns Directives no longer present in any form
+ */
+export function findLostDirectives(before: Directive[], after: string): Directive[] {
+  if (before.length === 0) return [];
+
+  const segments = splitSegments(after).map(segment => ({ segment, terms: new Set(extractTerms(segment)) }));
+
+  return before.filter(directive => {
+    const keyword = DIRECTIVE_KEYWORDS.find(({ kind }) => kind === directive.kind)!;
+
+    return !segments.some(({ segment, terms }) =>
+      (directive.kind === 'emphasis' || keyword.regex.test(segment)) &&
+      coverage(directive.terms, terms) >= MIN_TERM_COVERAGE);
+  });
+}
+
+/**
+ * Split text into sentences, lines and list items
+ * @private
+ */
+function splitSegments(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+|\s+(?=•\s)/)
+    .map(segment => segment.replace(/^[\s•*\-\d.)]+/, '').trim())
+    .filter(segment => segment.length > 0);
+}
+
+/**
+ * Extract the normalized content words of a segment
+ * @private
+ */
+function extractTerms(segment: string): string[] {
+  const words = segment.toLowerCase().match(/[a-z0-9]+/g) || [];
+  return Array.from(new Set(words
+    .filter(word => !STOP_WORDS.has(word))
+    .map(word => word.length > 3 ? word.replace(/(?:ing|ed|es|s)$/, '') : word)));
+}
+
+/**
+ * Share of a directive's terms found in a set of terms
+ * @private
+ */
+function coverage(terms: string[], available: Set<string>): number {
+  if (terms.length === 0) return 1;
+  return terms.filter(term => available.has(term)).length / terms.length;
+}
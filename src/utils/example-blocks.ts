@@ -0,0 +1,214 @@
+/**
+ * Few-shot example detection
+ *
+ * Prompts often carry many few-shot examples, several of which teach the
+ * same thing. These utilities find the example blocks of a prompt (XML
+ * <example> tags, markdown "Example" sections and Input/Output pairs) and
+ * measure how similar two examples are, so redundant ones can be dropped.
+ */
+
+import { ExampleFormat } from '../types';
+
+const XML_EXAMPLE_REGEX = /<example(?:\s[^>]*)?>[\s\S]*?<\/example>/gi;
+const MARKDOWN_HEADING_REGEX = /^(#{1,6})[ \t]+(.*)$/gm;
+const MARKDOWN_EXAMPLE_TITLE_REGEX = /^(?:Example|Sample)(?!s)\b/i;
+const INPUT_LINE_REGEX = /^[ \t]*(?:\*\*)?Input(?:\*\*)?[ \t]*:/i;
+const OUTPUT_LINE_REGEX = /^[ \t]*(?:\*\*)?Output(?:\*\*)?[ \t]*:/i;
+const CODE_FENCE_REGEX = /^[ \t]*(?:```|~~~)/;
+// Paragraphs that read as example content: subheadings, labelled lines ("Review: ..."), code,
+// quotes, lists, tags or indented text
+const EXAMPLE_PARAGRAPH_REGEX =
+  /^(?:[ \t]{4}|\t|[ \t]*(?:#{1,6}[ \t]|```|~~~|>|[-*+][ \t]|\d+[.)][ \t]|<[A-Za-z]|(?:\*\*)?\w[\w-]*(?:[ \t][\w-]+){0,2}(?:\*\*)?[ \t]*:))/;
+
+/**
+ * An example block found in a text
+ */
+export interface ExampleBlock {
+  /**
+   * How the example is marked up
+   */
+  format: ExampleFormat;
+
+  /**
+   * Start offset of the block in the text
+   */
+  start: number;
+
+  /**
+   * End offset of the block in the text (exclusive)
+   */
+  end: number;
+
+  /**
+   * Text of the block, including its tags or heading
+   */
+  text: string;
+}
+
+/**
+ * Find the few-shot example blocks of a text
+ *
+ * XML <example> elements are found first, then markdown sections whose
+ * heading starts with "Example" or "Sample" (up to the next heading of the
+ * same or a higher level, or up to the first paragraph after the example's
+ * content that is plain prose, such as a closing instruction), then
+ * Input/Output pairs (an Input line followed by
+ * an Output line, up to the next blank line or Input line). Blocks inside an
+ * already found block are not reported again.
+ *
+ * @param text - Text to search
+ * @returns Example blocks in order of appearance
+ */
+export function detectExampleBlocks(text: string): ExampleBlock[] {
+  const blocks: ExampleBlock[] = [];
+  const overlaps = (start: number, end: number) =>
+    blocks.some(block => start < block.end && end > block.start);
+  const add = (format: ExampleFormat, start: number, end: number) => {
+    // Trailing whitespace separates blocks and is not part of them
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (end > start && !overlaps(start, end)) {
+      blocks.push({ format, start, end, text: text.slice(start, end) });
+    }
+  };
+
+  let match: RegExpExecArray | null;
+  XML_EXAMPLE_REGEX.lastIndex = 0;
+  while ((match = XML_EXAMPLE_REGEX.exec(text)) !== null) {
+    add('xml', match.index, match.index + match[0].length);
+  }
+
+  const headings: Array<{ level: number; title: string; start: number }> = [];
+  MARKDOWN_HEADING_REGEX.lastIndex = 0;
+  while ((match = MARKDOWN_HEADING_REGEX.exec(text)) !== null) {
+    headings.push({ level: match[1].length, title: match[2].trim(), start: match.index });
+  }
+  headings.forEach((heading, index) => {
+    if (!MARKDOWN_EXAMPLE_TITLE_REGEX.test(heading.title)) return;
+    const next = headings.slice(index + 1).find(other => other.level <= heading.level);
+    add('markdown', heading.start, findMarkdownExampleEnd(text, heading.start, next ? next.start : text.length));
+  });
+
+  findInputOutputPairs(text).forEach(([start, end]) => add('input-output', start, end));
+
+  return blocks.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Measure how similar two texts are by the overlap of their word shingles
+ *
+ * Texts are lowercased and split into words; the similarity is the Jaccard
+ * index of their sets of consecutive word sequences (shingles).
+ *
+ * @param a - First text
+ * @param b - Second text
+ * @param shingleSize - Number of words per shingle
+ * @returns Similarity between 0 (nothing shared) and 1 (same shingles)
+ */
+export function shingleSimilarity(a: string, b: string, shingleSize: number = 3): number {
+  const shinglesA = getShingles(a, shingleSize);
+  const shinglesB = getShingles(b, shingleSize);
+  if (shinglesA.size === 0 && shinglesB.size === 0) return 1;
+
+  let shared = 0;
+  shinglesA.forEach(shingle => {
+    if (shinglesB.has(shingle)) shared++;
+  });
+  return shared / (shinglesA.size + shinglesB.size - shared);
+}
+
+/**
+ * Get the word shingles of a text; texts shorter than a shingle are one shingle
+ * @private
+ */
+function getShingles(text: string, shingleSize: number): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+  const shingles = new Set<string>();
+  if (words.length === 0) return shingles;
+
+  const size = Math.max(1, Math.min(shingleSize, words.length));
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.add(words.slice(i, i + size).join(' '));
+  }
+  return shingles;
+}
+
+/**
+ * Find the end of a markdown example section
+ *
+ * The section's first paragraph is always part of the example; later
+ * paragraphs are too while they look like example content. Blank lines inside
+ * code fences do not separate paragraphs.
+ * @private
+ */
+function findMarkdownExampleEnd(text: string, start: number, sectionEnd: number): number {
+  const lines = text.slice(start, sectionEnd).split('\n');
+  let offset = lines[0].length + 1;
+  let paragraphs = 0;
+  let afterBlankLine = true;
+  let inFence = false;
+
+  for (const line of lines.slice(1)) {
+    if (!inFence && line.trim() === '') {
+      afterBlankLine = true;
+    } else {
+      if (!inFence && afterBlankLine) {
+        if (paragraphs > 0 && !EXAMPLE_PARAGRAPH_REGEX.test(line)) {
+          return start + offset;
+        }
+        paragraphs++;
+      }
+      afterBlankLine = false;
+      if (CODE_FENCE_REGEX.test(line)) inFence = !inFence;
+    }
+    offset += line.length + 1;
+  }
+  return sectionEnd;
+}
+
+/**
+ * Find Input/Output pairs as [start, end) offset ranges
+ * @private
+ */
+function findInputOutputPairs(text: string): Array<[number, number]> {
+  const lines: Array<{ text: string; start: number }> = [];
+  let offset = 0;
+  text.split('\n').forEach(line => {
+    lines.push({ text: line, start: offset });
+    offset += line.length + 1;
+  });
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (!INPUT_LINE_REGEX.test(lines[i].text)) {
+      i++;
+      continue;
+    }
+
+    // The input may span several lines before its Output line
+    let j = i + 1;
+    while (j < lines.length && lines[j].text.trim() !== '' &&
+      !INPUT_LINE_REGEX.test(lines[j].text) && !OUTPUT_LINE_REGEX.test(lines[j].text)) {
+      j++;
+    }
+    // Allow one blank line between the Input and Output lines
+    if (j < lines.length && lines[j].text.trim() === '' && j + 1 < lines.length &&
+      OUTPUT_LINE_REGEX.test(lines[j + 1].text)) {
+      j++;
+    }
+    if (j >= lines.length || !OUTPUT_LINE_REGEX.test(lines[j].text)) {
+      i = j;
+      continue;
+    }
+
+    let k = j + 1;
+    while (k < lines.length && lines[k].text.trim() !== '' && !INPUT_LINE_REGEX.test(lines[k].text)) {
+      k++;
+    }
+    const last = lines[k - 1];
+    pairs.push([lines[i].start, last.start + last.text.length]);
+    i = k;
+  }
+
+  return pairs;
+}
@@ -1,9 +1,76 @@
 import { TokenCache } from './token-cache';
 import { isBrowser, isNode, getEnvironmentInfo } from './environment';
+import {
+  MaskedText,
+  detectProtectedRegions,
+  maskProtectedRegions,
+  restoreProtectedRegions,
+  hasIntactSentinels,
+  restoreEdits
+} from './protected-regions';
+import { diffText, applyEdits } from './text-diff';
+import { detectCatastrophicBacktracking } from './regex-safety';
+import { extractInvariants, findLostInvariants } from './invariants';
+import { extractDirectives, findLostDirectives } from './directives';
+import {
+  CHAT_MESSAGE_OVERHEAD_TOKENS,
+  CHAT_NAME_OVERHEAD_TOKENS,
+  CHAT_REPLY_PRIMING_TOKENS,
+  isTextPart,
+  countMessageTokens,
+  countConversationTokens
+} from './chat-format';
+import {
+  JsonSchema,
+  MinifiedJsonSchema,
+  JsonSchemaMinifyOptions,
+  minifyJsonSchema,
+  validateJsonSchema,
+  schemasStructurallyEqual,
+  mapSchemaDescriptions
+} from './json-schema';
+import { ExampleBlock, detectExampleBlocks, shingleSimilarity } from './example-blocks';
+import { TextSection, splitTextSections } from './text-sections';
+import { SourceMap, SourceMapRun, SourceMapRange, SerializedSourceMap } from './source-map';
 
 export { 
   TokenCache,
   isBrowser,
   isNode,
-  getEnvironmentInfo
+  getEnvironmentInfo,
+  MaskedText,
+  detectProtectedRegions,
+  maskProtectedRegions,
+  restoreProtectedRegions,
+  hasIntactSentinels,
+  restoreEdits,
+  diffText,
+  applyEdits,
+  SourceMap,
+  SourceMapRun,
+  SourceMapRange,
+  SerializedSourceMap,
+  detectCatastrophicBacktracking,
+  extractInvariants,
+  findLostInvariants,
+  extractDirectives,
+  findLostDirectives,
+  CHAT_MESSAGE_OVERHEAD_TOKENS,
+  CHAT_NAME_OVERHEAD_TOKENS,
+  CHAT_REPLY_PRIMING_TOKENS,
+  isTextPart,
+  countMessageTokens,
+  countConversationTokens,
+  JsonSchema,
+  MinifiedJsonSchema,
+  JsonSchemaMinifyOptions,
+  minifyJsonSchema,
+  validateJsonSchema,
+  schemasStructurallyEqual,
+  mapSchemaDescriptions,
+  ExampleBlock,
+  detectExampleBlocks,
+  shingleSimilarity,
+  TextSection,
+  splitTextSections
 };
@@ -0,0 +1,141 @@
+/**
+ * Semantic invariant extraction
+ *
+ * Optimization may reword a prompt but must not change what it says. These
+ * utilities extract the content that has to survive any rewrite (numbers and
+ * their units, dates, URLs, emails, capitalized entities, quoted strings and
+ * negations) so that a pattern step which loses any of it can be detected.
+ */
+
+import { InvariantToken, InvariantType } from '../types';
+
+const URL_REGEX = /\b(?:https?:\/\/|www\.)[^\s<>"'`]*[^\s<>"'`.,;:!?)\]]/gi;
+const EMAIL_REGEX = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g;
+
+const MONTH = '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|' +
+  'Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+const DATE_REGEX = new RegExp(
+  [
+    '\\b\\d{4}-\\d{2}-\\d{2}\\b',
+    '\\b\\d{1,2}/\\d{1,2}/\\d{2,4}\\b',
+    `\\b${MONTH}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?\\b`,
+    `\\b\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH}\\.?(?:,?\\s+\\d{4})?\\b`
+  ].join('|'),
+  'g'
+);
+
+// Units recognized directly after a number, so "5 GB" and "5GB" both become "5 gb"
+const UNITS = [
+  '%', 'percent', 'ms', 's', 'secs?', 'seconds?', 'mins?', 'minutes?', 'h', 'hrs?', 'hours?',
+  'days?', 'weeks?', 'months?', 'years?', 'kb', 'mb', 'gb', 'tb', 'k', 'm', 'bn', 'km', 'kg',
+  'g', 'mg', 'lbs?', 'cm', 'mm', 'px', 'usd', 'eur', 'gbp', 'x', 'tokens?'
+];
+const NUMBER_REGEX = new RegExp(
+  `(?<![\\w.])[$€£¥]?\\d+(?:,\\d{3})*(?:\\.\\d+)?(?:\\s?(?:%|(?:${UNITS.slice(1).join('|')})\\b))?`,
+  'gi'
+);
+
+const NEGATION_REGEX = /\b(?:not|no|never|none|nobody|nothing|neither|nor|without|cannot)\b|n['’]t\b/gi;
+const QUOTED_REGEX = /"([^"\n]+)"|“([^”\n]+)”|(?<!\w)'([^'\n]+)'(?!\w)/g;
+const CAPITALIZED_REGEX = /\b[A-Z][\w'’-]*/g;
+
+// Characters skipped when deciding whether a word starts a sentence or list item
+const LEADING_CHARS = new Set([' ', '\t', '"', '“', "'", '(', '[', '*', '•', '-', '#', '>']);
+const SENTENCE_END_CHARS = new Set(['.', '!', '?', ':', ';', '\n']);
+
+/**
+ * Extract the invariants of a text
+ *
+ * Values are normalized so that harmless rewording does not count as a loss:
+ * thousands separators are dropped, units are lowercased and "don't",
+ * "cannot" and "not" are all the negation "not". Capitalized words count as
+ * entities unless they start a sentence or list item.
+ *
+ * @param text - Text to extract invariants from
+ * @returns Invariants in order of type, then appearance
+ */
+export function extractInvariants(text: string): InvariantToken[] {
+  const tokens: InvariantToken[] = [];
+  const add = (type: InvariantType, value: string) => tokens.push({ type, value });
+
+  // URLs, emails, dates and numbers are blanked out once found so their parts are not counted again
+  let remaining = text;
+  const take = (regex: RegExp, type: InvariantType, normalize: (match: string) => string) => {
+    remaining = remaining.replace(regex, match => {
+      add(type, normalize(match));
+      return ' '.repeat(match.length);
+    });
+  };
+
+  take(URL_REGEX, 'url', match => match);
+  take(EMAIL_REGEX, 'email', match => match.toLowerCase());
+  take(DATE_REGEX, 'date', match => match.replace(/\s+/g, ' '));
+
+  take(NUMBER_REGEX, 'number', match => {
+    const [, currency, digits, unit] = /^([$€£¥]?)([\d,.]+)\s?(.*)$/.exec(match)!;
+    return `${currency}${digits.replace(/,/g, '')}${unit ? ` ${unit.toLowerCase()}` : ''}`;
+  });
+
+  let match: RegExpExecArray | null;
+
+  CAPITALIZED_REGEX.lastIndex = 0;
+  while ((match = CAPITALIZED_REGEX.exec(remaining)) !== null) {
+    const word = match[0];
+    if (word === 'I' || /^I['’]/.test(word) || startsSentence(remaining, match.index)) continue;
+    add('entity', word.replace(/['’]s$/, ''));
+  }
+
+  QUOTED_REGEX.lastIndex = 0;
+  while ((match = QUOTED_REGEX.exec(text)) !== null) {
+    add('quoted', (match[1] ?? match[2] ?? match[3]).trim());
+  }
+
+  NEGATION_REGEX.lastIndex = 0;
+  while ((match = NEGATION_REGEX.exec(text)) !== null) {
+    const word = match[0].toLowerCase();
+    add('negation', word === 'cannot' || /^n['’]t$/.test(word) ? 'not' : word);
+  }
+
+  return tokens;
+}
+
+/**
+ * Find the invariants that a rewrite lost
+ *
+ * Invariants are compared as multisets: if a number appeared twice before and
+ * once after, one occurrence is lost.
+ *
+ * @param before - Invariants of the text before the rewrite
+ * @param after - Invariants of the text after the rewrite
+ * @returns Invariants missing after the rewrite, once per lost occurrence
+ */
+export function findLostInvariants(before: InvariantToken[], after: InvariantToken[]): InvariantToken[] {
+  const key = (token: InvariantToken) => `${token.type}\u0000${token.value}`;
+
+  const available = new Map<string, number>();
+  after.forEach(token => available.set(key(token), (available.get(key(token)) || 0) + 1));
+
+  const lost: InvariantToken[] = [];
+  for (const token of before) {
+    const count = available.get(key(token)) || 0;
+    if (count > 0) {
+      available.set(key(token), count - 1);
+    } else {
+      lost.push({ ...token });
+    }
+  }
+
+  return lost;
+}
+
+/**
+ * Check whether the word at an offset starts a sentence or list item
+ * @private
+ */
+function startsSentence(text: string, index: number): boolean {
+  let i = index - 1;
+  while (i >= 0 && LEADING_CHARS.has(text[i])) {
+    i--;
+  }
+  return i < 0 || SENTENCE_END_CHARS.has(text[i]);
+}
@@ -0,0 +1,339 @@
+/**
+ * JSON Schema utilities
+ *
+ * Tool definitions describe their parameters with JSON Schema, much of which
+ * is boilerplate for a model: titles repeating the property name, keywords
+ * set to their default value and types already implied by an enum. These
+ * utilities remove that boilerplate and check that a schema still validates
+ * and accepts exactly the same values afterwards.
+ */
+
+// Keywords that only annotate a schema and never change what it accepts
+const ANNOTATION_KEYWORDS = new Set(['title', 'description', '$comment', '$schema', 'examples']);
+
+// Annotation keywords removed by minification
+const REDUNDANT_KEYWORDS = ['title', '$comment', '$schema'];
+
+// Keywords whose value here is what a missing keyword means anyway
+const DEFAULT_KEYWORD_VALUES: Record<string, unknown> = {
+  additionalProperties: true,
+  uniqueItems: false,
+  deprecated: false,
+  readOnly: false,
+  writeOnly: false,
+  minLength: 0,
+  minItems: 0,
+  minProperties: 0,
+  required: []
+};
+
+// Keywords holding a single subschema
+const SCHEMA_KEYWORDS = ['items', 'additionalProperties', 'additionalItems', 'contains', 'not', 'if', 'then', 'else'];
+
+// Keywords holding a list of subschemas
+const SCHEMA_LIST_KEYWORDS = ['anyOf', 'oneOf', 'allOf', 'prefixItems'];
+
+// Keywords holding a map of subschemas
+const SCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', '$defs', 'definitions', 'dependentSchemas'];
+
+const VALID_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+/**
+ * A JSON Schema: an object of keywords, or true/false
+ */
+export type JsonSchema = { [keyword: string]: unknown } | boolean;
+
+/**
+ * Result of minifying a JSON Schema
+ */
+export interface MinifiedJsonSchema {
+  /**
+   * The minified schema
+   */
+  schema: JsonSchema;
+
+  /**
+   * JSON Pointers of the removed keywords
+   */
+  removed: string[];
+}
+
+/**
+ * Options for minifying a JSON Schema
+ */
+export interface JsonSchemaMinifyOptions {
+  /**
+   * Keep "type" keywords even when an enum or const implies them
+   * (needed for strict structured outputs)
+   * @default false
+   */
+  keepImpliedTypes?: boolean;
+}
+
+/**
+ * Remove keywords that do not change what a schema accepts
+ *
+ * Titles, comments and $schema are dropped, as are keywords set to their
+ * default value (for example additionalProperties: true or required: []) and
+ * "type" keywords implied by a string or boolean enum or const. The input is
+ * not modified.
+ *
+ * @param schema - Schema to minify
+ * @param options - Minification options
+ * @returns The minified schema and the pointers of the removed keywords
+ */
+export function minifyJsonSchema(schema: JsonSchema, options: JsonSchemaMinifyOptions = {}): MinifiedJsonSchema {
+  const removed: string[] = [];
+
+  const minify = (node: JsonSchema, path: string): JsonSchema => {
+    if (!isSchemaObject(node)) return node;
+
+    const result: { [keyword: string]: unknown } = {};
+    Object.keys(node).forEach(keyword => {
+      const value = node[keyword];
+      const pointer = `${path}/${escapePointer(keyword)}`;
+
+      if (REDUNDANT_KEYWORDS.includes(keyword) ||
+        (keyword in DEFAULT_KEYWORD_VALUES && deepEqual(value, DEFAULT_KEYWORD_VALUES[keyword])) ||
+        (keyword === 'description' && value === '') ||
+        (keyword === 'type' && !options.keepImpliedTypes && value === impliedType(node))) {
+        removed.push(pointer);
+        return;
+      }
+
+      result[keyword] = mapSubschemas(keyword, value, pointer, minify);
+    });
+
+    return result;
+  };
+
+  return { schema: minify(schema, ''), removed };
+}
+
+/**
+ * Check that a value is a well-formed JSON Schema
+ *
+ * Checks the keywords tool definitions rely on: types, properties, required,
+ * items, enum, additionalProperties and the combinators.
+ *
+ * @param schema - Schema to check
+ * @returns Problems found, each prefixed with its JSON Pointer (empty if valid)
+ */
+export function validateJsonSchema(schema: unknown): string[] {
+  const problems: string[] = [];
+
+  const check = (node: unknown, path: string): void => {
+    if (typeof node === 'boolean') return;
+    if (!isSchemaObject(node as JsonSchema)) {
+      problems.push(`${path || '/'}: schema must be an object or a boolean`);
+      return;
+    }
+    const schemaNode = node as { [keyword: string]: unknown };
+
+    const type = schemaNode.type;
+    if (type !== undefined) {
+      const types = Array.isArray(type) ? type : [type];
+      if (types.length === 0 || !types.every(name => typeof name === 'string' && VALID_TYPES.includes(name))) {
+        problems.push(`${path}/type: invalid type ${JSON.stringify(type)}`);
+      }
+    }
+
+    const required = schemaNode.required;
+    if (required !== undefined) {
+      if (!Array.isArray(required) || !required.every(name => typeof name === 'string')) {
+        problems.push(`${path}/required: must be an array of property names`);
+      } else if (isSchemaObject(schemaNode.properties as JsonSchema)) {
+        const properties = schemaNode.properties as { [name: string]: unknown };
+        required
+          .filter(name => !Object.prototype.hasOwnProperty.call(properties, name))
+          .forEach(name => problems.push(`${path}/required: ${name} is not a declared property`));
+      }
+    }
+
+    if (schemaNode.enum !== undefined && (!Array.isArray(schemaNode.enum) || schemaNode.enum.length === 0)) {
+      problems.push(`${path}/enum: must be a non-empty array`);
+    }
+
+    Object.keys(schemaNode).forEach(keyword => {
+      const value = schemaNode[keyword];
+      const pointer = `${path}/${escapePointer(keyword)}`;
+
+      if (SCHEMA_KEYWORDS.includes(keyword)) {
+        if (keyword === 'items' && Array.isArray(value)) {
+          value.forEach((item, index) => check(item, `${pointer}/${index}`));
+        } else {
+          check(value, pointer);
+        }
+      } else if (SCHEMA_LIST_KEYWORDS.includes(keyword)) {
+        if (!Array.isArray(value) || value.length === 0) {
+          problems.push(`${pointer}: must be a non-empty array of schemas`);
+        } else {
+          value.forEach((item, index) => check(item, `${pointer}/${index}`));
+        }
+      } else if (SCHEMA_MAP_KEYWORDS.includes(keyword)) {
+        if (!isSchemaObject(value as JsonSchema)) {
+          problems.push(`${pointer}: must be an object of schemas`);
+        } else {
+          Object.keys(value as object).forEach(name =>
+            check((value as { [name: string]: unknown })[name], `${pointer}/${escapePointer(name)}`));
+        }
+      }
+    });
+  };
+
+  check(schema, '');
+  return problems;
+}
+
+/**
+ * Check whether two schemas accept the same values
+ *
+ * Annotations are ignored, missing keywords count as their default value and
+ * a string or boolean enum or const implies its type, so a schema and its
+ * minified form compare equal while any change to types, properties,
+ * required properties or constraints does not.
+ *
+ * @param a - First schema
+ * @param b - Second schema
+ * @returns True if the schemas are structurally equal
+ */
+export function schemasStructurallyEqual(a: JsonSchema, b: JsonSchema): boolean {
+  return deepEqual(describeStructure(a), describeStructure(b));
+}
+
+/**
+ * Visit every description of a schema, replacing it with the visitor's result
+ *
+ * @param schema - Schema whose descriptions to visit
+ * @param visit - Returns the new description for a description and its JSON Pointer
+ * @returns Copy of the schema with the new descriptions
+ */
+export function mapSchemaDescriptions(
+  schema: JsonSchema,
+  visit: (description: string, pointer: string) => string
+): JsonSchema {
+  const map = (node: JsonSchema, path: string): JsonSchema => {
+    if (!isSchemaObject(node)) return node;
+
+    const result: { [keyword: string]: unknown } = {};
+    Object.keys(node).forEach(keyword => {
+      const value = node[keyword];
+      const pointer = `${path}/${escapePointer(keyword)}`;
+      result[keyword] = keyword === 'description' && typeof value === 'string'
+        ? visit(value, pointer)
+        : mapSubschemas(keyword, value, pointer, map);
+    });
+    return result;
+  };
+
+  return map(schema, '');
+}
+
+/**
+ * Canonical form of what a schema accepts
+ * @private
+ */
+function describeStructure(node: unknown): unknown {
+  if (!isSchemaObject(node as JsonSchema)) return node;
+  const schemaNode = node as { [keyword: string]: unknown };
+
+  const result: { [keyword: string]: unknown } = {};
+  Object.keys(DEFAULT_KEYWORD_VALUES).forEach(keyword => {
+    result[keyword] = DEFAULT_KEYWORD_VALUES[keyword];
+  });
+
+  Object.keys(schemaNode)
+    .filter(keyword => !ANNOTATION_KEYWORDS.has(keyword))
+    .forEach(keyword => {
+      const value = schemaNode[keyword];
+      result[keyword] = keyword === 'required' && Array.isArray(value)
+        ? [...value].sort()
+        : mapSubschemas(keyword, value, '', (child: JsonSchema) => describeStructure(child) as JsonSchema);
+    });
+
+  if (result.type === undefined && impliedType(schemaNode) !== undefined) {
+    result.type = impliedType(schemaNode);
+  }
+
+  return result;
+}
+
+/**
+ * Apply a function to the subschemas held by a keyword's value
+ * @private
+ */
+function mapSubschemas(
+  keyword: string,
+  value: unknown,
+  pointer: string,
+  fn: (schema: JsonSchema, pointer: string) => JsonSchema
+): unknown {
+  if (SCHEMA_KEYWORDS.includes(keyword)) {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => fn(item as JsonSchema, `${pointer}/${index}`));
+    }
+    return typeof value === 'object' && value !== null ? fn(value as JsonSchema, pointer) : value;
+  }
+
+  if (SCHEMA_LIST_KEYWORDS.includes(keyword) && Array.isArray(value)) {
+    return value.map((item, index) => fn(item as JsonSchema, `${pointer}/${index}`));
+  }
+
+  if (SCHEMA_MAP_KEYWORDS.includes(keyword) && isSchemaObject(value as JsonSchema)) {
+    const map = value as { [name: string]: unknown };
+    const result: { [name: string]: unknown } = {};
+    Object.keys(map).forEach(name => {
+      result[name] = fn(map[name] as JsonSchema, `${pointer}/${escapePointer(name)}`);
+    });
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Type implied by a schema's enum or const, if all of its values are strings or all are booleans
+ * @private
+ */
+function impliedType(node: { [keyword: string]: unknown }): string | undefined {
+  const values = Array.isArray(node.enum) ? node.enum : node.const !== undefined ? [node.const] : [];
+  if (values.length === 0) return undefined;
+
+  if (values.every(value => typeof value === 'string')) return 'string';
+  if (values.every(value => typeof value === 'boolean')) return 'boolean';
+  return undefined;
+}
+
+/**
+ * Check whether a schema is a keyword object (not a boolean schema, null or an array)
+ * @private
+ */
+function isSchemaObject(node: JsonSchema | null | undefined): node is { [keyword: string]: unknown } {
+  return typeof node === 'object' && node !== null && !Array.isArray(node);
+}
+
+/**
+ * Escape a key for use in a JSON Pointer
+ * @private
+ */
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Compare two JSON values
+ * @private
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a as object);
+  const keysB = Object.keys(b as object);
+  if (keysA.length !== keysB.length) return false;
+
+  return keysA.every(key =>
+    Object.prototype.hasOwnProperty.call(b, key) &&
+    deepEqual((a as { [key: string]: unknown })[key], (b as { [key: string]: unknown })[key]));
+}
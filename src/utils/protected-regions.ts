@@ -0,0 +1,310 @@
+/**
+ * Protected region detection and masking
+ *
+ * Some parts of a prompt must never be rewritten: code samples, literal quotes
+ * and template placeholders. These utilities find such spans, replace them with
+ * opaque sentinels before patterns run, and restore them byte-for-byte afterwards.
+ */
+
+import { ProtectedRegion, ProtectedRegionType, TextEdit } from '../types';
+
+/**
+ * Text with its protected regions replaced by sentinels
+ */
+export interface MaskedText {
+  /**
+   * Text with every protected region replaced by a sentinel
+   */
+  text: string;
+
+  /**
+   * Protected regions, in order of appearance in the original text
+   */
+  regions: ProtectedRegion[];
+
+  /**
+   * Sentinels in the same order as regions
+   */
+  sentinels: string[];
+}
+
+// Sentinels are built from private-use characters so that no pattern matches
+// them as words, whitespace or punctuation
+const SENTINEL_START = '\uE000';
+const SENTINEL_END = '\uE001';
+const SENTINEL_DIGIT_BASE = 0xE100;
+const SENTINEL_REGEX = /\uE000[\uE100-\uE1FF]+\uE001/g;
+
+// Inline patterns, searched only outside of code blocks
+const INLINE_PATTERNS: Array<{ type: ProtectedRegionType; regex: RegExp }> = [
+  { type: 'placeholder', regex: /\{\{[\s\S]*?\}\}|\{%[\s\S]*?%\}|\{#[\s\S]*?#\}|\$\{[^}\n]*\}/g },
+  { type: 'inline-code', regex: /`[^`\n]+`/g },
+  { type: 'quoted', regex: /"[^"\n]+"|“[^”\n]+”|(?<![\w'])'[^'\n]+'(?![\w'])/g }
+];
+
+/**
+ * Detect protected regions in text
+ *
+ * Block-level code (fenced and indented) is detected first; inline code,
+ * quoted literals, template placeholders and custom patterns are then searched
+ * only in the text between code blocks. Overlapping matches are resolved in
+ * favour of the earliest (and then longest) one.
+ *
+ * @param text - Text to scan
+ * @param customPatterns - Additional regular expressions whose matches must be protected
+ * @returns Non-overlapping protected regions sorted by start offset
+ */
+export function detectProtectedRegions(text: string, customPatterns: RegExp[] = []): ProtectedRegion[] {
+  if (!text) return [];
+
+  const blocks = detectCodeBlocks(text);
+  const regions: ProtectedRegion[] = [...blocks];
+
+  // Search inline patterns in the gaps between code blocks
+  let gapStart = 0;
+  for (const gap of [...blocks, { start: text.length, end: text.length }]) {
+    if (gap.start > gapStart) {
+      regions.push(...detectInlineRegions(text, gapStart, gap.start, customPatterns));
+    }
+    gapStart = gap.end;
+  }
+
+  return regions.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace protected regions with sentinels
+ *
+ * @param text - Text to mask
+ * @param customPatterns - Additional regular expressions whose matches must be protected
+ * @returns Masked text together with the regions it hides
+ */
+export function maskProtectedRegions(text: string, customPatterns: RegExp[] = []): MaskedText {
+  const regions = detectProtectedRegions(text, customPatterns);
+  const sentinels = regions.map((_, index) => createSentinel(index));
+
+  let masked = '';
+  let cursor = 0;
+  regions.forEach((region, index) => {
+    masked += text.slice(cursor, region.start) + sentinels[index];
+    cursor = region.end;
+  });
+  masked += text.slice(cursor);
+
+  return { text: masked, regions, sentinels };
+}
+
+/**
+ * Restore the protected regions hidden in masked (and possibly transformed) text
+ *
+ * @param text - Masked text
+ * @param masked - The masking information returned by maskProtectedRegions
+ * @returns Text with every sentinel replaced by its original content
+ */
+export function restoreProtectedRegions(text: string, masked: MaskedText): string {
+  if (masked.regions.length === 0) return text;
+
+  return text.replace(SENTINEL_REGEX, sentinel => {
+    const index = parseSentinel(sentinel);
+    const region = masked.regions[index];
+    return region ? region.text : sentinel;
+  });
+}
+
+/**
+ * Check that every sentinel is still present exactly once and in order
+ *
+ * A pattern that drops, duplicates or reorders a sentinel would alter a
+ * protected region, so its output must be discarded.
+ *
+ * @param text - Masked text after a transformation
+ * @param masked - The masking information returned by maskProtectedRegions
+ * @returns true if all protected regions are intact
+ */
+export function hasIntactSentinels(text: string, masked: MaskedText): boolean {
+  if (masked.regions.length === 0) return true;
+
+  const found = text.match(SENTINEL_REGEX) || [];
+  if (found.length !== masked.sentinels.length) return false;
+
+  return found.every((sentinel, index) => sentinel === masked.sentinels[index]);
+}
+
+/**
+ * Translate edits made on masked text into edits on the restored text
+ *
+ * @param edits - Edits with offsets in the masked text
+ * @param text - The masked text the edits were made against
+ * @param masked - The masking information returned by maskProtectedRegions
+ * @returns Edits with offsets and fragments in the restored text
+ */
+export function restoreEdits(edits: TextEdit[], text: string, masked: MaskedText): TextEdit[] {
+  if (masked.regions.length === 0) return edits;
+
+  // Length difference introduced by restoring each sentinel
+  const sentinels: Array<{ end: number; delta: number }> = [];
+  const regex = new RegExp(SENTINEL_REGEX.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    const region = masked.regions[parseSentinel(match[0])];
+    sentinels.push({
+      end: match.index + match[0].length,
+      delta: region ? region.text.length - match[0].length : 0
+    });
+  }
+
+  const toRestoredOffset = (offset: number) => {
+    let restored = offset;
+    for (const sentinel of sentinels) {
+      if (sentinel.end > offset) break;
+      restored += sentinel.delta;
+    }
+    return restored;
+  };
+
+  return edits.map(edit => {
+    const original = restoreProtectedRegions(edit.original, masked);
+    const start = toRestoredOffset(edit.start);
+    return {
+      start,
+      end: start + original.length,
+      original,
+      replacement: restoreProtectedRegions(edit.replacement, masked)
+    };
+  });
+}
+
+/**
+ * Create the sentinel for a region index
+ * @private
+ */
+function createSentinel(index: number): string {
+  let digits = '';
+  let remaining = index;
+  do {
+    digits = String.fromCharCode(SENTINEL_DIGIT_BASE + (remaining % 256)) + digits;
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+
+  return SENTINEL_START + digits + SENTINEL_END;
+}
+
+/**
+ * Decode the region index from a sentinel
+ * @private
+ */
+function parseSentinel(sentinel: string): number {
+  let index = 0;
+  for (let i = 1; i < sentinel.length - 1; i++) {
+    index = index * 256 + (sentinel.charCodeAt(i) - SENTINEL_DIGIT_BASE);
+  }
+  return index;
+}
+
+/**
+ * Detect fenced (``` or ~~~) and indented code blocks
+ * @private
+ */
+function detectCodeBlocks(text: string): ProtectedRegion[] {
+  const regions: ProtectedRegion[] = [];
+  const lines = text.split('\n');
+
+  // Start offset of every line, plus the end of the text
+  const lineStarts: number[] = [0];
+  lines.forEach(line => lineStarts.push(lineStarts[lineStarts.length - 1] + line.length + 1));
+  const lineEnd = (index: number) => lineStarts[index] + lines[index].length;
+
+  const addRegion = (type: ProtectedRegionType, first: number, last: number) => {
+    const start = lineStarts[first];
+    const end = lineEnd(last);
+    regions.push({ type, start, end, text: text.slice(start, end) });
+  };
+
+  let previousBlank = true;
+  let i = 0;
+
+  while (i < lines.length) {
+    const fence = lines[i].match(/^[ \t]*(`{3,}|~{3,})/);
+
+    if (fence) {
+      // A fenced block runs to its closing fence, or to the end of the text if unterminated
+      const closing = new RegExp(`^[ \\t]*${fence[1][0]}{${fence[1].length},}[ \\t]*$`);
+      let last = i + 1;
+      while (last < lines.length - 1 && !closing.test(lines[last])) {
+        last++;
+      }
+      last = Math.min(last, lines.length - 1);
+
+      addRegion('fenced-code', i, last);
+      i = last + 1;
+      previousBlank = false;
+      continue;
+    }
+
+    if (previousBlank && /^( {4}|\t)\S/.test(lines[i])) {
+      // An indented block is a run of indented lines after a blank line;
+      // blank lines inside the run belong to it, trailing ones do not
+      let last = i;
+      for (let j = i + 1; j < lines.length; j++) {
+        if (lines[j].trim() === '') continue;
+        if (!/^( {4}|\t)/.test(lines[j])) break;
+        last = j;
+      }
+
+      addRegion('indented-code', i, last);
+      i = last + 1;
+      previousBlank = false;
+      continue;
+    }
+
+    previousBlank = lines[i].trim() === '';
+    i++;
+  }
+
+  return regions;
+}
+
+/**
+ * Detect inline protected regions within [from, to)
+ * @private
+ */
+function detectInlineRegions(text: string, from: number, to: number, customPatterns: RegExp[]): ProtectedRegion[] {
+  const segment = text.slice(from, to);
+  const candidates: ProtectedRegion[] = [];
+
+  const patterns = [
+    ...INLINE_PATTERNS,
+    ...customPatterns.map(regex => ({ type: 'custom' as ProtectedRegionType, regex }))
+  ];
+
+  for (const { type, regex } of patterns) {
+    // Always search globally, without touching the caller's regex state
+    const flags = regex.flags.includes('g') ? regex.flags : regex.flags + 'g';
+    const globalRegex = new RegExp(regex.source, flags);
+    let match: RegExpExecArray | null;
+
+    while ((match = globalRegex.exec(segment)) !== null) {
+      if (match[0].length === 0) {
+        globalRegex.lastIndex++;
+        continue;
+      }
+      const start = from + match.index;
+      const end = start + match[0].length;
+      candidates.push({ type, start, end, text: match[0] });
+    }
+  }
+
+  // Keep the earliest, then longest, of any overlapping candidates
+  candidates.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+  const regions: ProtectedRegion[] = [];
+  let lastEnd = -1;
+  for (const candidate of candidates) {
+    if (candidate.start >= lastEnd) {
+      regions.push(candidate);
+      lastEnd = candidate.end;
+    }
+  }
+
+  return regions;
+}
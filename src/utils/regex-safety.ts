@@ -0,0 +1,318 @@
+/**
+ * Static detection of regular expressions prone to catastrophic backtracking
+ *
+ * The check looks for the two shapes behind almost every ReDoS:
+ * - a repeated group whose body can split the same text between iterations in
+ *   more than one way, e.g. (a+)+, (\s*\w+)*, ([^.]+,)+
+ * - a repeated group whose fixed alternatives overlap, e.g. (\w|\d)+, or where
+ *   one alternative matches the start of another and the next iteration can
+ *   pick up the rest, e.g. (a|aa)+
+ *
+ * A repeated group is considered safe when each alternative contains a required
+ * token that none of its repeated tokens can match, since that token pins down
+ * where one iteration ends and the next begins, as in (\w+\s)+.
+ * Character overlap is approximated by testing a sample of representative characters.
+ */
+
+// Representative characters used to approximate whether two tokens can match the same input
+const SAMPLE_CHARS = [
+  'a', 'z', 'A', 'Z', '0', '9', '_', ' ', '\t', '\n', '\r',
+  '.', ',', ';', ':', '!', '?', '-', '(', ')', '[', ']', '{', '}',
+  '"', "'", '/', '\\', '*', '+', '#', '@', '$', '%', '&', '<', '>', '=', '|', '~', '^', '`',
+  'é', '•', ' ', '中'
+];
+
+/**
+ * A parsed element of a regex sequence
+ * @private
+ */
+interface RegexNode {
+  /**
+   * Source of the node, including its quantifier
+   */
+  source?: string;
+
+  /**
+   * Source of a single-character token, or null for groups, backreferences and anchors
+   */
+  atom: string | null;
+
+  /**
+   * Nested alternatives of a group
+   */
+  alternatives?: RegexNode[][];
+
+  /**
+   * Whether the node is a lookaround or anchor that consumes no input
+   */
+  zeroWidth: boolean;
+
+  /**
+   * Minimum repetitions (1 when not quantified)
+   */
+  min: number;
+
+  /**
+   * Whether the quantifier allows unbounded repetition
+   */
+  unbounded: boolean;
+}
+
+/**
+ * Check a regular expression for catastrophic backtracking
+ *
+ * @param pattern - Regular expression or regex source to check
+ * @returns Description of the problem, or null if none was found
+ */
+export function detectCatastrophicBacktracking(pattern: RegExp | string): string | null {
+  if (typeof pattern !== 'string' && !(pattern instanceof RegExp)) {
+    return null;
+  }
+
+  const source = typeof pattern === 'string' ? pattern : pattern.source;
+  const flags = typeof pattern === 'string' ? '' : pattern.flags.replace(/[gy]/g, '');
+
+  let alternatives: RegexNode[][];
+  try {
+    alternatives = new RegexParser(source).parse();
+  } catch {
+    return null; // Anything the parser does not understand is left to the runtime time budget
+  }
+
+  return findProblem(alternatives, flags);
+}
+
+/**
+ * Recursively look for a dangerous repeated group
+ * @private
+ */
+function findProblem(alternatives: RegexNode[][], flags: string): string | null {
+  for (const sequence of alternatives) {
+    for (const node of sequence) {
+      if (!node.alternatives) continue;
+
+      if (node.unbounded && !node.zeroWidth) {
+        if (node.alternatives.some(alternative => isAmbiguous(alternative, flags))) {
+          return `nested quantifier in repeated group ${node.source}`;
+        }
+
+        // Alternatives made only of unquantified single-character tokens
+        const fixed = node.alternatives
+          .filter(alternative => alternative.length > 0 &&
+            alternative.every(child => child.atom !== null && child.source === child.atom))
+          .map(alternative => alternative.map(child => child.atom as string));
+        for (let i = 0; i < fixed.length; i++) {
+          for (let j = i + 1; j < fixed.length; j++) {
+            if (overlapsAsPrefix(fixed[i], fixed[j], fixed, flags)) {
+              return `overlapping alternatives ${fixed[i].join('')} and ${fixed[j].join('')} in repeated group ${node.source}`;
+            }
+          }
+        }
+      }
+
+      const nested = findProblem(node.alternatives, flags);
+      if (nested) return nested;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether one alternative of a repeated group can split text ambiguously
+ * @private
+ */
+function isAmbiguous(sequence: RegexNode[], flags: string): boolean {
+  const consuming = sequence.filter(node => !node.zeroWidth);
+  const repeated = consuming.filter(node => node.unbounded || (node.alternatives && containsUnbounded(node)));
+  if (repeated.length === 0) return false;
+
+  // Groups and backreferences are treated as able to match anything
+  if (repeated.some(node => node.atom === null)) return true;
+
+  const anchors = consuming.filter(node => node.atom !== null && !node.unbounded && node.min > 0);
+  return !anchors.some(anchor => repeated.every(node => !overlaps(anchor.atom!, node.atom!, flags)));
+}
+
+/**
+ * Check whether two fixed alternatives of a repeated group can split the same text differently
+ *
+ * That is the case when the shorter one can match the start of the longer one and
+ * either both have the same length or the rest of the longer one can begin
+ * another iteration.
+ * @private
+ */
+function overlapsAsPrefix(a: string[], b: string[], alternatives: string[][], flags: string): boolean {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (!shorter.every((atom, index) => overlaps(atom, longer[index], flags))) return false;
+  if (shorter.length === longer.length) return true;
+
+  const rest = longer[shorter.length];
+  return alternatives.some(alternative => overlaps(rest, alternative[0], flags));
+}
+
+/**
+ * Check whether a group contains an unbounded quantifier at any depth
+ * @private
+ */
+function containsUnbounded(node: RegexNode): boolean {
+  return (node.alternatives || []).some(sequence =>
+    sequence.some(child => child.unbounded || (child.alternatives !== undefined && containsUnbounded(child))));
+}
+
+/**
+ * Check whether two single-character tokens can match a common character
+ * @private
+ */
+function overlaps(a: string, b: string, flags: string): boolean {
+  try {
+    const first = new RegExp(`^(?:${a})$`, flags);
+    const second = new RegExp(`^(?:${b})$`, flags);
+    // Literal tokens are tried as well, since they may be missing from the sample
+    const candidates = SAMPLE_CHARS.concat([a, b].filter(token => token.length === 1));
+    return candidates.some(char => first.test(char) && second.test(char));
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Minimal parser for the subset of regex syntax needed by the check
+ * @private
+ */
+class RegexParser {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): RegexNode[][] {
+    const alternatives = this.parseAlternatives();
+    if (this.position < this.source.length) {
+      throw new Error('Unbalanced parenthesis');
+    }
+    return alternatives;
+  }
+
+  private parseAlternatives(): RegexNode[][] {
+    const alternatives: RegexNode[][] = [[]];
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+
+      if (char === ')') break;
+
+      if (char === '|') {
+        this.position++;
+        alternatives.push([]);
+        continue;
+      }
+
+      const start = this.position;
+      const node = this.parseAtom();
+      this.parseQuantifier(node);
+      node.source = this.source.slice(start, this.position);
+      alternatives[alternatives.length - 1].push(node);
+    }
+
+    return alternatives;
+  }
+
+  private parseAtom(): RegexNode {
+    const start = this.position;
+    const char = this.source[this.position];
+
+    if (char === '(') {
+      this.position++;
+      let zeroWidth = false;
+
+      if (this.source[this.position] === '?') {
+        const lookaround = /^\?(?:=|!|<=|<!)/.exec(this.source.slice(this.position));
+        const named = /^\?<[A-Za-z_$][\w$]*>/.exec(this.source.slice(this.position));
+        if (lookaround) {
+          zeroWidth = true;
+          this.position += lookaround[0].length;
+        } else if (named) {
+          this.position += named[0].length;
+        } else if (this.source[this.position + 1] === ':') {
+          this.position += 2;
+        } else {
+          throw new Error('Unsupported group');
+        }
+      }
+
+      const alternatives = this.parseAlternatives();
+      if (this.source[this.position] !== ')') {
+        throw new Error('Unterminated group');
+      }
+      this.position++;
+
+      return { atom: null, alternatives, zeroWidth, min: 1, unbounded: false };
+    }
+
+    if (char === '[') {
+      this.position++;
+      if (this.source[this.position] === '^') this.position++;
+      if (this.source[this.position] === ']') this.position++;
+      while (this.position < this.source.length && this.source[this.position] !== ']') {
+        this.position += this.source[this.position] === '\\' ? 2 : 1;
+      }
+      if (this.position >= this.source.length) {
+        throw new Error('Unterminated character class');
+      }
+      this.position++;
+      return this.atom(this.source.slice(start, this.position));
+    }
+
+    if (char === '\\') {
+      const next = this.source[this.position + 1];
+
+      // Word boundaries consume nothing; backreferences can match anything
+      if (next === 'b' || next === 'B') {
+        this.position += 2;
+        return { atom: null, zeroWidth: true, min: 1, unbounded: false };
+      }
+      if (/[1-9]/.test(next) || next === 'k') {
+        const reference = /^\\(?:\d+|k<[^>]*>)/.exec(this.source.slice(this.position));
+        this.position += reference ? reference[0].length : 2;
+        return { atom: null, zeroWidth: false, min: 1, unbounded: false };
+      }
+
+      const escape = /^\\(?:u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|c[A-Za-z]|[pP]\{[^}]*\}|[\s\S])/
+        .exec(this.source.slice(this.position));
+      this.position += escape ? escape[0].length : 2;
+      return this.atom(this.source.slice(start, this.position));
+    }
+
+    if (char === '^' || char === '$') {
+      this.position++;
+      return { atom: null, zeroWidth: true, min: 1, unbounded: false };
+    }
+
+    this.position++;
+    return this.atom(char);
+  }
+
+  private parseQuantifier(node: RegexNode): void {
+    const match = /^(?:[*+?]|\{(\d+)(,(\d*))?\})\??/.exec(this.source.slice(this.position));
+    if (!match) return;
+
+    this.position += match[0].length;
+    const quantifier = match[0][0];
+
+    if (quantifier === '*') {
+      node.min = 0;
+      node.unbounded = true;
+    } else if (quantifier === '+') {
+      node.unbounded = true;
+    } else if (quantifier === '?') {
+      node.min = 0;
+    } else {
+      node.min = parseInt(match[1], 10);
+      node.unbounded = match[2] !== undefined && match[3] === '';
+    }
+  }
+
+  private atom(source: string): RegexNode {
+    return { atom: source, zeroWidth: false, min: 1, unbounded: false };
+  }
+}
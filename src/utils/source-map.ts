@@ -0,0 +1,326 @@
+import { TextEdit } from '../types';
+
+/**
+ * A run of text that is unchanged between the original and optimized text
+ */
+export interface SourceMapRun {
+  /**
+   * Start offset of the run in the original text
+   */
+  original: number;
+
+  /**
+   * Start offset of the run in the optimized text
+   */
+  optimized: number;
+
+  /**
+   * Length of the run (identical in both texts)
+   */
+  length: number;
+}
+
+/**
+ * A range of offsets in a text
+ */
+export interface SourceMapRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * JSON-serializable form of a source map
+ */
+export interface SerializedSourceMap {
+  /**
+   * Format version
+   */
+  version: 1;
+
+  /**
+   * Length of the original text
+   */
+  originalLength: number;
+
+  /**
+   * Length of the optimized text
+   */
+  optimizedLength: number;
+
+  /**
+   * Unchanged runs as [originalOffset, optimizedOffset, length] triples
+   */
+  runs: Array<[number, number, number]>;
+}
+
+/**
+ * SourceMap - Maps offsets between an optimized text and the text it was produced from
+ *
+ * The map is stored as the list of runs that every pattern step left untouched.
+ * Everything between two runs was rewritten, so an offset inside a rewritten
+ * region maps to the corresponding rewritten region on the other side.
+ *
+ * Maps compose: the map for a whole optimization is the composition of the maps
+ * of its individual pattern steps.
+ *
+ * @example
+ * ```typescript
+ * const result = optimizer.optimize(prompt);
+ * const offset = result.optimizedText.indexOf('refund');
+ * const originalOffset = result.sourceMap?.toOriginal(offset);
+ * ```
+ */
+export class SourceMap {
+  private readonly runs: SourceMapRun[];
+  readonly originalLength: number;
+  readonly optimizedLength: number;
+
+  /**
+   * Create a source map from unchanged runs
+   *
+   * @param originalLength - Length of the original text
+   * @param optimizedLength - Length of the optimized text
+   * @param runs - Unchanged runs, sorted and non-overlapping in both texts
+   */
+  constructor(originalLength: number, optimizedLength: number, runs: SourceMapRun[] = []) {
+    this.originalLength = originalLength;
+    this.optimizedLength = optimizedLength;
+    this.runs = mergeRuns(runs);
+  }
+
+  /**
+   * Create a map for a text that was not changed
+   *
+   * @param length - Length of the text
+   * @returns Identity source map
+   */
+  static identity(length: number): SourceMap {
+    return new SourceMap(length, length, length > 0 ? [{ original: 0, optimized: 0, length }] : []);
+  }
+
+  /**
+   * Create a map from the edits made to a text
+   *
+   * @param length - Length of the text the edits were made against
+   * @param edits - Non-overlapping edits, with offsets in that text
+   * @returns Source map from the edited text back to the original
+   */
+  static fromEdits(length: number, edits: TextEdit[]): SourceMap {
+    const sorted = [...edits].sort((a, b) => a.start - b.start);
+    const runs: SourceMapRun[] = [];
+    let original = 0;
+    let optimized = 0;
+
+    for (const edit of sorted) {
+      if (edit.start > original) {
+        runs.push({ original, optimized, length: edit.start - original });
+        optimized += edit.start - original;
+      }
+      optimized += edit.replacement.length;
+      original = Math.max(original, edit.end);
+    }
+
+    if (length > original) {
+      runs.push({ original, optimized, length: length - original });
+      optimized += length - original;
+    }
+
+    return new SourceMap(length, optimized, runs);
+  }
+
+  /**
+   * Restore a source map from its serialized form
+   *
+   * @param json - Serialized source map
+   * @returns Source map
+   * @throws {Error} If the serialized form is invalid
+   */
+  static fromJSON(json: SerializedSourceMap): SourceMap {
+    if (!json || json.version !== 1 || !Array.isArray(json.runs)) {
+      throw new Error('Invalid serialized source map');
+    }
+
+    return new SourceMap(
+      json.originalLength,
+      json.optimizedLength,
+      json.runs.map(([original, optimized, length]) => ({ original, optimized, length }))
+    );
+  }
+
+  /**
+   * Compose this map (A -> B) with a map of a later step (B -> C)
+   *
+   * @param next - Map whose original text is this map's optimized text
+   * @returns Map from A to C
+   */
+  compose(next: SourceMap): SourceMap {
+    const runs: SourceMapRun[] = [];
+    let i = 0;
+    let j = 0;
+
+    // Both run lists are sorted in the intermediate text, so a merge-style walk finds all overlaps
+    while (i < this.runs.length && j < next.runs.length) {
+      const first = this.runs[i];
+      const second = next.runs[j];
+      const start = Math.max(first.optimized, second.original);
+      const end = Math.min(first.optimized + first.length, second.original + second.length);
+
+      if (end > start) {
+        runs.push({
+          original: first.original + (start - first.optimized),
+          optimized: second.optimized + (start - second.original),
+          length: end - start
+        });
+      }
+
+      if (first.optimized + first.length <= second.original + second.length) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+
+    return new SourceMap(this.originalLength, next.optimizedLength, runs);
+  }
+
+  /**
+   * Map an offset in the optimized text to the original text
+   *
+   * Offsets inside unchanged text map exactly; offsets inside rewritten text map
+   * to the start of the original region that was rewritten.
+   *
+   * @param offset - Offset in the optimized text
+   * @returns Offset in the original text
+   */
+  toOriginal(offset: number): number {
+    return this.mapOffset(offset, 'optimized', 'start');
+  }
+
+  /**
+   * Map an offset in the original text to the optimized text
+   *
+   * Offsets inside unchanged text map exactly; offsets inside rewritten text map
+   * to the start of the optimized region that replaced it.
+   *
+   * @param offset - Offset in the original text
+   * @returns Offset in the optimized text
+   */
+  toOptimized(offset: number): number {
+    return this.mapOffset(offset, 'original', 'start');
+  }
+
+  /**
+   * Map a range in the optimized text to the smallest covering range of the original text
+   *
+   * @param start - Start offset in the optimized text
+   * @param end - End offset in the optimized text
+   * @returns Corresponding range in the original text
+   */
+  toOriginalRange(start: number, end: number): SourceMapRange {
+    return {
+      start: this.mapOffset(start, 'optimized', 'start'),
+      end: this.mapOffset(Math.max(start, end), 'optimized', 'end')
+    };
+  }
+
+  /**
+   * Map a range in the original text to the smallest covering range of the optimized text
+   *
+   * @param start - Start offset in the original text
+   * @param end - End offset in the original text
+   * @returns Corresponding range in the optimized text
+   */
+  toOptimizedRange(start: number, end: number): SourceMapRange {
+    return {
+      start: this.mapOffset(start, 'original', 'start'),
+      end: this.mapOffset(Math.max(start, end), 'original', 'end')
+    };
+  }
+
+  /**
+   * Get the unchanged runs
+   *
+   * @returns Copy of the runs, sorted by offset
+   */
+  getRuns(): SourceMapRun[] {
+    return this.runs.map(run => ({ ...run }));
+  }
+
+  /**
+   * Get the serializable form of this map (used by JSON.stringify)
+   *
+   * @returns Serialized source map
+   */
+  toJSON(): SerializedSourceMap {
+    return {
+      version: 1,
+      originalLength: this.originalLength,
+      optimizedLength: this.optimizedLength,
+      runs: this.runs.map(run => [run.original, run.optimized, run.length])
+    };
+  }
+
+  /**
+   * Map an offset from one side to the other
+   *
+   * @param offset - Offset to map
+   * @param from - Which text the offset is in
+   * @param bias - For offsets in rewritten text, whether to return the start or end of the region
+   * @private
+   */
+  private mapOffset(offset: number, from: 'original' | 'optimized', bias: 'start' | 'end'): number {
+    const to = from === 'original' ? 'optimized' : 'original';
+    const fromLength = from === 'original' ? this.originalLength : this.optimizedLength;
+    const toLength = from === 'original' ? this.optimizedLength : this.originalLength;
+    const clamped = Math.min(Math.max(0, Math.floor(offset)), fromLength);
+
+    // Find the last run starting at or before the offset
+    let low = 0;
+    let high = this.runs.length - 1;
+    let index = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (this.runs[mid][from] <= clamped) {
+        index = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const run = index >= 0 ? this.runs[index] : null;
+    if (run && clamped <= run[from] + run.length) {
+      return run[to] + (clamped - run[from]);
+    }
+
+    // The offset is in a rewritten region between two runs
+    const regionStart = run ? run[to] + run.length : 0;
+    const following = this.runs[index + 1];
+    const regionEnd = following ? following[to] : toLength;
+
+    return bias === 'start' ? regionStart : regionEnd;
+  }
+}
+
+/**
+ * Drop empty runs and merge runs that are contiguous in both texts
+ * @private
+ */
+function mergeRuns(runs: SourceMapRun[]): SourceMapRun[] {
+  const merged: SourceMapRun[] = [];
+
+  for (const run of runs) {
+    if (run.length <= 0) continue;
+
+    const previous = merged[merged.length - 1];
+    if (previous &&
+      previous.original + previous.length === run.original &&
+      previous.optimized + previous.length === run.optimized) {
+      previous.length += run.length;
+    } else {
+      merged.push({ ...run });
+    }
+  }
+
+  return merged;
+}
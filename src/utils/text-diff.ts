@@ -0,0 +1,263 @@
+import { TextEdit } from '../types';
+
+/**
+ * Text diffing utilities
+ *
+ * Used to recover the edits made by opaque transform functions, where the only
+ * information available is the text before and after the transformation.
+ */
+
+// Word, whitespace run, or single other character
+const DIFF_TOKEN_REGEX = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+
+// Above this many differing tokens, the changed middle is reported as one edit
+const MAX_EDIT_DISTANCE = 1000;
+
+/**
+ * Compute the edits that turn `before` into `after`
+ *
+ * The diff is word-level (Myers' algorithm over words, whitespace runs and
+ * punctuation), so edits line up with the words a human would highlight.
+ * Adjacent insertions and deletions are merged into a single replacement.
+ *
+ * @param before - Text before the transformation
+ * @param after - Text after the transformation
+ * @returns Non-overlapping edits sorted by start offset, with offsets in `before`
+ */
+export function diffText(before: string, after: string): TextEdit[] {
+  if (before === after) return [];
+
+  // Trim the common prefix and suffix at character level first
+  let prefix = 0;
+  const maxPrefix = Math.min(before.length, after.length);
+  while (prefix < maxPrefix && before.charCodeAt(prefix) === after.charCodeAt(prefix)) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (suffix < maxSuffix &&
+    before.charCodeAt(before.length - 1 - suffix) === after.charCodeAt(after.length - 1 - suffix)) {
+    suffix++;
+  }
+
+  // Widen the window to word boundaries so words are never split
+  while (prefix > 0 && isWordChar(before[prefix - 1]) &&
+    (isWordChar(before[prefix]) || isWordChar(after[prefix]))) {
+    prefix--;
+  }
+  while (suffix > 0 && isWordChar(before[before.length - suffix]) &&
+    (isWordChar(before[before.length - suffix - 1]) || isWordChar(after[after.length - suffix - 1]))) {
+    suffix--;
+  }
+
+  const beforeTokens = tokenize(before.slice(prefix, before.length - suffix));
+  const afterTokens = tokenize(after.slice(prefix, after.length - suffix));
+  const script = diffTokens(beforeTokens, afterTokens);
+
+  if (!script) {
+    // Too many differences for a fine-grained diff
+    return [{
+      start: prefix,
+      end: before.length - suffix,
+      original: before.slice(prefix, before.length - suffix),
+      replacement: after.slice(prefix, after.length - suffix)
+    }];
+  }
+
+  // Merge runs of deletions/insertions into edits
+  const edits: TextEdit[] = [];
+  let offset = prefix;
+  let current: TextEdit | null = null;
+
+  for (const op of script) {
+    if (op.type === 'equal') {
+      if (current) {
+        edits.push(current);
+        current = null;
+      }
+      offset += op.token.length;
+      continue;
+    }
+
+    if (!current) {
+      current = { start: offset, end: offset, original: '', replacement: '' };
+    }
+
+    if (op.type === 'delete') {
+      current.original += op.token;
+      current.end += op.token.length;
+      offset += op.token.length;
+    } else {
+      current.replacement += op.token;
+    }
+  }
+
+  if (current) {
+    edits.push(current);
+  }
+
+  return mergeWhitespaceSeparated(before, edits);
+}
+
+/**
+ * Apply non-overlapping edits to text
+ *
+ * @param text - Text the edits were computed against
+ * @param edits - Non-overlapping edits with offsets in `text`
+ * @returns Text with all edits applied
+ */
+export function applyEdits(text: string, edits: TextEdit[]): string {
+  const sorted = [...edits].sort((a, b) => a.start - b.start);
+  let result = '';
+  let cursor = 0;
+
+  for (const edit of sorted) {
+    result += text.slice(cursor, edit.start) + edit.replacement;
+    cursor = edit.end;
+  }
+
+  return result + text.slice(cursor);
+}
+
+/**
+ * Merge edits that are separated only by whitespace
+ *
+ * "Please write" -> "Write" reads better as one edit than as a replacement
+ * and a deletion either side of an unchanged space.
+ * @private
+ */
+function mergeWhitespaceSeparated(before: string, edits: TextEdit[]): TextEdit[] {
+  const merged: TextEdit[] = [];
+
+  for (const edit of edits) {
+    const previous = merged[merged.length - 1];
+    const gap = previous ? before.slice(previous.end, edit.start) : '';
+
+    if (previous && /^\s+$/.test(gap)) {
+      previous.original += gap + edit.original;
+      previous.replacement += gap + edit.replacement;
+      previous.end = edit.end;
+    } else {
+      merged.push({ ...edit });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Split text into diff tokens
+ * @private
+ */
+function tokenize(text: string): string[] {
+  return text.match(DIFF_TOKEN_REGEX) || [];
+}
+
+/**
+ * Check whether a character is part of a word
+ * @private
+ */
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}_]/u.test(char);
+}
+
+/**
+ * Diff operation on a single token
+ * @private
+ */
+interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  token: string;
+}
+
+/**
+ * Myers' O((N+M)D) diff over token arrays
+ *
+ * Only the diagonals reachable at each edit distance are stored, so memory
+ * is O(D^2). Returns null when the edit distance exceeds MAX_EDIT_DISTANCE.
+ * @private
+ */
+function diffTokens(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const trace: Int32Array[] = [];
+  let v = new Int32Array(0);
+
+  for (let d = 0; d <= max; d++) {
+    const next = new Int32Array(2 * d + 3);
+    const prevAt = (k: number) => v[k + (d - 1) + 1];
+
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (d === 0) {
+        x = 0;
+      } else if (k === -d || (k !== d && prevAt(k - 1) < prevAt(k + 1))) {
+        x = prevAt(k + 1); // Insertion (move down)
+      } else {
+        x = prevAt(k - 1) + 1; // Deletion (move right)
+      }
+
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      next[k + d + 1] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(next);
+        return backtrack(trace, a, b);
+      }
+    }
+
+    trace.push(next);
+    v = next;
+  }
+
+  return null;
+}
+
+/**
+ * Rebuild the edit script from the Myers trace
+ * @private
+ */
+function backtrack(trace: Int32Array[], a: string[], b: string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const k = x - y;
+
+    if (d === 0) {
+      while (x > 0 && y > 0) {
+        ops.push({ type: 'equal', token: a[--x] });
+        y--;
+      }
+      break;
+    }
+
+    const prev = trace[d - 1];
+    const prevAt = (diagonal: number) => prev[diagonal + (d - 1) + 1];
+    const down = k === -d || (k !== d && prevAt(k - 1) < prevAt(k + 1));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = prevAt(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', token: a[--x] });
+      y--;
+    }
+
+    if (down) {
+      ops.push({ type: 'insert', token: b[--y] });
+    } else {
+      ops.push({ type: 'delete', token: a[--x] });
+    }
+  }
+
+  return ops.reverse();
+}
@@ -0,0 +1,78 @@
+/**
+ * Text section detection
+ *
+ * Splits a prompt into the sections a reader would see: markdown heading
+ * sections when the text has headings, paragraphs otherwise. Used to point
+ * at the parts of a prompt that contribute most to its size.
+ */
+
+const MARKDOWN_HEADING_REGEX = /^(#{1,6})[ \t]+(.*)$/gm;
+const PARAGRAPH_REGEX = /\S[\s\S]*?(?=\n[ \t]*\n|\s*$)/g;
+
+/**
+ * A section of a text
+ */
+export interface TextSection {
+  /**
+   * Heading of the section, or 'Preamble' / 'Paragraph N' when it has none
+   */
+  label: string;
+
+  /**
+   * Start offset of the section in the text
+   */
+  start: number;
+
+  /**
+   * End offset of the section in the text (exclusive)
+   */
+  end: number;
+
+  /**
+   * Text of the section, including its heading
+   */
+  text: string;
+}
+
+/**
+ * Split a text into sections
+ *
+ * A text with markdown headings is split at every heading, with any text
+ * before the first heading as a 'Preamble' section. A text without headings
+ * is split into paragraphs at blank lines. Whitespace between sections
+ * belongs to no section.
+ *
+ * @param text - Text to split
+ * @returns Non-empty sections in order of appearance
+ */
+export function splitTextSections(text: string): TextSection[] {
+  const sections: TextSection[] = [];
+  const add = (label: string, start: number, end: number) => {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (end > start) {
+      sections.push({ label, start, end, text: text.slice(start, end) });
+    }
+  };
+
+  const headings: Array<{ title: string; start: number }> = [];
+  let match: RegExpExecArray | null;
+  MARKDOWN_HEADING_REGEX.lastIndex = 0;
+  while ((match = MARKDOWN_HEADING_REGEX.exec(text)) !== null) {
+    headings.push({ title: match[2].trim() || match[1], start: match.index });
+  }
+
+  if (headings.length > 0) {
+    add('Preamble', 0, headings[0].start);
+    headings.forEach((heading, index) => {
+      add(heading.title, heading.start, index + 1 < headings.length ? headings[index + 1].start : text.length);
+    });
+    return sections;
+  }
+
+  PARAGRAPH_REGEX.lastIndex = 0;
+  while ((match = PARAGRAPH_REGEX.exec(text)) !== null) {
+    add(`Paragraph ${sections.length + 1}`, match.index, match.index + match[0].length);
+  }
+  return sections;
+}
@@ -1,5 +1,6 @@
 import { TokenizerAdapter } from '../types';
 import { TokenCache } from './token-cache';
+import { getOpenAIEncodingName } from '../tokenizers/openai-tokenizer';
 
 // Define a type for the optional tiktoken module
 type TiktokenModule = {
@@ -54,17 +55,8 @@ export class Tokenizer implements TokenizerAdapter {
     if (!this.tiktokenModule) return null;
 
     try {
-      // Map model names to tiktoken encoding
-      if (this.model.includes('gpt-4')) {
-        return this.tiktokenModule.encoding_for_model('gpt-4');
-      } else if (this.model.includes('gpt-3.5')) {
-        return this.tiktokenModule.encoding_for_model('gpt-3.5-turbo');
-      } else if (this.model.includes('davinci')) {
-        return this.tiktokenModule.encoding_for_model('text-davinci-003');
-      } else {
-        // Default to cl100k_base for newer models
-        return this.tiktokenModule.get_encoding('cl100k_base');
-      }
+      // Map model names to tiktoken encoding (cl100k_base for non-OpenAI models)
+      return this.tiktokenModule.get_encoding(getOpenAIEncodingName(this.model));
     } catch (error) {
       console.warn(`Failed to get encoding for model ${this.model}:`, error);
       return null;
@@ -0,0 +1,83 @@
+import {
+  PromptOptimizer,
+  OptimizerError,
+  getPatternsByAggressiveness,
+  getPatternsByCategory,
+  getAggressivenessProfileNames,
+  registerAggressivenessProfile,
+  unregisterAggressivenessProfile
+} from '../src/index';
+
+describe('Aggressiveness Profiles', () => {
+  const model = 'gpt-3.5-turbo';
+  const ids = (level: string) => getPatternsByAggressiveness(level).map(pattern => pattern.id);
+
+  afterEach(() => {
+    unregisterAggressivenessProfile('fillers-only');
+  });
+
+  test('should resolve the built-in levels from their category rules', () => {
+    const low = getPatternsByAggressiveness('low');
+    expect(low.length).toBeGreaterThan(0);
+    low.forEach(pattern => {
+      expect(['filler', 'formatting', 'structural']).toContain(pattern.category);
+      if (pattern.category === 'structural') {
+        expect(pattern.priority).toBeLessThan(60);
+      }
+    });
+
+    const high = getPatternsByAggressiveness('high');
+    const structuralCount = getPatternsByCategory('structural').length;
+    expect(high.slice(0, structuralCount).every(pattern => pattern.category === 'structural')).toBe(true);
+  });
+
+  test('should ship max as high plus the max patterns', () => {
+    expect(ids('max')).toEqual([...ids('high'), 'max-remove-all-explanations', 'max-convert-paragraphs-to-bullets']);
+    expect(getAggressivenessProfileNames()).toEqual(['low', 'medium', 'high', 'max']);
+  });
+
+  test('should accept max in the PromptOptimizer', () => {
+    const text = 'Review the plan before the meeting. This could delay the launch otherwise.';
+    const optimizer = new PromptOptimizer({ model, aggressiveness: 'high', preserveFormatting: false });
+    const highResult = optimizer.optimize(text);
+
+    optimizer.setAggressiveness('max');
+    const maxResult = optimizer.optimize(text);
+
+    expect(maxResult.appliedPatterns.map(info => info.id)).toContain('max-remove-all-explanations');
+    expect(maxResult.optimizedText).not.toBe(highResult.optimizedText);
+  });
+
+  test('should register and use a custom profile', () => {
+    registerAggressivenessProfile({
+      name: 'fillers-only',
+      categories: ['filler'],
+      includePatternIds: ['max-remove-all-explanations'],
+      excludePatternIds: [getPatternsByCategory('filler')[0].id]
+    });
+
+    const fillerIds = getPatternsByCategory('filler').map(pattern => pattern.id);
+    expect(ids('fillers-only')).toEqual([...fillerIds.slice(1), 'max-remove-all-explanations']);
+    expect(getAggressivenessProfileNames()).toContain('fillers-only');
+
+    const optimizer = new PromptOptimizer({ model });
+    expect(() => optimizer.setAggressiveness('fillers-only')).not.toThrow();
+
+    unregisterAggressivenessProfile('fillers-only');
+    expect(() => optimizer.setAggressiveness('fillers-only')).toThrow(OptimizerError);
+  });
+
+  test('should reject invalid profiles and redefining built-in levels', () => {
+    expect(() => registerAggressivenessProfile({ name: '', categories: [] })).toThrow(OptimizerError);
+    expect(() => registerAggressivenessProfile({ name: 'max', categories: ['filler'] })).toThrow(OptimizerError);
+    expect(() => registerAggressivenessProfile({
+      name: 'fillers-only',
+      categories: [{ category: 'filler', maxPriority: 'high' as any }]
+    })).toThrow(OptimizerError);
+    expect(() => registerAggressivenessProfile({
+      name: 'fillers-only',
+      categories: ['filler'],
+      excludePatternIds: 'remove-please' as any
+    })).toThrow(OptimizerError);
+  });
+});
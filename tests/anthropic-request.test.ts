@@ -0,0 +1,111 @@
+import {
+  PromptOptimizer,
+  OptimizerError,
+  ClaudeTokenizer,
+  AnthropicMessagesRequest,
+  countContentTokens
+} from '../src/index';
+
+describe('Anthropic Request Optimization', () => {
+  const model = 'claude-3-5-sonnet-20241022';
+  const verbose = 'I would like you to make sure that you provide a summary in order to help the team.';
+
+  const request: AnthropicMessagesRequest = {
+    model,
+    max_tokens: 1024,
+    system: [
+      { type: 'text', text: `You are a helpful assistant. ${verbose}`, cache_control: { type: 'ephemeral' } },
+      { type: 'text', text: verbose }
+    ],
+    messages: [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: verbose },
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }
+        ]
+      },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: verbose },
+          { type: 'tool_use', id: 'toolu_1', name: 'search', input: { query: 'summary' } }
+        ]
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_1', content: verbose },
+          { type: 'text', text: verbose }
+        ]
+      }
+    ]
+  };
+
+  test('should only rewrite text blocks after the cache breakpoint', () => {
+    const optimizer = new PromptOptimizer();
+    const result = optimizer.optimizeAnthropicRequest(request);
+    const system = result.optimizedRequest.system as any[];
+
+    // The cached prefix is untouched, including its cache_control marker
+    expect(system[0]).toBe((request.system as any[])[0]);
+    expect(system[1].text).not.toBe(verbose);
+
+    expect(result.blocks.map(block => [block.location, block.role, block.cached, block.policy])).toEqual([
+      ['system', 'system', true, 'high'],
+      ['system', 'system', false, 'high'],
+      ['messages', 'user', false, 'low'],
+      ['messages', 'assistant', false, 'none'],
+      ['messages', 'user', false, 'low']
+    ]);
+
+    const messages = result.optimizedRequest.messages as any[];
+    expect(messages[0].content[1]).toBe((request.messages[0].content as any[])[1]);
+    expect(messages[1]).toEqual(request.messages[1]);
+    expect(messages[2].content[0]).toBe((request.messages[2].content as any[])[0]);
+    expect(messages[2].content[1].text).not.toBe(verbose);
+    expect(result.optimizedRequest.max_tokens).toBe(1024);
+    expect((request.system as any[])[1].text).toBe(verbose);
+  });
+
+  test('should count tokens with the Claude tokenizer', () => {
+    const tokenizer = new ClaudeTokenizer(model);
+    const count = (text: string) => tokenizer.countTokens(text);
+    const result = new PromptOptimizer().optimizeAnthropicRequest(request);
+
+    const expected = countContentTokens(request.system, count) +
+      request.messages.reduce((total, message) => total + countContentTokens(message.content, count), 0);
+    expect(result.originalTokenCount).toBe(expected);
+    expect(result.blocks[0].originalTokenCount).toBe(count(`You are a helpful assistant. ${verbose}`));
+    expect(result.tokensSaved).toBe(result.blocks.reduce((total, block) => total + block.tokensSaved, 0));
+    expect(result.tokensSaved).toBeGreaterThan(0);
+  });
+
+  test('should freeze everything up to a breakpoint in a later message', () => {
+    const cachedConversation: AnthropicMessagesRequest = {
+      model,
+      system: verbose,
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: verbose, cache_control: { type: 'ephemeral' } }] },
+        { role: 'user', content: verbose }
+      ]
+    };
+    const result = new PromptOptimizer().optimizeAnthropicRequest(cachedConversation);
+
+    expect(result.optimizedRequest.system).toBe(verbose);
+    expect(result.blocks.map(block => block.cached)).toEqual([true, true, false]);
+    expect(result.optimizedRequest.messages[1].content).not.toBe(verbose);
+  });
+
+  test('should reject invalid requests', () => {
+    const optimizer = new PromptOptimizer();
+
+    expect(() => optimizer.optimizeAnthropicRequest({ model } as any)).toThrow(OptimizerError);
+    expect(() => optimizer.optimizeAnthropicRequest({
+      model,
+      messages: [{ role: 'system', content: 'hi' }]
+    } as any)).toThrow(OptimizerError);
+    expect(() => optimizer.optimizeAnthropicRequest({ model, messages: [{ role: 'user', content: 5 }] } as any))
+      .toThrow(OptimizerError);
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  PromptOptimizer,
+  OptimizerError,
+  ClaudeTokenizer,
+  ChatMessage,
+  checkFit,
+  splitTextSections,
+  countConversationTokens,
+  registerModel,
+  unregisterModel
+} from '../src/index';
+
+describe('Context Window Guard', () => {
+  const model = 'acme-small';
+  // Created per call since the tokenizer reads the model's encoding from the registry
+  const count = (text: string) => new ClaudeTokenizer(model).countTokens(text);
+
+  const prompt = [
+    'You are a support agent for Acme routers.',
+    '## Policies',
+    'Never share account passwords. Always confirm the customer identity before changing any settings on the router.',
+    '## Tone',
+    'Be friendly.'
+  ].join('\n\n');
+
+  beforeEach(() => {
+    registerModel({ id: model, family: 'acme', tokenizer: 'claude', contextWindow: 40, maxOutputTokens: 20 });
+  });
+
+  afterEach(() => {
+    unregisterModel(model);
+  });
+
+  test('should split text into heading sections or paragraphs', () => {
+    expect(splitTextSections(prompt).map(section => section.label)).toEqual(['Preamble', 'Policies', 'Tone']);
+    expect(splitTextSections(prompt)[2]).toEqual({
+      label: 'Tone',
+      start: prompt.indexOf('## Tone'),
+      end: prompt.length,
+      text: '## Tone\n\nBe friendly.'
+    });
+    expect(splitTextSections('First.\n\n  \nSecond line\nstill second.\n').map(section => section.text))
+      .toEqual(['First.', 'Second line\nstill second.']);
+    expect(splitTextSections('   ')).toEqual([]);
+  });
+
+  test('should report the overflow and the largest sections of a text', () => {
+    const fit = checkFit(prompt, model, { reserveOutputTokens: 10, maxSections: 2 });
+
+    expect(fit.model).toBe(model);
+    expect(fit.availableTokens).toBe(30);
+    expect(fit.tokenCount).toBe(count(prompt));
+    expect(fit.fits).toBe(false);
+    expect(fit.overflowTokens).toBe(count(prompt) - 30);
+    expect(fit.largestSections.map(section => section.label)).toEqual(['Policies', 'Preamble']);
+    expect(fit.largestSections[0].tokenCount).toBe(count(prompt.slice(fit.largestSections[0].start, fit.largestSections[0].end)));
+
+    const roomy = checkFit('Be friendly.', 'claude-3-5-sonnet-20240620', { reserveOutputTokens: 8192 });
+    expect(roomy).toMatchObject({ contextWindow: 200000, availableTokens: 191808, fits: true, overflowTokens: 0 });
+  });
+
+  test('should check conversations message by message', () => {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: 'You are a support agent.' },
+      { role: 'user', content: 'My router drops the connection every evening, what should I check first?' }
+    ];
+    const fit = checkFit(messages, model);
+
+    expect(fit.tokenCount).toBe(countConversationTokens(messages, count));
+    expect(fit.largestSections[0]).toMatchObject({ label: 'messages[1] (user)', messageIndex: 1 });
+    expect(fit.overflowTokens).toBe(Math.max(0, fit.tokenCount - 40));
+  });
+
+  test('should report the fit of optimized text when enforceContextWindow is enabled', () => {
+    const optimizer = new PromptOptimizer({ model });
+    expect(optimizer.optimize(prompt).contextFit).toBeUndefined();
+
+    optimizer.setEnforceContextWindow({ reserveOutputTokens: 20, maxSections: 1 });
+    const result = optimizer.optimize(prompt);
+    expect(result.contextFit).toEqual(checkFit(result.optimizedText, model, { reserveOutputTokens: 20, maxSections: 1 }));
+    expect(result.contextFit!.fits).toBe(false);
+
+    const budget = new PromptOptimizer({ model, enforceContextWindow: true }).optimizeToBudget('Be friendly.', 100);
+    expect(budget.contextFit).toMatchObject({ reserveOutputTokens: 0, fits: true });
+  });
+
+  test('should leave the fit out for models without a known context window', () => {
+    const optimizer = new PromptOptimizer({ model: 'acme-unlisted', enforceContextWindow: true });
+
+    expect(optimizer.optimize(prompt).contextFit).toBeUndefined();
+    expect(optimizer.optimizeBatch([prompt, 'Be friendly.']).results.every(result => !result.contextFit)).toBe(true);
+  });
+
+  test('should reject unknown models and invalid options', () => {
+    expect(() => checkFit(prompt, 'unknown-model')).toThrow(OptimizerError);
+    expect(() => checkFit(prompt, model, { reserveOutputTokens: 41 })).toThrow(OptimizerError);
+    expect(() => checkFit(prompt, model, { maxSections: -1 })).toThrow(OptimizerError);
+    expect(() => checkFit([{ content: 'hi' }] as any, model)).toThrow(OptimizerError);
+    expect(() => new PromptOptimizer({ model }).setEnforceContextWindow('yes' as any)).toThrow(OptimizerError);
+  });
+});
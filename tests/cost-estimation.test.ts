@@ -0,0 +1,86 @@
+import {
+  PromptOptimizer,
+  OptimizerError,
+  estimateInputCost,
+  projectSavings,
+  registerModel,
+  unregisterModel
+} from '../src/index';
+
+describe('Cost Estimation', () => {
+  const model = 'claude-3-5-sonnet-20240620';
+  const prompt = 'I would like you to please make sure that you provide a summary in order to help the team.';
+
+  afterEach(() => {
+    unregisterModel('acme-chat-1');
+  });
+
+  test('should estimate the input cost saved per call from the model registry', () => {
+    const result = new PromptOptimizer({ model }).optimize(prompt);
+
+    expect(result.tokensSaved).toBeGreaterThan(0);
+    expect(result.costEstimate).toEqual({
+      inputPricePerMillion: 3,
+      originalCost: result.originalTokenCount * 3 / 1000000,
+      optimizedCost: result.optimizedTokenCount * 3 / 1000000,
+      costSaved: expect.any(Number)
+    });
+    expect(result.costEstimate!.costSaved).toBeCloseTo(result.tokensSaved * 3 / 1000000, 12);
+  });
+
+  test('should use prices from the config over the model registry', () => {
+    const optimizer = new PromptOptimizer({ model, pricing: { input: 1.5, output: 7.5 } });
+    expect(optimizer.optimize(prompt).costEstimate!.inputPricePerMillion).toBe(1.5);
+    expect(optimizer.optimizeToBudget(prompt, 1000).costEstimate!.inputPricePerMillion).toBe(1.5);
+
+    optimizer.setPricing(undefined);
+    expect(optimizer.optimize(prompt).costEstimate!.inputPricePerMillion).toBe(3);
+
+    expect(() => optimizer.setPricing({ input: -1, output: 0 })).toThrow(OptimizerError);
+    expect(() => new PromptOptimizer({ model, pricing: { input: 1 } as any })).toThrow(OptimizerError);
+  });
+
+  test('should leave out the estimate when prices are unknown', () => {
+    registerModel({ id: 'acme-chat-1', family: 'acme', tokenizer: 'claude', contextWindow: 8000, maxOutputTokens: 1000 });
+    const result = new PromptOptimizer({ model: 'acme-chat-1' }).optimize(prompt);
+
+    expect(result.costEstimate).toBeUndefined();
+    expect(projectSavings(result, { callsPerDay: 100 })).toEqual({
+      callsPerDay: 100,
+      daysPerMonth: 30,
+      tokensSavedPerDay: result.tokensSaved * 100,
+      tokensSavedPerMonth: result.tokensSaved * 3000,
+      costSavedPerDay: null,
+      costSavedPerMonth: null
+    });
+  });
+
+  test('should aggregate costs over a batch', () => {
+    const optimizer = new PromptOptimizer({ model });
+    const texts = [prompt, 'Summarize the report.', `${prompt} It is really important that you be concise.`];
+    const batch = optimizer.optimizeBatch(texts);
+
+    expect(batch.results).toHaveLength(3);
+    expect(batch.results[1].optimizedText).toBe(optimizer.optimize(texts[1]).optimizedText);
+    expect(batch.originalTokenCount).toBe(batch.results.reduce((sum, result) => sum + result.originalTokenCount, 0));
+    expect(batch.tokensSaved).toBe(batch.results.reduce((sum, result) => sum + result.tokensSaved, 0));
+    expect(batch.costEstimate).toEqual(estimateInputCost(batch.originalTokenCount, batch.optimizedTokenCount, { input: 3, output: 15 }));
+    expect(optimizer.optimizeBatch([]).percentSaved).toBe(0);
+
+    expect(() => optimizer.optimizeBatch(['ok', 42] as any)).toThrow(OptimizerError);
+  });
+
+  test('should project monthly savings', () => {
+    const result = { tokensSaved: 200, costEstimate: estimateInputCost(1000, 800, { input: 2.5, output: 10 }) };
+    const projection = projectSavings(result, { callsPerDay: 10000 });
+
+    expect(projection.tokensSavedPerDay).toBe(2000000);
+    expect(projection.tokensSavedPerMonth).toBe(60000000);
+    expect(projection.costSavedPerDay).toBeCloseTo(5, 10);
+    expect(projection.costSavedPerMonth).toBeCloseTo(150, 10);
+    expect(projectSavings(result, { callsPerDay: 10000, daysPerMonth: 31 }).costSavedPerMonth).toBeCloseTo(155, 10);
+
+    expect(() => projectSavings(result, { callsPerDay: -1 })).toThrow(OptimizerError);
+    expect(() => projectSavings(result, { callsPerDay: 1, daysPerMonth: 0 })).toThrow(OptimizerError);
+  });
+});
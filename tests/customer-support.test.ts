@@ -80,7 +80,8 @@ describe('Customer Support Conversation Optimization', () => {
   beforeEach(() => {
     optimizer = new PromptOptimizer({
       model: 'gpt-4', // Testing with high-end model commonly used in production
-      aggressiveness: 'medium'
+      aggressiveness: 'medium',
+      protectRegions: false // The custom patterns below deliberately rewrite the quoted "Final Sale" literal
     });
 
     // Add custom patterns specifically for customer support content
@@ -0,0 +1,98 @@
+import { PromptOptimizer, OptimizerError, extractDirectives, findLostDirectives } from '../src/index';
+import { PatternOptimizer } from '../src/optimizers';
+import { OptimizationPattern } from '../src/types';
+
+describe('Directive Preservation', () => {
+  const model = 'gpt-3.5-turbo';
+
+  const systemPrompt = [
+    'You are a support agent for Acme.',
+    'You CANNOT process refunds.',
+    'NEVER share account data with third parties.',
+    'You must always reply in English.',
+    'IMPORTANT: escalate legal threats to a supervisor.'
+  ].join('\n');
+
+  describe('extractDirectives', () => {
+    test('should find prohibitions, requirements and emphasis', () => {
+      const directives = extractDirectives(systemPrompt);
+
+      expect(directives.map(directive => [directive.kind, directive.keyword])).toEqual([
+        ['prohibition', 'cannot'],
+        ['prohibition', 'never'],
+        ['requirement', 'must'],
+        ['emphasis', 'important']
+      ]);
+      expect(directives[0].terms).toEqual(['proces', 'refund']);
+    });
+
+    test('should accept rewording and merging into a list', () => {
+      const before = extractDirectives('You cannot process refunds. Never share account data.');
+
+      expect(findLostDirectives(before, "Don't process refunds or share account data.")).toEqual([]);
+      expect(findLostDirectives(before, 'Cannot: process refunds; share account data.')).toEqual([]);
+    });
+
+    test('should report directives that were dropped or lost their prohibition', () => {
+      const before = extractDirectives('You cannot process refunds. Never share account data.');
+      const lost = findLostDirectives(before, 'You can process refunds. Never share account data.');
+
+      expect(lost.map(directive => directive.text)).toEqual(['You cannot process refunds.']);
+    });
+  });
+
+  describe('PatternOptimizer', () => {
+    const patterns: OptimizationPattern[] = [
+      {
+        id: 'drop-constraints',
+        category: 'test',
+        description: 'Careless constraint condensing',
+        find: /\n(?:You CANNOT|NEVER)[^\n]*/g,
+        replace: ''
+      },
+      {
+        id: 'shorten-role',
+        category: 'test',
+        description: 'Shorten role definition',
+        find: /\bYou are a support agent for\b/g,
+        replace: 'Support agent,'
+      }
+    ];
+
+    test('should revert steps that drop a directive and report it', () => {
+      const optimizer = new PatternOptimizer(patterns, model);
+      const result = optimizer.optimize(systemPrompt);
+
+      expect(result.optimizedText).toContain('You CANNOT process refunds.');
+      expect(result.optimizedText).toContain('NEVER share account data');
+      expect(result.appliedPatterns.map(info => info.id)).toEqual(['shorten-role']);
+      expect(result.revertedPatterns!.map(info => [info.id, info.reason])).toEqual([
+        ['drop-constraints', 'directive-lost']
+      ]);
+      expect(result.directiveViolations).toHaveLength(1);
+      expect(result.directiveViolations![0].lost.map(directive => directive.text)).toEqual([
+        'You CANNOT process refunds.',
+        'NEVER share account data with third parties.'
+      ]);
+    });
+
+    test('should allow dropping directives when preservation is off', () => {
+      const optimizer = new PatternOptimizer(patterns, model, true, true, {
+        preserveDirectives: false,
+        invariantCheck: 'off'
+      });
+      const result = optimizer.optimize(systemPrompt);
+
+      expect(result.optimizedText).not.toContain('CANNOT');
+      expect(result.directiveViolations).toBeUndefined();
+    });
+  });
+
+  test('should keep directives through the built-in patterns', () => {
+    const optimizer = new PromptOptimizer({ model, aggressiveness: 'high' });
+    const result = optimizer.optimize(systemPrompt);
+
+    expect(findLostDirectives(extractDirectives(systemPrompt), result.optimizedText)).toEqual([]);
+    expect(() => optimizer.setPreserveDirectives('yes' as any)).toThrow(OptimizerError);
+  });
+});
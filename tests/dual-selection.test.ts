@@ -0,0 +1,101 @@
+import { DualOptimizer, OptimizerError, DEFAULT_PATTERN_RISK } from '../src/optimizers';
+import { getPatternsByAggressiveness, AGGRESSIVENESS_LEVEL_RISK } from '../src/patterns';
+import { OptimizationPattern } from '../src/types';
+
+describe('DualOptimizer Pattern Selection', () => {
+  const model = 'gpt-3.5-turbo';
+
+  const patterns: OptimizationPattern[] = [
+    { id: 'clarify', category: 'quality', description: 'Spell out e.g.', find: /\be\.g\.,?/g, replace: 'for example,' },
+    { id: 'safe-trim', category: 'redundancy', description: 'Remove please', find: /\bPlease write\b/g, replace: 'Write', risk: 0.1 },
+    { id: 'default-risk', category: 'verbosity', description: 'Shorten in order to', find: /\bin order to\b/g, replace: 'to' },
+    { id: 'risky-trim', category: 'verbosity', description: 'Drop very', find: /\bvery short\b/g, replace: 'short', risk: 0.9 }
+  ];
+
+  const text = 'Please write a very short summary in order to brief the team, e.g. managers.';
+
+  const selected = (balance: number) => {
+    const optimizer = new DualOptimizer({ model, qualityVsEfficiencyBalance: balance, customPatterns: patterns });
+    return optimizer.optimize(text).patternSelection.patterns
+      .filter(info => info.included)
+      .map(info => info.id);
+  };
+
+  test('should give the same output on every call', () => {
+    const optimizer = new DualOptimizer({ model, qualityVsEfficiencyBalance: 0.5, customPatterns: patterns });
+    const outputs = new Set(Array.from({ length: 5 }, () => optimizer.optimize(text).optimizedText));
+
+    expect(outputs.size).toBe(1);
+  });
+
+  test('should include efficiency patterns whose risk is within the tolerance', () => {
+    expect(selected(0)).toEqual(['safe-trim', 'default-risk', 'risky-trim']);
+    expect(selected(0.05)).toEqual(['clarify', 'safe-trim', 'default-risk', 'risky-trim']);
+    expect(selected(0.5)).toEqual(['clarify', 'safe-trim', 'default-risk']);
+    expect(selected(0.8)).toEqual(['clarify', 'safe-trim']);
+    expect(selected(1)).toEqual(['clarify']);
+  });
+
+  test('should explain every decision', () => {
+    const optimizer = new DualOptimizer({ model, qualityVsEfficiencyBalance: 0.7, customPatterns: patterns });
+    const selection = optimizer.optimize(text).patternSelection;
+
+    expect(selection.qualityVsEfficiencyBalance).toBe(0.7);
+    expect(selection.riskTolerance).toBeCloseTo(0.3);
+    expect(selection.patterns).toEqual([
+      { id: 'clarify', group: 'quality', included: true, reason: 'quality-pattern' },
+      { id: 'safe-trim', group: 'efficiency', included: true, reason: 'within-risk-tolerance', risk: 0.1 },
+      { id: 'default-risk', group: 'efficiency', included: false, reason: 'above-risk-tolerance', risk: 0.5 },
+      { id: 'risky-trim', group: 'efficiency', included: false, reason: 'above-risk-tolerance', risk: 0.9 }
+    ]);
+  });
+
+  test('should grade built-in efficiency patterns by their aggressiveness level', () => {
+    const builtIn = getPatternsByAggressiveness('max');
+    const verbosityIds = builtIn.filter(pattern => pattern.category === 'verbosity').map(pattern => pattern.id);
+    const selectedBuiltIn = (balance: number) => {
+      const optimizer = new DualOptimizer({ model, qualityVsEfficiencyBalance: balance, customPatterns: builtIn });
+      return optimizer.optimize('').patternSelection.patterns;
+    };
+    const included = (balance: number, group: 'quality' | 'efficiency') => selectedBuiltIn(balance)
+      .filter(info => info.group === group && info.included)
+      .map(info => info.id);
+
+    // Only verbosity patterns are efficiency patterns; they come with the medium level's risk
+    const efficiency = selectedBuiltIn(0.5).filter(info => info.group === 'efficiency');
+    expect(efficiency.map(info => info.id)).toEqual(verbosityIds);
+    expect(efficiency.every(info => info.risk === AGGRESSIVENESS_LEVEL_RISK.medium)).toBe(true);
+
+    // Below the default risk, so they are kept at balances where unrated patterns are dropped
+    expect(AGGRESSIVENESS_LEVEL_RISK.medium).toBeLessThan(DEFAULT_PATTERN_RISK);
+    expect(included(0.55, 'efficiency')).toEqual(verbosityIds);
+    expect(included(0.7, 'efficiency')).toEqual([]);
+
+    // Patterns of the other categories are quality patterns at any balance above 0
+    const qualityCount = builtIn.length - verbosityIds.length;
+    expect(included(0.7, 'quality')).toHaveLength(qualityCount);
+    expect(included(1, 'quality')).toHaveLength(qualityCount);
+  });
+
+  test('should keep custom patterns of built-in categories as quality patterns', () => {
+    const optimizer = new DualOptimizer({
+      model,
+      qualityVsEfficiencyBalance: 1,
+      customPatterns: [{ id: 'tidy', category: 'formatting', description: 'Collapse spaces', find: / {2,}/g, replace: ' ' }]
+    });
+    const result = optimizer.optimize('Summarize  the  report.');
+
+    expect(result.optimizedText).toBe('Summarize the report.');
+    expect(result.patternSelection.patterns).toEqual([
+      { id: 'tidy', group: 'quality', included: true, reason: 'quality-pattern' }
+    ]);
+  });
+
+  test('should reject invalid risk scores', () => {
+    expect(() => new DualOptimizer({
+      model,
+      qualityVsEfficiencyBalance: 0.5,
+      customPatterns: [{ ...patterns[1], risk: 2 }]
+    })).toThrow(OptimizerError);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  PromptOptimizer,
+  OptimizerError,
+  detectExampleBlocks,
+  shingleSimilarity
+} from '../src/index';
+
+describe('Few-Shot Example Pruning', () => {
+  const model = 'claude-3-5-sonnet-20240620';
+
+  const xmlPrompt = [
+    'Classify the sentiment of the review.',
+    '',
+    '<examples>',
+    '<example>Review: The battery lasts all day and charges fast. Sentiment: positive</example>',
+    '<example>Review: The battery lasts all day and charges quickly. Sentiment: positive</example>',
+    '<example>Review: The screen cracked after one week of normal use. Sentiment: negative</example>',
+    '<example>Review: Shipping took a month and support never replied. Sentiment: negative</example>',
+    '</examples>',
+    '',
+    'Answer with one word.'
+  ].join('\n');
+
+  test('should detect XML, markdown and Input/Output examples', () => {
+    const text = [
+      '## Examples',
+      '',
+      '### Example 1',
+      'Translate "cat" to French: chat',
+      '',
+      '### Example 2',
+      'Translate "dog" to French: chien',
+      '',
+      '## Task',
+      '',
+      'Input: Translate "bird"',
+      'Output: oiseau',
+      '',
+      'Input: no output follows',
+      '',
+      '<example>Hello</example>'
+    ].join('\n');
+    const blocks = detectExampleBlocks(text);
+
+    expect(blocks.map(block => block.format)).toEqual(['markdown', 'markdown', 'input-output', 'xml']);
+    expect(blocks[0].text).toBe('### Example 1\nTranslate "cat" to French: chat');
+    expect(blocks[1].text).toBe('### Example 2\nTranslate "dog" to French: chien');
+    expect(blocks[2].text).toBe('Input: Translate "bird"\nOutput: oiseau');
+    blocks.forEach(block => expect(text.slice(block.start, block.end)).toBe(block.text));
+  });
+
+  test('should not report Input/Output pairs inside an XML example again', () => {
+    const blocks = detectExampleBlocks('<example>\nInput: 2 + 2\nOutput: 4\n</example>');
+    expect(blocks.map(block => block.format)).toEqual(['xml']);
+  });
+
+  test('should measure shingle similarity', () => {
+    expect(shingleSimilarity('the quick brown fox', 'The quick brown fox')).toBe(1);
+    expect(shingleSimilarity('the quick brown fox', 'a lazy sleeping dog')).toBe(0);
+    expect(shingleSimilarity('one two three four', 'one two three five')).toBeCloseTo(1 / 3);
+  });
+
+  test('should drop near-duplicate examples', () => {
+    const result = new PromptOptimizer({ model }).pruneExamples(xmlPrompt, { similarityThreshold: 0.5 });
+
+    expect(result.examples).toHaveLength(4);
+    expect(result.droppedExamples).toHaveLength(1);
+    expect(result.droppedExamples[0]).toMatchObject({ index: 1, dropReason: 'duplicate', duplicateOf: 0 });
+    expect(result.droppedExamples[0].similarity).toBeGreaterThanOrEqual(0.5);
+    expect(result.prunedText).not.toContain('charges quickly');
+    expect(result.prunedText).toContain('charges fast. Sentiment: positive</example>\n<example>Review: The screen');
+    expect(result.tokensSaved).toBeGreaterThan(0);
+  });
+
+  test('should keep the most diverse examples within the budget', () => {
+    const optimizer = new PromptOptimizer({ model });
+    const all = optimizer.pruneExamples(xmlPrompt, { similarityThreshold: 1 });
+    expect(all.droppedExamples).toHaveLength(0);
+    expect(all.prunedText).toBe(xmlPrompt);
+
+    // Room for two examples: the first one, then the least similar to it
+    const budget = all.examples[0].tokenCount + all.examples[3].tokenCount;
+    const result = optimizer.pruneExamples(xmlPrompt, { similarityThreshold: 1, maxExampleTokens: budget });
+
+    expect(result.examples.map(example => example.kept)).toEqual([true, false, false, true]);
+    expect(result.droppedExamples.map(example => example.dropReason)).toEqual(['budget', 'budget']);
+    expect(result.keptExampleTokens).toBeLessThanOrEqual(budget);
+    expect(result.prunedText).toContain('Answer with one word.');
+  });
+
+  test('should keep instructions that follow the last markdown example', () => {
+    const instruction = 'Now classify the following review and answer with one word.';
+    const markdownPrompt = [
+      '## Example 1',
+      'Review: The battery lasts all day and charges fast.',
+      '',
+      'Sentiment: positive',
+      '',
+      '## Example 2',
+      'Review: The screen cracked after one week of normal use.',
+      '',
+      'Sentiment: negative',
+      '',
+      instruction
+    ].join('\n');
+
+    const blocks = detectExampleBlocks(markdownPrompt);
+    expect(blocks.map(block => block.text)).toEqual([
+      '## Example 1\nReview: The battery lasts all day and charges fast.\n\nSentiment: positive',
+      '## Example 2\nReview: The screen cracked after one week of normal use.\n\nSentiment: negative'
+    ]);
+
+    const result = new PromptOptimizer({ model }).pruneExamples(markdownPrompt, { maxExampleTokens: 20 });
+    expect(result.droppedExamples.map(example => example.index)).toContain(1);
+    expect(result.prunedText).not.toContain('screen cracked');
+    expect(result.prunedText.endsWith(instruction)).toBe(true);
+  });
+
+  test('should reject invalid options', () => {
+    const optimizer = new PromptOptimizer({ model });
+
+    expect(() => optimizer.pruneExamples(xmlPrompt, { maxExampleTokens: -1 })).toThrow(OptimizerError);
+    expect(() => optimizer.pruneExamples(xmlPrompt, { similarityThreshold: 2 })).toThrow(OptimizerError);
+    expect(() => optimizer.pruneExamples(xmlPrompt, { shingleSize: 0 })).toThrow(OptimizerError);
+  });
+});
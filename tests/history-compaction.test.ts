@@ -0,0 +1,105 @@
+import {
+  PromptOptimizer,
+  OptimizerError,
+  ChatMessage,
+  ClaudeTokenizer,
+  countConversationTokens,
+  HISTORY_DIGEST_HEADER
+} from '../src/index';
+
+describe('Conversation History Compaction', () => {
+  const model = 'claude-3-5-sonnet-20240620';
+  const tokenizer = new ClaudeTokenizer(model);
+  const count = (messages: ChatMessage[]) => countConversationTokens(messages, text => tokenizer.countTokens(text));
+
+  const verbose = 'I would like you to make sure that you provide a summary in order to help the team.';
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'You are a support agent for Acme routers.' },
+    { role: 'user', content: `My router drops the connection every evening. ${verbose} Can you help me with that?` },
+    { role: 'assistant', content: `Please note that it is really important to check the firmware. ${verbose}` },
+    { role: 'user', content: `The firmware is version 2.4.1 and the router model is AX3000. ${verbose}` },
+    { role: 'assistant', content: `We decided to schedule a firmware update to 2.5.0 tonight. ${verbose}` },
+    { role: 'user', content: 'Thanks, that worked.' },
+    { role: 'assistant', content: 'Great, glad to help.' }
+  ];
+
+  test('should leave a conversation that fits unchanged', () => {
+    const result = new PromptOptimizer({ model }).compactHistory(messages, { targetTokens: 10000 });
+
+    expect(result.stage).toBe('none');
+    expect(result.targetMet).toBe(true);
+    expect(result.compactedMessages).toEqual(messages);
+    expect(result.originalTokenCount).toBe(count(messages));
+  });
+
+  test('should optimize older turns before collapsing them', () => {
+    const optimizer = new PromptOptimizer({ model });
+    const target = count(messages) - 5;
+    const result = optimizer.compactHistory(messages, { targetTokens: target, keepLastTurns: 1 });
+
+    expect(result.stage).toBe('patterns');
+    expect(result.policy).toBe('low');
+    expect(result.targetMet).toBe(true);
+    expect(result.compactedMessages).toHaveLength(messages.length);
+    expect(result.compactedMessages[0]).toEqual(messages[0]);
+    expect(result.compactedMessages.slice(5)).toEqual(messages.slice(5));
+    expect(result.compactedTokenCount).toBe(count(result.compactedMessages));
+  });
+
+  test('should collapse the oldest turns into a digest of questions, decisions and key facts', () => {
+    const optimizer = new PromptOptimizer({ model });
+    const recent = [messages[0], ...messages.slice(5)];
+    const options = { targetTokens: count(recent) + 120, keepLastTurns: 1 };
+    const result = optimizer.compactHistory(messages, options);
+
+    expect(result.stage).toBe('digest');
+    expect(result.targetMet).toBe(true);
+    expect(result.policy).toBe('max');
+    expect(result.collapsedMessageCount).toBe(4);
+    expect(result.digest.map(entry => [entry.messageIndex, entry.kind, entry.text])).toEqual([
+      [1, 'question', 'Can you help me with that?'],
+      [3, 'key', 'The firmware is version 2.4.1 and the router model is AX3000.'],
+      [4, 'decision', 'We decided to schedule a firmware update to 2.5.0 tonight.']
+    ]);
+
+    expect(result.compactedMessages).toEqual([
+      messages[0],
+      {
+        role: 'system',
+        content: [
+          HISTORY_DIGEST_HEADER,
+          '- user: Can you help me with that?',
+          '- user: The firmware is version 2.4.1 and the router model is AX3000.',
+          '- assistant: We decided to schedule a firmware update to 2.5.0 tonight.'
+        ].join('\n')
+      },
+      ...messages.slice(5)
+    ]);
+
+    // Deterministic
+    expect(optimizer.compactHistory(messages, options)).toEqual(result);
+  });
+
+  test('should drop the oldest digest sentences when the digest does not fit', () => {
+    const optimizer = new PromptOptimizer({ model });
+    const recent = [messages[0], ...messages.slice(5)];
+    const trimmed = optimizer.compactHistory(messages, { targetTokens: count(recent) + 60, keepLastTurns: 1 });
+    expect(trimmed.targetMet).toBe(true);
+    expect(trimmed.digest.map(entry => entry.messageIndex)).toEqual([4]);
+
+    const result = optimizer.compactHistory(messages, { targetTokens: 0, keepLastTurns: 1, escalation: [] });
+    expect(result.targetMet).toBe(false);
+    expect(result.policy).toBeNull();
+    expect(result.digest).toEqual([]);
+    expect(result.compactedMessages).toEqual(recent);
+  });
+
+  test('should reject invalid options', () => {
+    const optimizer = new PromptOptimizer({ model });
+
+    expect(() => optimizer.compactHistory(messages, { targetTokens: -1 })).toThrow(OptimizerError);
+    expect(() => optimizer.compactHistory(messages, { targetTokens: 10, keepLastTurns: 1.5 })).toThrow(OptimizerError);
+    expect(() => optimizer.compactHistory(messages, { targetTokens: 10, escalation: ['extreme'] })).toThrow(OptimizerError);
+    expect(() => optimizer.compactHistory('hi' as any, { targetTokens: 10 })).toThrow(OptimizerError);
+  });
+});
@@ -0,0 +1,131 @@
+import { PromptOptimizer, OptimizerError, extractInvariants, findLostInvariants } from '../src/index';
+import { PatternOptimizer } from '../src/optimizers';
+import { OptimizationPattern } from '../src/types';
+
+describe('Semantic Invariants', () => {
+  const model = 'gpt-3.5-turbo';
+
+  const valuesOf = (text: string, type: string) =>
+    extractInvariants(text).filter(token => token.type === type).map(token => token.value);
+
+  describe('extractInvariants', () => {
+    test('should extract numbers with units, dates, URLs and emails', () => {
+      const text = 'Email ops@example.com by March 3, 2024 or see https://example.com/status. ' +
+        'Budget: $1,500 for 5GB and 200 ms latency.';
+
+      expect(valuesOf(text, 'email')).toEqual(['ops@example.com']);
+      expect(valuesOf(text, 'url')).toEqual(['https://example.com/status']);
+      expect(valuesOf(text, 'date')).toEqual(['March 3, 2024']);
+      expect(valuesOf(text, 'number')).toEqual(['$1500', '5 gb', '200 ms']);
+    });
+
+    test('should extract entities, quoted strings and negations', () => {
+      const text = 'Ask Alice at Acme Corp. Never use "legacy mode"; we don\'t support it and cannot test it.';
+
+      expect(valuesOf(text, 'entity')).toEqual(['Alice', 'Acme', 'Corp']);
+      expect(valuesOf(text, 'quoted')).toEqual(['legacy mode']);
+      expect(valuesOf(text, 'negation')).toEqual(['never', 'not', 'not']);
+    });
+
+    test('should treat harmless rewording as unchanged', () => {
+      const before = extractInvariants('We do not allow 1,000 requests. Contact Bob.');
+      const after = extractInvariants("We don't allow 1000 requests. Contact Bob.");
+
+      expect(findLostInvariants(before, after)).toEqual([]);
+    });
+  });
+
+  describe('PatternOptimizer', () => {
+    const patterns: OptimizationPattern[] = [
+      {
+        id: 'drop-not',
+        category: 'test',
+        description: 'Careless hedge removal',
+        find: /\bnot\s+/g,
+        replace: ''
+      },
+      {
+        id: 'remove-please',
+        category: 'test',
+        description: 'Remove please',
+        find: /\bplease\s+/gi,
+        replace: ''
+      }
+    ];
+
+    const text = 'Please do not delete the 3 backups.';
+
+    test('should flag steps that lose an invariant by default', () => {
+      const optimizer = new PatternOptimizer(patterns, model, true, true, { preserveDirectives: false });
+      const result = optimizer.optimize(text);
+
+      expect(result.optimizedText).toBe('do delete the 3 backups.');
+      expect(result.invariantViolations).toEqual([
+        { patternId: 'drop-not', lost: [{ type: 'negation', value: 'not' }], action: 'flagged' }
+      ]);
+    });
+
+    test('should revert steps that lose an invariant in revert mode', () => {
+      const optimizer = new PatternOptimizer(patterns, model, true, true, {
+        invariantCheck: 'revert',
+        preserveDirectives: false
+      });
+      const result = optimizer.optimize(text);
+
+      expect(result.optimizedText).toBe('do not delete the 3 backups.');
+      expect(result.invariantViolations![0].action).toBe('reverted');
+      expect(result.revertedPatterns!.map(info => [info.id, info.reason])).toEqual([
+        ['drop-not', 'invariant-violation']
+      ]);
+      expect(result.appliedPatterns.map(info => info.id)).toEqual(['remove-please']);
+    });
+
+    test('should leave a dropped directive to the directive check', () => {
+      const optimizer = new PatternOptimizer(patterns, model);
+      const result = optimizer.optimize(text);
+
+      // The directive check runs first and reverts the step, so the lost negation is not reported again
+      expect(result.optimizedText).toBe('do not delete the 3 backups.');
+      expect(result.directiveViolations!.map(violation => violation.patternId)).toEqual(['drop-not']);
+      expect(result.revertedPatterns!.map(info => [info.id, info.reason])).toEqual([['drop-not', 'directive-lost']]);
+      expect(result.invariantViolations).toEqual([]);
+    });
+
+    test('should report each pattern once across passes', () => {
+      const dropOneNot: OptimizationPattern = { ...patterns[0], id: 'drop-one-not', find: /\bnot\s+/ };
+      const twoNegations = 'The backups are not encrypted and not verified.';
+
+      const flagging = new PatternOptimizer([dropOneNot], model, true, true, { maxPasses: 2 });
+      const flagged = flagging.optimize(twoNegations);
+      expect(flagged.optimizedText).toBe('The backups are encrypted and verified.');
+      expect(flagged.appliedPatterns.map(info => info.id)).toEqual(['drop-one-not', 'drop-one-not']);
+      expect(flagged.invariantViolations).toEqual([
+        { patternId: 'drop-one-not', lost: [{ type: 'negation', value: 'not' }], action: 'flagged' }
+      ]);
+
+      const reverting = new PatternOptimizer([dropOneNot], model, true, true, { maxPasses: 2, invariantCheck: 'revert' });
+      const reverted = reverting.optimize(twoNegations);
+      expect(reverted.optimizedText).toBe(twoNegations);
+      expect(reverted.invariantViolations!.map(violation => violation.action)).toEqual(['reverted']);
+      expect(reverted.revertedPatterns!.map(info => info.id)).toEqual(['drop-one-not']);
+    });
+
+    test('should not report anything when the check is off', () => {
+      const optimizer = new PatternOptimizer(patterns, model, true, true, { invariantCheck: 'off' });
+      expect(optimizer.optimize(text).invariantViolations).toBeUndefined();
+      expect(() => optimizer.setOptions({ invariantCheck: 'strict' as any })).toThrow(OptimizerError);
+    });
+  });
+
+  test('should honor invariantCheck in the PromptOptimizer config', () => {
+    const optimizer = new PromptOptimizer({ model, invariantCheck: 'revert' });
+    const result = optimizer.optimize('I would like you to make sure that you do not exceed 500 words for Acme.');
+
+    expect(result.invariantViolations).toBeDefined();
+    expect(result.optimizedText).toMatch(/\bnot\b/);
+    expect(result.optimizedText).toMatch(/\b500\b/);
+    expect(result.optimizedText).toMatch(/\bAcme\b/);
+
+    expect(() => optimizer.setInvariantCheck('sometimes' as any)).toThrow(OptimizerError);
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  PromptOptimizer,
+  OptimizerError,
+  ChatMessage,
+  createTokenizer,
+  countMessageTokens,
+  countConversationTokens
+} from '../src/index';
+
+describe('Chat Message Optimization', () => {
+  const model = 'gpt-3.5-turbo';
+  const tokenizer = createTokenizer(model);
+  const count = (text: string) => tokenizer.countTokens(text);
+
+  const verbose = 'I would like you to make sure that you provide a summary in order to help the team.';
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: `You are a helpful assistant. ${verbose}` },
+    {
+      role: 'user',
+      content: [
+        { type: 'text', text: verbose },
+        { type: 'image_url', image_url: { url: 'https://example.com/chart.png' } }
+      ]
+    },
+    { role: 'assistant', content: verbose },
+    { role: 'tool', content: verbose, tool_call_id: 'call_1' }
+  ];
+
+  test('should count the chat format overhead', () => {
+    expect(countMessageTokens({ role: 'user', content: 'Hello' }, count)).toBe(3 + count('user') + count('Hello'));
+    expect(countMessageTokens({ role: 'user', content: 'Hello', name: 'bob' }, count))
+      .toBe(3 + count('user') + count('Hello') + 1 + count('bob'));
+    expect(countConversationTokens([], count)).toBe(3);
+  });
+
+  test('should optimize each message with its role policy', () => {
+    const optimizer = new PromptOptimizer({ model });
+    const result = optimizer.optimizeMessages(messages);
+
+    expect(result.messages.map(info => info.policy)).toEqual(['high', 'low', 'none', 'none']);
+    expect(result.messages[0].tokensSaved).toBeGreaterThan(0);
+    expect(result.optimizedMessages[2]).toEqual(messages[2]);
+    expect(result.optimizedMessages[3]).toEqual(messages[3]);
+    expect(result.messages[2].results).toEqual([]);
+
+    // Non-text parts are kept as they are
+    const parts = result.optimizedMessages[1].content as any[];
+    expect(parts[1]).toBe((messages[1].content as any[])[1]);
+    expect(result.messages[1].results).toHaveLength(1);
+
+    // Totals include the overhead of every message and the reply priming
+    expect(result.originalTokenCount).toBe(countConversationTokens(messages, count));
+    expect(result.optimizedTokenCount).toBe(countConversationTokens(result.optimizedMessages, count));
+    expect(result.tokensSaved).toBe(result.messages.reduce((total, info) => total + info.tokensSaved, 0));
+    expect(messages[0].content).toBe(`You are a helpful assistant. ${verbose}`);
+  });
+
+  test('should honor custom role policies', () => {
+    const optimizer = new PromptOptimizer({ model });
+    const result = optimizer.optimizeMessages([...messages.slice(0, 3), { role: 'critic', content: verbose }], {
+      rolePolicies: { system: 'none', assistant: 'medium' },
+      defaultPolicy: 'low'
+    });
+
+    expect(result.messages.map(info => info.policy)).toEqual(['none', 'low', 'medium', 'low']);
+    expect(result.optimizedMessages[0]).toEqual(messages[0]);
+    expect(result.messages[2].tokensSaved).toBeGreaterThan(0);
+  });
+
+  test('should reject invalid messages and policies', () => {
+    const optimizer = new PromptOptimizer({ model });
+
+    expect(() => optimizer.optimizeMessages('hello' as any)).toThrow(OptimizerError);
+    expect(() => optimizer.optimizeMessages([{ content: 'hi' } as any])).toThrow(OptimizerError);
+    expect(() => optimizer.optimizeMessages(messages, { rolePolicies: { user: 'extreme' } })).toThrow(OptimizerError);
+  });
+});
@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  OptimizerError,
+  OpenAITokenizer,
+  ClaudeTokenizer,
+  SimpleTokenizer,
+  createTokenizer,
+  countTokens,
+  getOpenAIEncodingName,
+  getModelInfo,
+  getRegisteredModels,
+  registerModel,
+  registerModels,
+  unregisterModel,
+  loadModelRegistryFile,
+  BUILT_IN_MODELS,
+  getModelFamilyRule,
+  resolveTokenizer,
+  ModelInfo
+} from '../src/index';
+
+describe('Model Registry', () => {
+  const customModel: ModelInfo = {
+    id: 'acme-chat-1',
+    family: 'acme',
+    tokenizer: 'openai',
+    encoding: 'o200k_base',
+    contextWindow: 64000,
+    maxOutputTokens: 8000,
+    pricing: { input: 1, output: 2 },
+    aliases: ['acme-chat']
+  };
+
+  afterEach(() => {
+    unregisterModel('acme-chat-1');
+    unregisterModel('acme-tiny');
+    unregisterModel('gpt-4o');
+  });
+
+  test('should look models up by ID, alias and dated snapshot', () => {
+    expect(getModelInfo('gpt-4o')).toMatchObject({ family: 'openai', encoding: 'o200k_base', contextWindow: 128000 });
+    expect(getModelInfo('GPT-4o')!.id).toBe('gpt-4o');
+    expect(getModelInfo('chatgpt-4o-latest')!.id).toBe('gpt-4o');
+    expect(getModelInfo('gpt-4o-2024-08-06')!.id).toBe('gpt-4o');
+    expect(getModelInfo('gpt-4o-mini-2024-07-18')!.id).toBe('gpt-4o-mini');
+    expect(getModelInfo('claude-3-5-sonnet-20241022')!.id).toBe('claude-3-5-sonnet-20240620');
+    expect(getModelInfo('claude-3-7-sonnet-20240729')!.pricing).toEqual({ input: 3, output: 15, cachedInput: 0.3 });
+    expect(getModelInfo('unknown-model')).toBeUndefined();
+    expect(getModelInfo('')).toBeUndefined();
+  });
+
+  test('should keep built-in models consistent', () => {
+    const names = new Set<string>();
+    BUILT_IN_MODELS.forEach(model => {
+      [model.id, ...(model.aliases || [])].forEach(name => {
+        expect(names.has(name)).toBe(false);
+        names.add(name);
+      });
+      expect(model.maxOutputTokens).toBeLessThanOrEqual(model.contextWindow);
+    });
+    expect(getRegisteredModels()).toHaveLength(BUILT_IN_MODELS.length);
+  });
+
+  test('should drive tokenizer selection and encodings', () => {
+    expect(createTokenizer('gemini-1.5-pro')).toBeInstanceOf(OpenAITokenizer);
+    expect(createTokenizer('claude-3-haiku')).toBeInstanceOf(ClaudeTokenizer);
+    expect(getOpenAIEncodingName('text-davinci-003')).toBe('p50k_base');
+    expect(getOpenAIEncodingName('gpt-4-turbo-preview')).toBe('cl100k_base');
+
+    registerModel(customModel);
+    const tokenizer = createTokenizer('acme-chat');
+    expect(tokenizer).toBeInstanceOf(OpenAITokenizer);
+    expect((tokenizer as OpenAITokenizer).getEncodingName()).toBe('o200k_base');
+
+    registerModel({ ...customModel, id: 'acme-tiny', tokenizer: 'simple', encoding: undefined, aliases: undefined });
+    expect(createTokenizer('acme-tiny')).toBeInstanceOf(SimpleTokenizer);
+  });
+
+  test('should fall back to model family rules for unregistered names', () => {
+    expect(getModelFamilyRule('gpt-5-preview')).toMatchObject({ family: 'openai', encoding: 'o200k_base' });
+    expect(getModelFamilyRule('TEXT-DAVINCI-002')).toMatchObject({ family: 'openai', encoding: 'p50k_base' });
+    expect(getModelFamilyRule('claude-2.1')).toMatchObject({ family: 'anthropic', encoding: 'claude-legacy' });
+    expect(getModelFamilyRule('in-house-model')).toBeUndefined();
+
+    // The same rule drives the tokenizer, its encoding and its resolution
+    expect(getOpenAIEncodingName('gpt-5-preview')).toBe('o200k_base');
+    expect(resolveTokenizer('mistral-nano-9')).toMatchObject({ source: 'model-family', name: 'openai-approximation' });
+    expect(resolveTokenizer('gpt-5-preview')).toMatchObject({ source: 'model-family', name: 'openai' });
+  });
+
+  test('should not count with the encoding of a replaced model', () => {
+    const text = 'Résumé: 東京での会議は午後３時に始まります。🙂🙂';
+
+    registerModel({ ...customModel, encoding: 'cl100k_base' });
+    const cl100k = countTokens(text, 'acme-chat-1');
+    expect(cl100k).toBe(new OpenAITokenizer('acme-chat-1').countTokens(text));
+
+    registerModel(customModel);
+    const o200k = new OpenAITokenizer('acme-chat-1').countTokens(text);
+    expect(o200k).not.toBe(cl100k);
+    expect(countTokens(text, 'acme-chat-1')).toBe(o200k);
+
+    unregisterModel('acme-chat-1');
+    expect(countTokens(text, 'acme-chat-1')).toBe(createTokenizer('acme-chat-1').countTokens(text));
+  });
+
+  test('should let registered models replace built-in ones until unregistered', () => {
+    const builtIn = getModelInfo('gpt-4o')!;
+    registerModel({ ...builtIn, pricing: { input: 2, output: 8 } });
+
+    expect(getModelInfo('gpt-4o-2024-08-06')!.pricing).toEqual({ input: 2, output: 8 });
+    expect(getRegisteredModels()).toHaveLength(BUILT_IN_MODELS.length);
+    expect(getRegisteredModels()[0].id).toBe('gpt-4o');
+
+    expect(unregisterModel('GPT-4O')).toBe(true);
+    expect(unregisterModel('gpt-4o')).toBe(false);
+    expect(getModelInfo('gpt-4o')!.pricing).toEqual({ input: 2.5, output: 10, cachedInput: 1.25 });
+  });
+
+  test('should load models from a local JSON file', () => {
+    const filePath = path.join(os.tmpdir(), `model-registry-${process.pid}.json`);
+    fs.writeFileSync(filePath, JSON.stringify({ models: [customModel] }));
+
+    try {
+      const loaded = loadModelRegistryFile(filePath);
+      expect(loaded.map(model => model.id)).toEqual(['acme-chat-1']);
+      expect(getModelInfo('acme-chat')).toEqual(customModel);
+      expect(createTokenizer('acme-chat-1')).toBeInstanceOf(OpenAITokenizer);
+    } finally {
+      fs.unlinkSync(filePath);
+    }
+
+    expect(() => loadModelRegistryFile(filePath)).toThrow(OptimizerError);
+  });
+
+  test('should reject invalid models', () => {
+    expect(() => registerModel({ ...customModel, id: '' })).toThrow(OptimizerError);
+    expect(() => registerModel({ ...customModel, tokenizer: 'sentencepiece' as any })).toThrow(OptimizerError);
+    expect(() => registerModel({ ...customModel, contextWindow: 0 })).toThrow(OptimizerError);
+    expect(() => registerModel({ ...customModel, maxOutputTokens: 100000 })).toThrow(OptimizerError);
+    expect(() => registerModel({ ...customModel, pricing: { input: -1, output: 2 } })).toThrow(OptimizerError);
+    expect(() => registerModel({ ...customModel, aliases: [''] })).toThrow(OptimizerError);
+    expect(() => registerModels({} as any)).toThrow(OptimizerError);
+
+    // Nothing is registered when one model is invalid
+    expect(() => registerModels([customModel, { ...customModel, id: 'acme-tiny', family: '' }])).toThrow(OptimizerError);
+    expect(getModelInfo('acme-chat-1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+import { PromptOptimizer, OptimizerError } from '../src/index';
+import { PatternOptimizer } from '../src/optimizers';
+import { OptimizationPattern } from '../src/types';
+
+describe('Multi-pass Optimization', () => {
+  const model = 'gpt-3.5-turbo';
+
+  // The first pattern only matches once the second one has removed "please"
+  const enablingPatterns = (): OptimizationPattern[] => [
+    {
+      id: 'condense-report',
+      category: 'test',
+      description: 'Condense "the full report"',
+      find: /\bthe full report\b/g,
+      replace: 'the report'
+    },
+    {
+      id: 'remove-please',
+      category: 'test',
+      description: 'Remove please',
+      find: /\bplease\s+/g,
+      replace: ''
+    }
+  ];
+
+  const text = 'Summarize the full please report for the board.';
+
+  test('should make a single pass by default', () => {
+    const optimizer = new PatternOptimizer(enablingPatterns(), model);
+    const result = optimizer.optimize(text);
+
+    expect(result.optimizedText).toBe('Summarize the full report for the board.');
+    expect(result.multiPass).toBeUndefined();
+  });
+
+  test('should rerun patterns until the text reaches a fixed point', () => {
+    const optimizer = new PatternOptimizer(enablingPatterns(), model, true, true, { maxPasses: 5 });
+    const result = optimizer.optimize(text);
+
+    expect(result.optimizedText).toBe('Summarize the report for the board.');
+    expect(result.multiPass!.stopReason).toBe('fixed-point');
+    expect(result.multiPass!.passes.map(pass => pass.appliedPatterns)).toEqual([
+      ['remove-please'],
+      ['condense-report'],
+      []
+    ]);
+    expect(result.multiPass!.passes[2].tokenCount).toBe(result.optimizedTokenCount);
+    expect(result.skippedPatterns).toEqual([]);
+    expect(result.sourceMap!.optimizedLength).toBe(result.optimizedText.length);
+  });
+
+  test('should stop when patterns oscillate', () => {
+    const optimizer = new PatternOptimizer([
+      { id: 'to-us', category: 'test', description: 'US spelling', find: /\bcolour\b/g, replace: 'color' },
+      { id: 'to-uk', category: 'test', description: 'UK spelling', find: /\bcolor\b/g, replace: 'colour' }
+    ], model, true, true, { maxPasses: 10 });
+    const result = optimizer.optimize('Pick a colour.');
+
+    expect(result.multiPass!.stopReason).toBe('cycle');
+    expect(result.multiPass!.passes).toHaveLength(1);
+  });
+
+  test('should stop at the pass cap', () => {
+    const optimizer = new PatternOptimizer([
+      { id: 'grow', category: 'test', description: 'Keeps growing', find: /!+$/g, replace: '$&!' }
+    ], model, true, true, { maxPasses: 3 });
+    const result = optimizer.optimize('Stop!');
+
+    expect(result.optimizedText).toBe('Stop!!!!');
+    expect(result.multiPass!.stopReason).toBe('max-passes');
+    expect(result.multiPass!.passes).toHaveLength(3);
+  });
+
+  test('should honor maxPasses in the PromptOptimizer config', () => {
+    const optimizer = new PromptOptimizer({ model, maxPasses: 4 });
+    const result = optimizer.optimize('I would like you to please make sure to summarize the report.');
+
+    expect(result.multiPass).toBeDefined();
+    expect(result.multiPass!.passes.length).toBeLessThanOrEqual(4);
+
+    expect(() => optimizer.setMaxPasses(0)).toThrow(OptimizerError);
+    expect(() => new PatternOptimizer([], model, true, true, { maxPasses: 1.5 })).toThrow(OptimizerError);
+  });
+});
@@ -0,0 +1,122 @@
+import { PatternOptimizer, OptimizerError, orderPatterns } from '../src/optimizers';
+import patternRegistry from '../src/optimizers/pattern-registry';
+import { getPatternsByAggressiveness } from '../src/patterns';
+import { OptimizationPattern } from '../src/types';
+
+describe('Pattern Dependencies', () => {
+  const createPattern = (id: string, extra: Partial<OptimizationPattern> = {}): OptimizationPattern => ({
+    id,
+    category: 'test',
+    description: `Pattern ${id}`,
+    find: new RegExp(`\\b${id}\\b`, 'g'),
+    replace: `${id}!`,
+    ...extra
+  });
+
+  const ids = (patterns: Array<{ id: string }>) => patterns.map(pattern => pattern.id);
+
+  describe('orderPatterns', () => {
+    test('should keep the given order when nothing is declared', () => {
+      const patterns = [createPattern('a'), createPattern('b'), createPattern('c')];
+      expect(ids(orderPatterns(patterns))).toEqual(['a', 'b', 'c']);
+    });
+
+    test('should honor runAfter and runBefore', () => {
+      const patterns = [
+        createPattern('a', { runAfter: ['c'] }),
+        createPattern('b'),
+        createPattern('c'),
+        createPattern('d', { runBefore: ['b'] })
+      ];
+
+      expect(ids(orderPatterns(patterns))).toEqual(['c', 'a', 'd', 'b']);
+    });
+
+    test('should ignore declarations about patterns that are not in use', () => {
+      const patterns = [createPattern('a', { runAfter: ['missing'] }), createPattern('b')];
+      expect(ids(orderPatterns(patterns))).toEqual(['a', 'b']);
+    });
+
+    test('should raise an OptimizerError naming the cycle', () => {
+      const patterns = [
+        createPattern('a', { runAfter: ['b'] }),
+        createPattern('b', { runAfter: ['c'] }),
+        createPattern('c', { runAfter: ['a'] })
+      ];
+
+      expect(() => orderPatterns(patterns)).toThrow(OptimizerError);
+      expect(() => orderPatterns(patterns)).toThrow(/cycle detected: (a|b|c) -> .* -> \1/);
+    });
+  });
+
+  describe('PatternOptimizer', () => {
+    test('should apply patterns in dependency order', () => {
+      const optimizer = new PatternOptimizer([
+        createPattern('shorten', { find: /\bas soon as possible\b/g, replace: 'ASAP', runAfter: ['expand'] }),
+        createPattern('expand', { find: /\bsoon\b/g, replace: 'as soon as possible' })
+      ]);
+
+      expect(ids(optimizer.getPatterns())).toEqual(['expand', 'shorten']);
+      expect(optimizer.optimize('Reply soon.').optimizedText).toBe('Reply ASAP.');
+    });
+
+    test('should never apply conflicting patterns together', () => {
+      const optimizer = new PatternOptimizer([
+        createPattern('first', { find: /\bvery\s+/g, replace: '', conflictsWith: ['second'] }),
+        createPattern('second', { find: /\breally\s+/g, replace: '' })
+      ]);
+
+      const result = optimizer.optimize('A very really long sentence.');
+      expect(ids(result.appliedPatterns)).toEqual(['first']);
+      expect(ids(result.skippedPatterns)).toEqual(['second']);
+
+      // Without a match for the first pattern, the second one is free to run
+      expect(optimizer.optimize('A really long sentence.').optimizedText).toBe('A long sentence.');
+    });
+
+    test('should reject patterns that create a cycle', () => {
+      const optimizer = new PatternOptimizer([createPattern('a', { runAfter: ['b'] })]);
+
+      expect(() => optimizer.addPattern(createPattern('b', { runAfter: ['a'] }))).toThrow(OptimizerError);
+      expect(ids(optimizer.getPatterns())).toEqual(['a']);
+      expect(() => optimizer.addPattern(createPattern('c', { conflictsWith: 'a' as any }))).toThrow(OptimizerError);
+    });
+
+    test('should leave the order of built-in patterns unchanged', () => {
+      ['low', 'medium', 'high', 'max'].forEach(level => {
+        const patterns = getPatternsByAggressiveness(level);
+
+        patterns.forEach(pattern => {
+          expect(pattern.runAfter).toBeUndefined();
+          expect(pattern.runBefore).toBeUndefined();
+          expect(pattern.conflictsWith).toBeUndefined();
+        });
+        expect(ids(orderPatterns(patterns))).toEqual(ids(patterns));
+      });
+    });
+  });
+
+  describe('PatternRegistry', () => {
+    afterEach(() => {
+      patternRegistry.removePattern('registry-first');
+      patternRegistry.removePattern('registry-second');
+    });
+
+    test('should order registered patterns by their declarations', () => {
+      patternRegistry.registerPattern(createPattern('registry-first', { runAfter: ['registry-second'] }));
+      patternRegistry.registerPattern(createPattern('registry-second'));
+
+      const registered = ids(patternRegistry.getAllPatterns());
+      expect(registered.indexOf('registry-second')).toBeLessThan(registered.indexOf('registry-first'));
+    });
+
+    test('should refuse registrations that create a cycle', () => {
+      patternRegistry.registerPattern(createPattern('registry-first', { runAfter: ['registry-second'] }));
+
+      expect(() => patternRegistry.registerPattern(
+        createPattern('registry-second', { runAfter: ['registry-first'] })
+      )).toThrow(OptimizerError);
+      expect(patternRegistry.getPatternById('registry-second')).toBeUndefined();
+    });
+  });
+});
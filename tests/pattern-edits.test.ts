@@ -0,0 +1,159 @@
+import { PatternOptimizer, DualOptimizer, applyPattern } from '../src/optimizers';
+import { diffText, applyEdits } from '../src/utils';
+import { OptimizationPattern, TextEdit } from '../src/types';
+
+describe('Pattern Edit Log', () => {
+  describe('diffText', () => {
+    test('should report word-level edits', () => {
+      const edits = diffText('Please write a very short summary.', 'Write a short summary.');
+
+      expect(edits).toEqual([
+        { start: 0, end: 13, original: 'Please write ', replacement: 'Write ' },
+        { start: 14, end: 19, original: ' very', replacement: '' }
+      ]);
+    });
+
+    test('should never split words', () => {
+      const edits = diffText('the cat sat', 'the car sat');
+      expect(edits).toEqual([{ start: 4, end: 7, original: 'cat', replacement: 'car' }]);
+    });
+
+    test('should return no edits for identical text', () => {
+      expect(diffText('same text', 'same text')).toEqual([]);
+    });
+
+    test('should reproduce the target text when edits are applied', () => {
+      const before = 'First sentence here. Second one follows. And a third sentence ends it.';
+      const after = '• First sentence here.\n• Second one follows.\n• And a third sentence ends it.';
+
+      expect(applyEdits(before, diffText(before, after))).toBe(after);
+    });
+  });
+
+  describe('applyPattern', () => {
+    test('should record one edit per regex match', () => {
+      const pattern: OptimizationPattern = {
+        id: 'remove-please',
+        category: 'verbosity',
+        description: 'Remove please',
+        find: /please /gi,
+        replace: ''
+      };
+
+      const result = applyPattern('Please help and please hurry.', pattern);
+
+      expect(result.text).toBe('help and hurry.');
+      expect(result.edits).toEqual([
+        { start: 0, end: 7, original: 'Please ', replacement: '' },
+        { start: 16, end: 23, original: 'please ', replacement: '' }
+      ]);
+    });
+
+    test('should expand replacement templates like String.prototype.replace', () => {
+      const pattern: OptimizationPattern = {
+        id: 'swap',
+        category: 'test',
+        description: 'Swap words',
+        find: /(?<first>\w+) and (\w+)/g,
+        replace: '$2 & $<first> ($$1, $&)'
+      };
+      const text = 'salt and pepper';
+
+      const result = applyPattern(text, pattern);
+
+      expect(result.text).toBe(text.replace(pattern.find as RegExp, pattern.replace as string));
+      expect(result.edits[0].replacement).toBe(result.text);
+    });
+
+    test('should record edits for function replacers', () => {
+      const result = applyPattern('a1 b2', {
+        id: 'upper',
+        category: 'test',
+        description: 'Uppercase letters',
+        find: /[a-z]/g,
+        replace: (match: string) => match.toUpperCase()
+      });
+
+      expect(result.edits.map(edit => [edit.start, edit.replacement])).toEqual([[0, 'A'], [3, 'B']]);
+    });
+
+    test('should diff transform patterns', () => {
+      const result = applyPattern('You should provide a list.', {
+        id: 'compact',
+        category: 'test',
+        description: 'Compact instructions',
+        transform: text => text.replace('You should provide', 'Provide')
+      });
+
+      expect(result.edits).toEqual([
+        { start: 0, end: 18, original: 'You should provide', replacement: 'Provide' }
+      ]);
+    });
+  });
+
+  describe('optimizers', () => {
+    const patterns: OptimizationPattern[] = [
+      {
+        id: 'remove-please',
+        category: 'verbosity',
+        description: 'Remove please',
+        find: /\bplease\s+/gi,
+        replace: ''
+      },
+      {
+        id: 'in-order-to',
+        category: 'verbosity',
+        description: 'Shorten "in order to"',
+        find: /\bin order to\b/g,
+        replace: 'to'
+      }
+    ];
+
+    const replay = (text: string, edits: TextEdit[]) => applyEdits(text, edits);
+
+    test('should attach edits to each applied pattern', () => {
+      const optimizer = new PatternOptimizer(patterns);
+      const text = 'Please read this in order to learn.';
+      const result = optimizer.optimize(text);
+
+      const [first, second] = result.appliedPatterns;
+      expect(first.edits).toEqual([{ start: 0, end: 7, original: 'Please ', replacement: '' }]);
+      expect(second.edits).toEqual([{ start: 10, end: 21, original: 'in order to', replacement: 'to' }]);
+
+      // Replaying each step's edits reproduces the optimized text
+      const afterFirst = replay(text, first.edits!);
+      expect(replay(afterFirst, second.edits!)).toBe(result.optimizedText);
+    });
+
+    test('should report offsets in the unmasked text when regions are protected', () => {
+      const optimizer = new PatternOptimizer(patterns);
+      const text = 'Say "please stop" and please wait in order to listen.';
+      const result = optimizer.optimize(text);
+
+      const edits = result.appliedPatterns[0].edits!;
+      expect(edits).toEqual([{ start: 22, end: 29, original: 'please ', replacement: '' }]);
+      expect(text.slice(edits[0].start, edits[0].end)).toBe('please ');
+      expect(replay(replay(text, edits), result.appliedPatterns[1].edits!)).toBe(result.optimizedText);
+    });
+
+    test('should attach edits in the DualOptimizer', () => {
+      const optimizer = new DualOptimizer({ model: 'gpt-3.5-turbo', qualityVsEfficiencyBalance: 0 });
+      optimizer.addTokenEfficiencyPatterns([
+        patterns[1],
+        {
+          id: 'as-well-as',
+          category: 'verbosity',
+          description: 'Shorten "as well as"',
+          find: /\bas well as\b/g,
+          replace: 'and'
+        }
+      ]);
+      const result = optimizer.optimize('Read in order to learn as well as grow.');
+
+      expect(result.appliedPatterns.map(pattern => pattern.edits)).toEqual([
+        [{ start: 5, end: 16, original: 'in order to', replacement: 'to' }],
+        [{ start: 14, end: 24, original: 'as well as', replacement: 'and' }]
+      ]);
+    });
+  });
+});
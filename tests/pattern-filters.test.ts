@@ -0,0 +1,107 @@
+import { PromptOptimizer, OptimizerError, fillerPatterns } from '../src/index';
+import { PatternOptimizer, DualOptimizer } from '../src/optimizers';
+import { OptimizationPattern } from '../src/types';
+
+describe('Pattern Filters', () => {
+  const model = 'gpt-3.5-turbo';
+  const ids = (optimizer: PromptOptimizer) => optimizer.getPatterns().map(pattern => pattern.id);
+
+  const patterns: OptimizationPattern[] = [
+    { id: 'shorten-in-order-to', category: 'verbosity', description: 'Shorten in order to', find: /\bin order to\b/g, replace: 'to' },
+    { id: 'drop-very', category: 'verbosity', description: 'Drop very', find: /\bvery short\b/g, replace: 'short' },
+    { id: 'spell-out-eg', category: 'quality', description: 'Spell out e.g.', find: /\be\.g\./g, replace: 'for example' }
+  ];
+
+  describe('PromptOptimizer', () => {
+    test('should disable single patterns without touching the shared definitions', () => {
+      const optimizer = new PromptOptimizer({ model, disabledPatternIds: ['remove-please'] });
+      const other = new PromptOptimizer({ model });
+
+      expect(ids(optimizer)).not.toContain('remove-please');
+      expect(ids(optimizer)).toContain('remove-all-redundant-polite-phrases');
+      expect(ids(other)).toContain('remove-please');
+
+      optimizer.enablePattern('remove-please');
+      expect(ids(optimizer)).toContain('remove-please');
+
+      other.disablePattern('remove-please');
+      expect(ids(other)).not.toContain('remove-please');
+      expect(new PromptOptimizer({ model }).getConfig().disabledPatternIds).toEqual([]);
+    });
+
+    test('should keep filters when patterns are rebuilt', () => {
+      const optimizer = new PromptOptimizer({
+        model,
+        customPatterns: [],
+        onlyPatternIds: ['remove-please', 'drop-very']
+      });
+      expect(ids(optimizer)).toEqual(['remove-please']);
+
+      optimizer.addPattern(patterns[1]);
+      optimizer.setAggressiveness('high');
+      expect(ids(optimizer).sort()).toEqual(['drop-very', 'remove-please']);
+    });
+
+    test('should apply overrides to copies of the patterns', () => {
+      const optimizer = new PromptOptimizer({
+        model,
+        patternOverrides: { 'remove-please': { disabled: true, priority: 1 } }
+      });
+      const overridden = optimizer.getPatterns().find(pattern => pattern.id === 'remove-please')!;
+      const shared = fillerPatterns.find(pattern => pattern.id === 'remove-please')!;
+
+      expect(overridden.disabled).toBe(true);
+      expect(overridden.priority).toBe(1);
+      expect(shared.disabled).toBeUndefined();
+      expect(optimizer.optimize('Please review the report.').appliedPatterns.map(info => info.id))
+        .not.toContain('remove-please');
+    });
+
+    test('should reject invalid filters', () => {
+      expect(() => new PromptOptimizer({ model, disabledPatternIds: 'remove-please' as any })).toThrow(OptimizerError);
+      expect(() => new PromptOptimizer({
+        model,
+        patternOverrides: { 'remove-please': { replace: '' } as any }
+      })).toThrow(OptimizerError);
+      expect(() => new PromptOptimizer({
+        model,
+        patternOverrides: { 'remove-please': { risk: 3 } }
+      })).toThrow(OptimizerError);
+      expect(() => new PromptOptimizer({ model }).disablePattern('')).toThrow(OptimizerError);
+    });
+  });
+
+  describe('PatternOptimizer', () => {
+    test('should honor filters in setPatterns and setOptions', () => {
+      const optimizer = new PatternOptimizer([], model, true, true, { disabledPatternIds: ['drop-very'] });
+      optimizer.setPatterns(patterns);
+      expect(optimizer.getPatterns().map(pattern => pattern.id)).toEqual(['shorten-in-order-to', 'spell-out-eg']);
+
+      optimizer.setOptions({ disabledPatternIds: [], onlyPatternIds: ['drop-very'] });
+      expect(optimizer.getPatterns().map(pattern => pattern.id)).toEqual(['drop-very']);
+      expect(optimizer.optimize('Keep it very short in order to save time.').optimizedText)
+        .toBe('Keep it short in order to save time.');
+    });
+  });
+
+  describe('DualOptimizer', () => {
+    test('should exclude patterns by ID and honor risk overrides', () => {
+      const optimizer = new DualOptimizer({
+        model,
+        qualityVsEfficiencyBalance: 0.7,
+        customPatterns: patterns,
+        disabledPatternIds: ['spell-out-eg'],
+        patternOverrides: { 'drop-very': { risk: 0.1 } }
+      });
+      const result = optimizer.optimize('Keep it very short in order to save time, e.g. today.');
+
+      expect(result.patternSelection.patterns).toEqual([
+        { id: 'spell-out-eg', group: 'quality', included: false, reason: 'disabled-by-id' },
+        { id: 'shorten-in-order-to', group: 'efficiency', included: false, reason: 'above-risk-tolerance', risk: 0.5 },
+        { id: 'drop-very', group: 'efficiency', included: true, reason: 'within-risk-tolerance', risk: 0.1 }
+      ]);
+      expect(result.optimizedText).toBe('Keep it short in order to save time, e.g. today.');
+      expect(patterns[1].risk).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { PatternOptimizer, OptimizerError, searchPatternOrder } from '../src/optimizers';
+import { OptimizationPattern } from '../src/types';
+import { createTokenizer } from '../src/tokenizers';
+
+describe('Pattern Order Search', () => {
+  const model = 'gpt-3.5-turbo';
+
+  // Applied in this order, the first pattern blocks the more effective second one
+  const competingPatterns: OptimizationPattern[] = [
+    {
+      id: 'shorten-point-in-time',
+      category: 'verbosity',
+      description: 'Shorten "at this point in time"',
+      find: /\bat this point in time\b/gi,
+      replace: 'at this point'
+    },
+    {
+      id: 'point-in-time-to-now',
+      category: 'verbosity',
+      description: 'Replace "at this point in time" with "now"',
+      find: /\bat this point in time\b/gi,
+      replace: 'now'
+    }
+  ];
+
+  // The second pattern costs tokens on its own but enables the first one
+  const enablingPatterns: OptimizationPattern[] = [
+    {
+      id: 'collapse-reason',
+      category: 'verbosity',
+      description: 'Collapse a marked reason clause',
+      find: /(?:because ){3}[^.]*\./g,
+      replace: 'briefly.'
+    },
+    {
+      id: 'mark-reason',
+      category: 'verbosity',
+      description: 'Mark reason clauses',
+      find: /\bbecause\b/g,
+      replace: 'because because because'
+    }
+  ];
+
+  const competingText = 'At this point in time we cannot offer a refund.';
+  const enablingText = 'Stay calm because the customer is upset and wants a refund today. Reply now.';
+
+  test('should apply patterns in configured order by default', () => {
+    const optimizer = new PatternOptimizer(competingPatterns, model);
+    const result = optimizer.optimize(competingText);
+
+    expect(result.optimizedText).toBe('at this point we cannot offer a refund.');
+    expect(result.orderSearch).toBeUndefined();
+  });
+
+  test('should pick the best next pattern with greedy search', () => {
+    const optimizer = new PatternOptimizer(competingPatterns, model, true, true, { orderSearch: 'greedy' });
+    const result = optimizer.optimize(competingText);
+
+    expect(result.optimizedText).toBe('now we cannot offer a refund.');
+    expect(result.orderSearch).toMatchObject({ strategy: 'greedy', order: ['point-in-time-to-now'], capped: false });
+    expect(result.appliedPatterns.map(pattern => pattern.id)).toEqual(['point-in-time-to-now']);
+    expect(result.skippedPatterns.map(pattern => pattern.id)).toEqual(['shorten-point-in-time']);
+  });
+
+  test('should find orderings that greedy search misses with beam search', () => {
+    const greedy = new PatternOptimizer(enablingPatterns, model, true, false, { orderSearch: 'greedy' });
+    expect(greedy.optimize(enablingText).optimizedText).toBe(enablingText);
+
+    const beam = new PatternOptimizer(enablingPatterns, model, true, false, { orderSearch: 'beam', beamWidth: 2 });
+    const result = beam.optimize(enablingText);
+
+    expect(result.optimizedText).toBe('Stay calm briefly. Reply now.');
+    expect(result.orderSearch!.order).toEqual(['mark-reason', 'collapse-reason']);
+    expect(result.optimizedTokenCount).toBe(createTokenizer(model).countTokens(result.optimizedText));
+  });
+
+  test('should stop at the iteration cap and return the best order found', () => {
+    const optimizer = new PatternOptimizer(competingPatterns, model, true, false, {
+      orderSearch: 'beam',
+      searchMaxIterations: 1
+    });
+    const result = optimizer.optimize(competingText);
+
+    expect(result.orderSearch!.capped).toBe(true);
+    expect(result.orderSearch!.iterations).toBe(1);
+    expect(result.optimizedText).toBe('at this point we cannot offer a refund.');
+  });
+
+  test('should score orderings with the given function', () => {
+    const search = searchPatternOrder(competingText, competingPatterns, {
+      strategy: 'beam',
+      beamWidth: 3,
+      maxIterations: 100,
+      timeLimitMs: 1000,
+      score: text => text.length
+    });
+
+    expect(search.order.map(pattern => pattern.id)).toEqual(['point-in-time-to-now']);
+    expect(search.tokenCount).toBe('now we cannot offer a refund.'.length);
+  });
+
+  test('should reject invalid search options', () => {
+    const optimizer = new PatternOptimizer(competingPatterns, model);
+
+    expect(() => optimizer.setOptions({ orderSearch: 'random' as any })).toThrow(OptimizerError);
+    expect(() => optimizer.setOptions({ beamWidth: 0 })).toThrow(OptimizerError);
+    expect(() => optimizer.setOptions({ searchTimeLimitMs: -1 })).toThrow(OptimizerError);
+  });
+});
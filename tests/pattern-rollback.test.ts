@@ -0,0 +1,86 @@
+import { PromptOptimizer, OptimizerError } from '../src/index';
+import { PatternOptimizer } from '../src/optimizers';
+import { OptimizationPattern } from '../src/types';
+
+describe('Pattern Rollback', () => {
+  const model = 'gpt-3.5-turbo';
+  const text = 'This is a test, so please keep it short.';
+
+  const createPatterns = (): OptimizationPattern[] => [
+    {
+      id: 'remove-please',
+      category: 'test',
+      description: 'Remove please',
+      find: /\bplease\s+/g,
+      replace: ''
+    },
+    {
+      id: 'wrap-words',
+      category: 'test',
+      description: 'Wrap every word in parentheses',
+      find: /\b(\w+)\b/g,
+      replace: '($1)'
+    }
+  ];
+
+  test('should keep token-increasing steps when no threshold is set', () => {
+    const optimizer = new PatternOptimizer(createPatterns(), model);
+    const result = optimizer.optimize(text);
+
+    expect(result.appliedPatterns.map(pattern => pattern.id)).toEqual(['remove-please', 'wrap-words']);
+    expect(result.revertedPatterns).toEqual([]);
+  });
+
+  test('should revert steps whose token delta exceeds the threshold', () => {
+    const optimizer = new PatternOptimizer(createPatterns(), model, true, true, { revertThreshold: 0 });
+    const result = optimizer.optimize(text);
+
+    expect(result.optimizedText).toBe('This is a test, so keep it short.');
+    expect(result.appliedPatterns.map(pattern => pattern.id)).toEqual(['remove-please']);
+    expect(result.revertedPatterns).toHaveLength(1);
+    expect(result.revertedPatterns![0]).toMatchObject({ id: 'wrap-words', reason: 'token-increase' });
+    expect(result.revertedPatterns![0].tokenChange).toBeGreaterThan(0);
+    expect(result.skippedPatterns.map(pattern => pattern.id)).toContain('wrap-words');
+
+    // The source map only reflects the steps that were kept
+    expect(result.sourceMap!.optimizedLength).toBe(result.optimizedText.length);
+  });
+
+  test('should keep steps within the threshold', () => {
+    const optimizer = new PatternOptimizer(createPatterns(), model, true, true, { revertThreshold: 100 });
+    const result = optimizer.optimize(text);
+
+    expect(result.revertedPatterns).toEqual([]);
+    expect(result.appliedPatterns).toHaveLength(2);
+  });
+
+  test('should record reverts in effectiveness metrics', () => {
+    const optimizer = new PatternOptimizer(createPatterns(), model, true, true, { revertThreshold: 0 });
+    optimizer.optimize(text);
+    optimizer.optimize(text);
+
+    const metrics = optimizer.getPatternEffectivenessMetrics().get('wrap-words')!;
+    expect(metrics.timesReverted).toBe(2);
+    expect(metrics.timesApplied).toBe(0);
+    expect(metrics.timesSkipped).toBe(2);
+    expect(metrics.lastReverted).toBeDefined();
+  });
+
+  test('should revert token increases by default in the PromptOptimizer', () => {
+    const optimizer = new PromptOptimizer({ model, customPatterns: [createPatterns()[1]] });
+    const result = optimizer.optimize(text);
+
+    expect(result.revertedPatterns!.map(pattern => pattern.id)).toContain('wrap-words');
+    expect(result.optimizedTokenCount).toBeLessThanOrEqual(result.originalTokenCount);
+
+    optimizer.setRevertThreshold(undefined);
+    expect(optimizer.optimize(text).appliedPatterns.map(pattern => pattern.id)).toContain('wrap-words');
+  });
+
+  test('should reject invalid thresholds', () => {
+    const optimizer = new PatternOptimizer([], model);
+
+    expect(() => optimizer.setOptions({ revertThreshold: NaN })).toThrow(OptimizerError);
+    expect(() => new PromptOptimizer().setRevertThreshold('1' as any)).toThrow(OptimizerError);
+  });
+});
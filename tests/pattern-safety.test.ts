@@ -0,0 +1,179 @@
+import { PromptOptimizer, OptimizerError, detectCatastrophicBacktracking } from '../src/index';
+import { PatternOptimizer, DualOptimizer, PatternTimeoutError, applyPattern, validatePattern } from '../src/optimizers';
+import patternRegistry from '../src/optimizers/pattern-registry';
+import { getPatternsByAggressiveness } from '../src/patterns';
+import { OptimizationPattern } from '../src/types';
+
+describe('Pattern Safety', () => {
+  const model = 'gpt-3.5-turbo';
+
+  // Blocks the thread for the given time, like a runaway transform would
+  const busyWait = (ms: number) => {
+    const end = Date.now() + ms;
+    while (Date.now() < end) {
+      // Spin
+    }
+  };
+
+  describe('detectCatastrophicBacktracking', () => {
+    test.each([
+      ['(a+)+$'],
+      ['([^.]+,)+'],
+      ['(\\s*\\w+)*'],
+      ['(\\w|\\d)+'],
+      ['^(?:a|a)*$'],
+      ['(a|aa)+$'],
+      ['(?:ab|a\\w)+']
+    ])('should flag %s', source => {
+      expect(detectCatastrophicBacktracking(source)).not.toBeNull();
+    });
+
+    test.each([
+      ['(\\w+\\s)+'],
+      ['(ab|ac)+'],
+      ['(ab|abc)+'],
+      ['\\b(\\w+)\\b'],
+      ['(?:\\d{1,3},)+'],
+      ['\\bvery\\s+']
+    ])('should accept %s', source => {
+      expect(detectCatastrophicBacktracking(source)).toBeNull();
+    });
+
+    test('should accept every built-in pattern', () => {
+      const flagged = getPatternsByAggressiveness('high')
+        .filter(pattern => pattern.find && detectCatastrophicBacktracking(pattern.find))
+        .map(pattern => pattern.id);
+
+      expect(flagged).toEqual([]);
+    });
+  });
+
+  describe('Validation', () => {
+    const unsafePattern: OptimizationPattern = {
+      id: 'unsafe',
+      category: 'test',
+      description: 'Nested quantifier',
+      find: /(a+)+b/g,
+      replace: 'b'
+    };
+
+    test('should reject unsafe regexes when patterns are added', () => {
+      expect(() => new PatternOptimizer([unsafePattern], model)).toThrow(/unsafe regular expression/);
+      expect(() => new PromptOptimizer({ model }).addPattern(unsafePattern)).toThrow(OptimizerError);
+      expect(() => new DualOptimizer({ qualityVsEfficiencyBalance: 0.5, model, customPatterns: [unsafePattern] }))
+        .toThrow(OptimizerError);
+    });
+
+    test('should reject unsafe regexes when patterns are registered', () => {
+      expect(() => patternRegistry.registerPattern(unsafePattern)).toThrow(OptimizerError);
+      expect(patternRegistry.getPatternById('unsafe')).toBeUndefined();
+    });
+
+    test('should validate patterns the same way in every optimizer and the registry', () => {
+      const deletion: OptimizationPattern = { ...unsafePattern, id: 'deletion', find: /\bkindly\s+/g, replace: '' };
+      const undeclared = { ...deletion, id: 'undeclared', conflictsWith: 'deletion' } as unknown as OptimizationPattern;
+
+      expect(() => validatePattern(deletion)).not.toThrow();
+      expect(() => new PatternOptimizer([deletion], model)).not.toThrow();
+      expect(() => new DualOptimizer({ qualityVsEfficiencyBalance: 0.5, model, customPatterns: [deletion] })).not.toThrow();
+
+      expect(() => validatePattern(undeclared)).toThrow(/'conflictsWith' must be an array/);
+      expect(() => new PatternOptimizer([undeclared], model)).toThrow(OptimizerError);
+      expect(() => new DualOptimizer({ qualityVsEfficiencyBalance: 0.5, model, customPatterns: [undeclared] }))
+        .toThrow(OptimizerError);
+      expect(() => patternRegistry.registerPattern(undeclared)).toThrow(OptimizerError);
+    });
+  });
+
+  describe('Time budget', () => {
+    const slowPattern: OptimizationPattern = {
+      id: 'slow',
+      category: 'test',
+      description: 'Slow transform',
+      transform: text => {
+        busyWait(300);
+        return text.toUpperCase();
+      }
+    };
+
+    const fastPattern: OptimizationPattern = {
+      id: 'fast',
+      category: 'test',
+      description: 'Remove please',
+      find: /\bplease\s+/g,
+      replace: ''
+    };
+
+    test('should raise a PatternTimeoutError when a pattern runs over', () => {
+      expect(() => applyPattern('some text', slowPattern, 50)).toThrow(PatternTimeoutError);
+      expect(applyPattern('some text', slowPattern).text).toBe('SOME TEXT');
+    });
+
+    test('should interrupt a catastrophic regex', () => {
+      // Bypass validation, as a pattern mutated after registration would
+      const pattern: OptimizationPattern = { ...fastPattern, id: 'catastrophic', find: /(a+)+b/g, replace: 'b' };
+      const startTime = Date.now();
+
+      expect(() => applyPattern('a'.repeat(40), pattern, 50)).toThrow(PatternTimeoutError);
+      expect(Date.now() - startTime).toBeLessThan(2000);
+    });
+
+    test('should skip patterns that exceed the budget and report why', () => {
+      const optimizer = new PatternOptimizer([slowPattern, fastPattern], model, true, true, {
+        patternTimeBudgetMs: 50
+      });
+      const result = optimizer.optimize('Could you please help?');
+
+      expect(result.optimizedText).toBe('Could you help?');
+      expect(result.skippedPatterns.map(pattern => pattern.id)).toEqual(['slow']);
+      expect(result.skipReasons).toEqual([
+        { id: 'slow', reason: 'timeout', detail: 'Pattern slow exceeded its time budget of 50ms' }
+      ]);
+    });
+
+    test('should report timeouts as skip reasons in the DualOptimizer', () => {
+      const optimizer = new DualOptimizer({
+        qualityVsEfficiencyBalance: 0.5,
+        model,
+        customPatterns: [slowPattern, fastPattern],
+        onlyPatternIds: ['slow', 'fast'],
+        patternTimeBudgetMs: 50
+      });
+      const result = optimizer.optimize('Could you please help?');
+
+      expect(result.optimizedText).toBe('Could you help?');
+      expect(result.skipReasons).toEqual([
+        { id: 'slow', reason: 'timeout', detail: 'Pattern slow exceeded its time budget of 50ms' }
+      ]);
+    });
+
+    test('should report errors and conflicts as skip reasons', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const optimizer = new PatternOptimizer([
+        { ...fastPattern, conflictsWith: ['shout'] },
+        { id: 'shout', category: 'test', description: 'Shout', transform: text => text.toUpperCase() },
+        {
+          id: 'broken',
+          category: 'test',
+          description: 'Throws',
+          transform: () => {
+            throw new Error('boom');
+          }
+        }
+      ], model);
+      const result = optimizer.optimize('Please reply please now.');
+      (console.error as jest.Mock).mockRestore();
+
+      expect(result.skipReasons!.map(info => [info.id, info.reason])).toEqual([
+        ['shout', 'conflict'],
+        ['broken', 'error']
+      ]);
+      expect(result.skipReasons![1].detail).toMatch(/boom/);
+    });
+
+    test('should validate the time budget', () => {
+      expect(() => new PatternOptimizer([], model, true, true, { patternTimeBudgetMs: 0 })).toThrow(OptimizerError);
+      expect(() => new PromptOptimizer({ model }).setPatternTimeBudget(-1)).toThrow(OptimizerError);
+    });
+  });
+});
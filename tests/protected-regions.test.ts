@@ -0,0 +1,173 @@
+import { PatternOptimizer, DualOptimizer } from '../src/optimizers';
+import { PromptOptimizer } from '../src/index';
+import {
+  detectProtectedRegions,
+  maskProtectedRegions,
+  restoreProtectedRegions,
+  hasIntactSentinels
+} from '../src/utils';
+import { OptimizationPattern } from '../src/types';
+
+describe('Protected Regions', () => {
+  const whitespacePattern: OptimizationPattern = {
+    id: 'optimize-whitespace',
+    category: 'formatting',
+    description: 'Collapse runs of whitespace',
+    find: /\s{2,}/g,
+    replace: ' '
+  };
+
+  const pleasePattern: OptimizationPattern = {
+    id: 'remove-please',
+    category: 'verbosity',
+    description: 'Remove please',
+    find: /\bplease\s*/gi,
+    replace: ''
+  };
+
+  describe('detection', () => {
+    test('should detect fenced code blocks', () => {
+      const text = 'Run this:\n```python\ndef f():\n    return  1\n```\nThanks.';
+      const regions = detectProtectedRegions(text);
+
+      expect(regions).toHaveLength(1);
+      expect(regions[0].type).toBe('fenced-code');
+      expect(regions[0].text).toBe('```python\ndef f():\n    return  1\n```');
+      expect(text.slice(regions[0].start, regions[0].end)).toBe(regions[0].text);
+    });
+
+    test('should protect an unterminated fence to the end of the text', () => {
+      const text = 'Example:\n```\nx  =  1\ny  =  2';
+      const regions = detectProtectedRegions(text);
+
+      expect(regions).toHaveLength(1);
+      expect(regions[0].end).toBe(text.length);
+    });
+
+    test('should detect indented code after a blank line', () => {
+      const text = 'Consider:\n\n    for i in range(3):\n        print(i)\n\nDone.';
+      const regions = detectProtectedRegions(text);
+
+      expect(regions).toHaveLength(1);
+      expect(regions[0].type).toBe('indented-code');
+      expect(regions[0].text).toBe('    for i in range(3):\n        print(i)');
+    });
+
+    test('should detect inline code, quotes and placeholders', () => {
+      const text = 'Call `run()` with "exact  words" for {{ user.name }}, ${id}, {% if x %} and \'single\'.';
+      const types = detectProtectedRegions(text).map(region => region.type);
+
+      expect(types).toEqual(['inline-code', 'quoted', 'placeholder', 'placeholder', 'placeholder', 'quoted']);
+    });
+
+    test('should not treat apostrophes as quotes', () => {
+      const text = "Don't change what isn't quoted.";
+      expect(detectProtectedRegions(text)).toEqual([]);
+    });
+
+    test('should not search for inline regions inside code blocks', () => {
+      const text = '```\nprint("a  b")\n```\nSay "hi".';
+      const regions = detectProtectedRegions(text);
+
+      expect(regions.map(region => region.type)).toEqual(['fenced-code', 'quoted']);
+    });
+
+    test('should detect custom patterns', () => {
+      const text = 'Ticket ABC-123 must stay.';
+      const regions = detectProtectedRegions(text, [/[A-Z]{3}-\d+/]);
+
+      expect(regions).toEqual([{ type: 'custom', start: 7, end: 14, text: 'ABC-123' }]);
+    });
+  });
+
+  describe('masking', () => {
+    test('should round-trip text byte-for-byte', () => {
+      const text = 'Use "this  quote" and `code  here` in {{ template }}.\n```\n  indented\n```';
+      const masked = maskProtectedRegions(text);
+
+      expect(masked.text).not.toContain('quote');
+      expect(restoreProtectedRegions(masked.text, masked)).toBe(text);
+    });
+
+    test('should detect dropped or duplicated sentinels', () => {
+      const masked = maskProtectedRegions('Keep "a" and "b".');
+
+      expect(hasIntactSentinels(masked.text, masked)).toBe(true);
+      expect(hasIntactSentinels(masked.text.replace(masked.sentinels[0], ''), masked)).toBe(false);
+      expect(hasIntactSentinels(masked.text + masked.sentinels[1], masked)).toBe(false);
+    });
+  });
+
+  describe('PatternOptimizer', () => {
+    test('should not collapse whitespace inside code fences', () => {
+      const optimizer = new PatternOptimizer([whitespacePattern]);
+      const code = '```python\ndef greet(name):\n    if name:\n        return  name\n```';
+      const result = optimizer.optimize(`Fix   this   code:\n${code}`);
+
+      expect(result.optimizedText).toBe(`Fix this code:\n${code}`);
+      expect(result.protectedRegions).toEqual([
+        expect.objectContaining({ type: 'fenced-code', text: code })
+      ]);
+    });
+
+    test('should not rewrite quoted strings or placeholders', () => {
+      const optimizer = new PatternOptimizer([pleasePattern]);
+      const result = optimizer.optimize('Please greet {{ please_name }} and reply "please wait".');
+
+      expect(result.optimizedText).toBe('greet {{ please_name }} and reply "please wait".');
+    });
+
+    test('should skip patterns that would delete a protected region', () => {
+      const optimizer = new PatternOptimizer([{
+        id: 'drop-quotes-sentence',
+        category: 'test',
+        description: 'Remove everything after the colon',
+        find: /:.*$/,
+        replace: '.'
+      }]);
+      const text = 'Say this: "hello world"';
+      const result = optimizer.optimize(text);
+
+      expect(result.optimizedText).toBe(text);
+      expect(result.skippedPatterns.map(pattern => pattern.id)).toContain('drop-quotes-sentence');
+    });
+
+    test('should rewrite protected regions when protection is disabled', () => {
+      const optimizer = new PatternOptimizer([pleasePattern], 'gpt-3.5-turbo', true, true, {
+        protectRegions: false
+      });
+      const result = optimizer.optimize('Reply "please wait".');
+
+      expect(result.optimizedText).toBe('Reply "wait".');
+      expect(result.protectedRegions).toEqual([]);
+    });
+
+    test('should honor custom protected patterns', () => {
+      const optimizer = new PatternOptimizer([pleasePattern]);
+      optimizer.setOptions({ protectedPatterns: [/PLEASE-\d+/] });
+      const result = optimizer.optimize('Please close PLEASE-42 now.');
+
+      expect(result.optimizedText).toBe('close PLEASE-42 now.');
+    });
+  });
+
+  describe('PromptOptimizer and DualOptimizer', () => {
+    test('should keep code intact at high aggressiveness', () => {
+      const optimizer = new PromptOptimizer({ aggressiveness: 'high', preserveFormatting: false });
+      const code = '```python\nfor item in items:\n    if item:\n        print(item)\n```';
+      const result = optimizer.optimize(
+        `I would like you to please review the following code very carefully.\n\n${code}\n\nIt is important to note that it should be fast.`
+      );
+
+      expect(result.optimizedText).toContain(code);
+    });
+
+    test('should keep placeholders intact in the DualOptimizer', () => {
+      const optimizer = new DualOptimizer({ model: 'gpt-3.5-turbo', qualityVsEfficiencyBalance: 0 });
+      optimizer.addTokenEfficiencyPatterns([whitespacePattern]);
+      const result = optimizer.optimize('Hello   ${ user   name }   there');
+
+      expect(result.optimizedText).toBe('Hello ${ user   name } there');
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { PatternOptimizer, DualOptimizer } from '../src/optimizers';
+import { PromptOptimizer } from '../src/index';
+import { SourceMap } from '../src/utils';
+import { OptimizationPattern, OptimizationResult } from '../src/types';
+
+describe('Source Map', () => {
+  // Every unchanged run must hold identical text on both sides
+  const expectConsistent = (result: OptimizationResult) => {
+    const sourceMap = result.sourceMap!;
+    expect(sourceMap.originalLength).toBe(result.originalText.length);
+    expect(sourceMap.optimizedLength).toBe(result.optimizedText.length);
+
+    sourceMap.getRuns().forEach(run => {
+      expect(result.optimizedText.slice(run.optimized, run.optimized + run.length))
+        .toBe(result.originalText.slice(run.original, run.original + run.length));
+    });
+  };
+
+  describe('SourceMap', () => {
+    test('should map offsets around a single edit', () => {
+      // "I want you to act as a tutor" -> "You are a tutor"
+      const sourceMap = SourceMap.fromEdits(28, [
+        { start: 0, end: 20, original: 'I want you to act as', replacement: 'You are' }
+      ]);
+
+      expect(sourceMap.optimizedLength).toBe(15);
+      expect(sourceMap.toOriginal(10)).toBe(23); // "tutor"
+      expect(sourceMap.toOptimized(23)).toBe(10);
+      expect(sourceMap.toOriginal(3)).toBe(0); // Inside the rewritten region
+      expect(sourceMap.toOriginalRange(0, 7)).toEqual({ start: 0, end: 20 });
+    });
+
+    test('should compose maps of consecutive steps', () => {
+      const text = 'please do the work in order to finish';
+      const step1 = SourceMap.fromEdits(text.length, [
+        { start: 0, end: 7, original: 'please ', replacement: '' }
+      ]);
+      const afterStep1 = 'do the work in order to finish';
+      const step2 = SourceMap.fromEdits(afterStep1.length, [
+        { start: 12, end: 23, original: 'in order to', replacement: 'to' }
+      ]);
+      const composed = step1.compose(step2);
+
+      const finalText = 'do the work to finish';
+      const offset = finalText.indexOf('finish');
+      expect(text.slice(composed.toOriginal(offset))).toBe('finish');
+      expect(composed.toOptimized(text.indexOf('work'))).toBe(finalText.indexOf('work'));
+    });
+
+    test('should round-trip through JSON', () => {
+      const sourceMap = SourceMap.fromEdits(20, [
+        { start: 5, end: 10, original: 'abcde', replacement: 'xy' }
+      ]);
+      const restored = SourceMap.fromJSON(JSON.parse(JSON.stringify(sourceMap)));
+
+      expect(restored.toJSON()).toEqual(sourceMap.toJSON());
+      expect(restored.toJSON()).toEqual({
+        version: 1,
+        originalLength: 20,
+        optimizedLength: 17,
+        runs: [[0, 0, 5], [10, 7, 10]]
+      });
+    });
+
+    test('should reject invalid serialized maps', () => {
+      expect(() => SourceMap.fromJSON({ version: 2 } as any)).toThrow('Invalid serialized source map');
+    });
+  });
+
+  describe('optimizers', () => {
+    const patterns: OptimizationPattern[] = [
+      {
+        id: 'remove-please',
+        category: 'verbosity',
+        description: 'Remove please',
+        find: /\bplease\s+/gi,
+        replace: ''
+      },
+      {
+        id: 'bulletize',
+        category: 'formatting',
+        description: 'Put each sentence on its own bullet',
+        transform: text => text.split(/(?<=\.)\s+/).map(sentence => `- ${sentence}`).join('\n')
+      }
+    ];
+
+    test('should map optimized offsets back to the original prompt', () => {
+      const optimizer = new PatternOptimizer(patterns);
+      const text = 'Please summarize the report. Then list the key risks.';
+      const result = optimizer.optimize(text);
+
+      expectConsistent(result);
+      const offset = result.optimizedText.indexOf('key risks');
+      expect(text.slice(result.sourceMap!.toOriginal(offset), result.sourceMap!.toOriginal(offset) + 9))
+        .toBe('key risks');
+    });
+
+    test('should stay consistent across protected regions', () => {
+      const optimizer = new PatternOptimizer(patterns);
+      const result = optimizer.optimize('Please run `npm  test`. Then please report "all green".');
+
+      expectConsistent(result);
+      expect(result.sourceMap!.toOriginal(result.optimizedText.indexOf('`npm  test`')))
+        .toBe(result.originalText.indexOf('`npm  test`'));
+    });
+
+    test('should produce a consistent map for built-in patterns', () => {
+      const optimizer = new PromptOptimizer({ aggressiveness: 'high', preserveFormatting: false });
+      const result = optimizer.optimize(
+        'I want you to act as a financial analyst. It is important to note that you should basically ' +
+        'provide a very detailed analysis in order to help the team. Please make sure to include risks.'
+      );
+
+      expect(result.appliedPatterns.length).toBeGreaterThan(0);
+      expectConsistent(result);
+    });
+
+    test('should produce a map in the DualOptimizer', () => {
+      const optimizer = new DualOptimizer({ model: 'gpt-3.5-turbo', qualityVsEfficiencyBalance: 1 });
+      optimizer.addQualityPatterns([patterns[1]]);
+      const result = optimizer.optimize('First point. Second point.');
+
+      expectConsistent(result);
+      expect(result.sourceMap!.toOriginal(result.optimizedText.indexOf('Second'))).toBe(13);
+    });
+  });
+});
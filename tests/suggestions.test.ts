@@ -0,0 +1,99 @@
+import { PromptOptimizer, OptimizerError } from '../src/index';
+import { OptimizationPattern } from '../src/types';
+
+describe('Suggestions', () => {
+  const model = 'gpt-3.5-turbo';
+
+  const patterns: OptimizationPattern[] = [
+    {
+      id: 'remove-please',
+      category: 'verbosity',
+      description: 'Remove please',
+      find: /\bplease\s+/gi,
+      replace: ''
+    },
+    {
+      id: 'shorten-asap',
+      category: 'verbosity',
+      description: 'Abbreviate "as soon as possible"',
+      find: /\bas soon as possible\b/g,
+      replace: 'ASAP'
+    }
+  ];
+
+  const createOptimizer = () => new PromptOptimizer({
+    model,
+    aggressiveness: 'low',
+    enabledCategories: ['custom-only'],
+    customPatterns: patterns
+  });
+
+  const text = 'Could you please reply as soon as possible? Then please close the ticket.';
+
+  test('should return non-overlapping suggestions attributed to patterns', () => {
+    const optimizer = createOptimizer();
+    const suggestions = optimizer.suggest(text);
+
+    expect(suggestions.map(suggestion => [suggestion.patternId, suggestion.original, suggestion.replacement])).toEqual([
+      ['remove-please', 'please ', ''],
+      ['shorten-asap', 'as soon as possible', 'ASAP'],
+      ['remove-please', 'please ', '']
+    ]);
+
+    for (let i = 1; i < suggestions.length; i++) {
+      expect(suggestions[i].start).toBeGreaterThanOrEqual(suggestions[i - 1].end);
+    }
+
+    const asap = suggestions[1];
+    expect(text.slice(asap.start, asap.end)).toBe('as soon as possible');
+    expect(asap.description).toBe('Abbreviate "as soon as possible"');
+    expect(asap.tokenChange).toBeLessThan(0);
+    expect(new Set(suggestions.map(suggestion => suggestion.id)).size).toBe(suggestions.length);
+  });
+
+  test('should reproduce optimize() when every suggestion is accepted', () => {
+    const optimizer = createOptimizer();
+    const suggestions = optimizer.suggest(text);
+
+    expect(optimizer.applySuggestions(text, suggestions.map(suggestion => suggestion.id)))
+      .toBe(optimizer.optimize(text).optimizedText);
+    expect(optimizer.applySuggestions(text, [])).toBe(text);
+  });
+
+  test('should apply only the accepted subset', () => {
+    const optimizer = createOptimizer();
+    const suggestions = optimizer.suggest(text);
+    const accepted = suggestions.filter(suggestion => suggestion.patternId === 'shorten-asap');
+
+    expect(optimizer.applySuggestions(text, accepted.map(suggestion => suggestion.id)))
+      .toBe('Could you please reply ASAP? Then please close the ticket.');
+  });
+
+  test('should attribute edits made by several patterns to all of them', () => {
+    const optimizer = new PromptOptimizer({
+      model,
+      aggressiveness: 'low',
+      enabledCategories: ['custom-only'],
+      revertThreshold: undefined, // Keep the expansion that enables the abbreviation
+      customPatterns: [
+        { id: 'expand', category: 'custom', description: 'Expand soon', find: /\bsoon\b/g, replace: 'as soon as possible' },
+        ...patterns
+      ]
+    });
+    const suggestions = optimizer.suggest('Reply soon.');
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].patternIds).toEqual(['expand', 'shorten-asap']);
+    expect(suggestions[0].replacement).toBe('ASAP');
+  });
+
+  test('should work without a prior call to suggest and reject unknown IDs', () => {
+    const optimizer = createOptimizer();
+    const [first] = createOptimizer().suggest(text);
+
+    expect(optimizer.applySuggestions(text, [first.id])).toBe(
+      'Could you reply as soon as possible? Then please close the ticket.'
+    );
+    expect(() => optimizer.applySuggestions(text, ['missing@0'])).toThrow(OptimizerError);
+  });
+});
@@ -0,0 +1,80 @@
+import { PromptOptimizer, OptimizerError } from '../src/index';
+import { PatternOptimizer } from '../src/optimizers';
+import { createTokenizer } from '../src/tokenizers';
+import { maxPatterns } from '../src/patterns';
+
+describe('Token Budget Optimization', () => {
+  const prompt = `I want you to act as a customer support agent. Please make sure to read the customer's message very carefully.
+It is important to note that you should basically always be polite, and in order to help the customer you should provide
+a really detailed answer. I would appreciate it if you could also mention the refund policy. At this point in time,
+due to the fact that many customers are confused, you should explain the policy in a clear and concise manner.
+This will help the customer understand the next steps.`;
+
+  const model = 'gpt-3.5-turbo';
+  let optimizer: PromptOptimizer;
+
+  beforeEach(() => {
+    optimizer = new PromptOptimizer({ model, trackPatternEffectiveness: false });
+  });
+
+  test('should leave text that already fits untouched', () => {
+    const result = optimizer.optimizeToBudget(prompt, 10000);
+
+    expect(result.budgetMet).toBe(true);
+    expect(result.escalationStep).toBeNull();
+    expect(result.escalationPatternId).toBeUndefined();
+    expect(result.appliedPatterns).toHaveLength(0);
+    expect(result.optimizedText).toBe(prompt);
+  });
+
+  test('should stop as soon as the text fits within the budget', () => {
+    const originalTokens = createTokenizer(model).countTokens(prompt);
+    const result = optimizer.optimizeToBudget(prompt, originalTokens - 1);
+
+    expect(result.budgetMet).toBe(true);
+    expect(result.escalationStep).toBe('low');
+    expect(result.appliedPatterns).toHaveLength(1);
+    expect(result.escalationPatternId).toBe(result.appliedPatterns[0].id);
+    expect(createTokenizer(model).countTokens(result.optimizedText)).toBeLessThanOrEqual(originalTokens - 1);
+  });
+
+  test('should escalate beyond the low level when needed', () => {
+    const lowResult = new PromptOptimizer({ model, aggressiveness: 'low' }).optimize(prompt);
+
+    // Fewest tokens reached at any point while applying the low patterns
+    let tokens = lowResult.originalTokenCount;
+    let lowest = tokens;
+    lowResult.appliedPatterns.forEach(pattern => {
+      tokens += pattern.tokenChange!;
+      lowest = Math.min(lowest, tokens);
+    });
+
+    const result = optimizer.optimizeToBudget(prompt, lowest - 1);
+
+    expect(result.budgetMet).toBe(true);
+    expect(result.escalationStep).not.toBe('low');
+    expect(result.optimizedTokenCount).toBeLessThan(lowest);
+  });
+
+  test('should report an unmet budget after exhausting every step', () => {
+    const result = optimizer.optimizeToBudget(prompt, 5);
+
+    expect(result.budgetMet).toBe(false);
+    expect(result.escalationStep).toBe('max');
+    expect(result.escalationPatternId).toBeUndefined();
+    expect(result.maxTokens).toBe(5);
+    expect(result.optimizedTokenCount).toBeGreaterThan(5);
+    expect(result.appliedPatterns.some(pattern => pattern.category === 'max')).toBe(true);
+  });
+
+  test('should reject invalid budgets', () => {
+    expect(() => optimizer.optimizeToBudget(prompt, -1)).toThrow(OptimizerError);
+    expect(() => optimizer.optimizeToBudget(prompt, NaN)).toThrow(OptimizerError);
+  });
+
+  test('should support a token budget on the PatternOptimizer', () => {
+    const patternOptimizer = new PatternOptimizer(maxPatterns, model, true, false, { tokenBudget: 0 });
+    expect(patternOptimizer.getOptions().tokenBudget).toBe(0);
+    expect(() => patternOptimizer.setOptions({ tokenBudget: -5 })).toThrow(OptimizerError);
+  });
+});
@@ -1,5 +1,5 @@
 import { createTokenizer, countTokens } from '../src/tokenizers';
-import { OpenAITokenizer } from '../src/tokenizers';
+import { OpenAITokenizer, getOpenAIEncodingName } from '../src/tokenizers';
 import { ClaudeTokenizer } from '../src/tokenizers';
 
 describe('Tokenizer Model Support', () => {
@@ -32,6 +32,101 @@ describe('Tokenizer Model Support', () => {
     });
   });
 
+  describe('OpenAI Encodings', () => {
+    // Known token counts per encoding; o200k_base is much denser for non-English text
+    const samples: Array<[string, number, number]> = [
+      ['Hello, world!', 4, 4],
+      ['Привет, как дела? Это тест токенизации.', 18, 12],
+      ['こんにちは、世界。今日はいい天気ですね。', 17, 10]
+    ];
+
+    test('maps model families to their encoding', () => {
+      ['gpt-4o', 'gpt-4o-mini', 'gpt-4o-2024-08-06', 'gpt-4.1', 'gpt-4.1-mini', 'o1', 'o3-mini', 'o4-mini']
+        .forEach(model => expect(getOpenAIEncodingName(model)).toBe('o200k_base'));
+      ['gpt-3.5-turbo', 'gpt-4', 'gpt-4-turbo', 'gpt-4-0613', 'text-embedding-3-small', 'unknown-model']
+        .forEach(model => expect(getOpenAIEncodingName(model)).toBe('cl100k_base'));
+      expect(getOpenAIEncodingName('text-davinci-003')).toBe('p50k_base');
+    });
+
+    test('routes o-series models to the OpenAI tokenizer', () => {
+      const tokenizer = createTokenizer('o3-mini') as OpenAITokenizer;
+      expect(tokenizer).toBeInstanceOf(OpenAITokenizer);
+      expect(tokenizer.getEncodingName()).toBe('o200k_base');
+    });
+
+    test('counts known token counts with tiktoken', () => {
+      const cl100k = new OpenAITokenizer('gpt-4');
+      const o200k = new OpenAITokenizer('gpt-4o');
+      expect(o200k.isUsingTiktoken()).toBe(true);
+
+      samples.forEach(([text, cl100kCount, o200kCount]) => {
+        expect(cl100k.countTokens(text)).toBe(cl100kCount);
+        expect(o200k.countTokens(text)).toBe(o200kCount);
+      });
+    });
+
+    test('counts known token counts with the gpt-tokenizer fallback', () => {
+      jest.isolateModules(() => {
+        jest.doMock('tiktoken', () => {
+          throw new Error('tiktoken is not installed');
+        });
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const { OpenAITokenizer: FallbackTokenizer } = require('../src/tokenizers/openai-tokenizer');
+        warn.mockRestore();
+
+        const cl100k = new FallbackTokenizer('gpt-4');
+        const o200k = new FallbackTokenizer('gpt-4.1');
+        expect(o200k.isUsingTiktoken()).toBe(false);
+
+        samples.forEach(([text, cl100kCount, o200kCount]) => {
+          expect(cl100k.countTokens(text)).toBe(cl100kCount);
+          expect(o200k.countTokens(text)).toBe(o200kCount);
+        });
+      });
+    });
+
+    test('counts p50k_base models with p50k_base on the gpt-tokenizer fallback', () => {
+      const text = 'def main():\n    print("Hello,    world!")  # 你好';
+      const expected = new OpenAITokenizer('text-davinci-003').countTokens(text);
+
+      jest.isolateModules(() => {
+        jest.doMock('tiktoken', () => {
+          throw new Error('tiktoken is not installed');
+        });
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const { OpenAITokenizer: FallbackTokenizer } = require('../src/tokenizers/openai-tokenizer');
+        warn.mockRestore();
+
+        const p50k = new FallbackTokenizer('text-davinci-003');
+        expect(p50k.getEncodingName()).toBe('p50k_base');
+        expect(p50k.countTokens(text)).toBe(expected);
+        expect(p50k.countTokens(text)).not.toBe(new FallbackTokenizer('gpt-4').countTokens(text));
+      });
+    });
+
+    test('reports cl100k_base for encodings gpt-tokenizer does not have', () => {
+      jest.isolateModules(() => {
+        jest.doMock('tiktoken', () => {
+          throw new Error('tiktoken is not installed');
+        });
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const { OpenAITokenizer: FallbackTokenizer } = require('../src/tokenizers/openai-tokenizer');
+        const { registerModel } = require('../src/models');
+        registerModel({ id: 'acme-legacy', family: 'openai', tokenizer: 'openai', encoding: 'acme_base', contextWindow: 8192, maxOutputTokens: 1024 });
+        warn.mockClear();
+
+        const first = new FallbackTokenizer('acme-legacy');
+        new FallbackTokenizer('acme-legacy');
+        const unsupported = warn.mock.calls.filter(([message]) => String(message).includes('acme_base'));
+        warn.mockRestore();
+
+        expect(unsupported).toHaveLength(1);
+        expect(first.getEncodingName()).toBe('cl100k_base');
+        expect(first.countTokens('Hello, world!')).toBe(new FallbackTokenizer('gpt-4').countTokens('Hello, world!'));
+      });
+    });
+  });
+
   describe('Anthropic Latest Models', () => {
     test('supports Claude 3 Opus', () => {
       const tokenizer = createTokenizer('claude-3-opus-20240229');
@@ -0,0 +1,121 @@
+import {
+  OptimizerError,
+  PromptOptimizer,
+  PatternOptimizer,
+  DualOptimizer,
+  GenericTokenizer,
+  OpenAITokenizer,
+  TokenizerAdapter,
+  createTokenizer,
+  countTokens,
+  resolveTokenizer,
+  registerTokenizer,
+  unregisterTokenizer,
+  getRegisteredTokenizers,
+  getTokenizerRegistryVersion
+} from '../src/index';
+
+// Counts one token per character, which no built-in tokenizer does
+class CharacterTokenizer implements TokenizerAdapter {
+  constructor(private model: string) {}
+
+  countTokens(text: string): number {
+    return text.length;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+}
+
+describe('Tokenizer Registry', () => {
+  const text = 'Please summarize the quarterly report for the team.';
+
+  afterEach(() => {
+    getRegisteredTokenizers().forEach(registration => unregisterTokenizer(registration.name));
+  });
+
+  test('should resolve built-in tokenizers', () => {
+    expect(resolveTokenizer('gpt-4o-2024-08-06')).toEqual({ model: 'gpt-4o-2024-08-06', source: 'model-registry', name: 'openai' });
+    expect(resolveTokenizer('claude-3-opus')).toEqual({ model: 'claude-3-opus', source: 'model-registry', name: 'claude' });
+    expect(resolveTokenizer('gemini-9-ultra')).toMatchObject({ source: 'model-family', name: 'openai-approximation' });
+    expect(resolveTokenizer('gemini-1.5-pro')).toMatchObject({ source: 'model-registry', name: 'openai-approximation' });
+    expect(resolveTokenizer('in-house-model')).toMatchObject({ source: 'fallback', name: 'simple' });
+
+    // Approximated families keep their own model name
+    expect(createTokenizer('gemini-9-ultra').getModel()).toBe('gemini-9-ultra');
+    expect(new GenericTokenizer('in-house-model').countTokens(text)).toBeGreaterThan(0);
+  });
+
+  test('should use a registered tokenizer everywhere', () => {
+    const before = countTokens(text, 'acme-large');
+    const dual = new DualOptimizer({ model: 'acme-large', qualityVsEfficiencyBalance: 0.5 });
+
+    const name = registerTokenizer('acme-', model => new CharacterTokenizer(model), { name: 'acme' });
+    expect(name).toBe('acme');
+    expect(resolveTokenizer('ACME-large')).toEqual({ model: 'ACME-large', source: 'registered', name: 'acme' });
+    expect(createTokenizer('acme-large')).toBeInstanceOf(CharacterTokenizer);
+
+    // Cached counts from the previous tokenizer are dropped
+    expect(before).not.toBe(text.length);
+    expect(countTokens(text, 'acme-large')).toBe(text.length);
+
+    expect(new PatternOptimizer([], 'acme-large').optimize(text).originalTokenCount).toBe(text.length);
+    expect(dual.optimize(text).originalTokenCount).toBe(text.length);
+
+    const request = { model: 'acme-large', max_tokens: 256, messages: [{ role: 'user' as const, content: text }] };
+    expect(new PromptOptimizer().optimizeAnthropicRequest(request).originalTokenCount).toBe(text.length);
+  });
+
+  test('should keep the DualOptimizer tokenizer until the registry changes', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const dual = new DualOptimizer({ model: 'acme-large', qualityVsEfficiencyBalance: 0.5 });
+      dual.optimize(text);
+      dual.optimize(text);
+      expect(warn).toHaveBeenCalledTimes(1);
+
+      const version = getTokenizerRegistryVersion();
+      registerTokenizer('acme-', model => new CharacterTokenizer(model), { name: 'acme' });
+      expect(getTokenizerRegistryVersion()).not.toBe(version);
+      expect(dual.optimize(text).originalTokenCount).toBe(text.length);
+
+      unregisterTokenizer('acme');
+      expect(dual.optimize(text).originalTokenCount).not.toBe(text.length);
+      expect(warn).toHaveBeenCalledTimes(2);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test('should try registrations by priority, the latest first among equals', () => {
+    registerTokenizer(/^gpt-4o/, model => new CharacterTokenizer(model), { name: 'low', priority: -1 });
+    registerTokenizer(model => model.endsWith('-mini'), model => new GenericTokenizer(model), { name: 'minis' });
+    registerTokenizer('gpt-', model => new OpenAITokenizer(model), { name: 'gpts' });
+
+    expect(getRegisteredTokenizers().map(registration => registration.name)).toEqual(['gpts', 'minis', 'low']);
+    expect(resolveTokenizer('gpt-4o-mini').name).toBe('gpts');
+
+    registerTokenizer(/^gpt-4o/, model => new CharacterTokenizer(model), { name: 'low', priority: 5 });
+    expect(getRegisteredTokenizers().map(registration => registration.name)).toEqual(['low', 'gpts', 'minis']);
+    expect(createTokenizer('gpt-4o-mini')).toBeInstanceOf(CharacterTokenizer);
+
+    expect(unregisterTokenizer('low')).toBe(true);
+    expect(unregisterTokenizer('gpts')).toBe(true);
+    expect(createTokenizer('o4-mini')).toBeInstanceOf(GenericTokenizer);
+    expect(unregisterTokenizer('minis')).toBe(true);
+    expect(unregisterTokenizer('minis')).toBe(false);
+    expect(resolveTokenizer('o4-mini').source).toBe('model-registry');
+  });
+
+  test('should reject invalid registrations and factories', () => {
+    expect(() => registerTokenizer('', model => new GenericTokenizer(model))).toThrow(OptimizerError);
+    expect(() => registerTokenizer(42 as any, model => new GenericTokenizer(model))).toThrow(OptimizerError);
+    expect(() => registerTokenizer('acme-', 'factory' as any)).toThrow(OptimizerError);
+    expect(() => registerTokenizer('acme-', model => new GenericTokenizer(model), { priority: NaN })).toThrow(OptimizerError);
+    expect(() => registerTokenizer('acme-', model => new GenericTokenizer(model), { name: '' })).toThrow(OptimizerError);
+
+    registerTokenizer('acme-', () => ({}) as any);
+    expect(() => createTokenizer('acme-large')).toThrow(OptimizerError);
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  PromptOptimizer,
+  OptimizerError,
+  ToolDefinition,
+  ClaudeTokenizer,
+  countToolTokens,
+  minifyJsonSchema,
+  validateJsonSchema,
+  schemasStructurallyEqual
+} from '../src/index';
+
+describe('Tool Definition Optimization', () => {
+  const model = 'claude-3-5-sonnet-20240620';
+  const toolDescription = 'This tool is used in order to get the current weather for a city. Please note that it is really very accurate.';
+
+  const parameters = {
+    type: 'object',
+    title: 'GetWeather',
+    properties: {
+      city: { type: 'string', title: 'City', description: 'The name of the city' },
+      unit: { type: 'string', enum: ['celsius', 'fahrenheit'], description: 'Basically the unit of temperature' },
+      days: { type: 'integer', minimum: 1, uniqueItems: false }
+    },
+    required: ['city'],
+    additionalProperties: true
+  };
+
+  const openAITool: ToolDefinition = {
+    type: 'function',
+    function: { name: 'get_weather', description: toolDescription, parameters }
+  };
+
+  test('should minify schemas and shorten descriptions', () => {
+    const optimizer = new PromptOptimizer({ model });
+    const result = optimizer.optimizeTools([openAITool]);
+    const fn = (result.optimizedTools[0] as any).function;
+
+    expect(fn.name).toBe('get_weather');
+    expect(fn.description.length).toBeLessThan(toolDescription.length);
+    expect(fn.parameters.title).toBeUndefined();
+    expect(fn.parameters.additionalProperties).toBeUndefined();
+    expect(fn.parameters.properties.unit).toEqual({
+      enum: ['celsius', 'fahrenheit'],
+      description: 'the unit of temperature'
+    });
+    expect(fn.parameters.properties.city.type).toBe('string');
+    expect(fn.parameters.required).toEqual(['city']);
+
+    const info = result.tools[0];
+    expect(info.format).toBe('openai');
+    expect(info.schemaCheck).toBe('passed');
+    expect(info.descriptionsOptimized).toBe(2);
+    expect(info.removedKeywords).toEqual([
+      '/title',
+      '/properties/city/title',
+      '/properties/unit/type',
+      '/properties/days/uniqueItems',
+      '/additionalProperties'
+    ]);
+    expect(schemasStructurallyEqual(parameters, fn.parameters)).toBe(true);
+
+    const tokenizer = new ClaudeTokenizer(model);
+    expect(result.originalTokenCount).toBe(countToolTokens(openAITool, text => tokenizer.countTokens(text)));
+    expect(result.tokensSaved).toBeGreaterThan(0);
+    expect((openAITool as any).function.parameters).toBe(parameters);
+  });
+
+  test('should keep implied types of strict tools', () => {
+    const strictTool = { ...openAITool, function: { ...(openAITool as any).function, strict: true } };
+    const result = new PromptOptimizer({ model }).optimizeTools([strictTool], { optimizeDescriptions: false });
+    const fn = (result.optimizedTools[0] as any).function;
+
+    expect(fn.parameters.properties.unit.type).toBe('string');
+    expect(fn.description).toBe(toolDescription);
+    expect(result.tools[0].descriptionsOptimized).toBe(0);
+  });
+
+  test('should leave Anthropic tools before the cache breakpoint unchanged', () => {
+    const tools: ToolDefinition[] = [
+      { name: 'search', description: toolDescription, input_schema: parameters },
+      { name: 'lookup', description: toolDescription, input_schema: parameters, cache_control: { type: 'ephemeral' } },
+      { name: 'fetch', description: toolDescription, input_schema: parameters }
+    ];
+    const result = new PromptOptimizer({ model }).optimizeTools(tools);
+
+    expect(result.tools.map(info => [info.format, info.cached])).toEqual([
+      ['anthropic', true],
+      ['anthropic', true],
+      ['anthropic', false]
+    ]);
+    expect(result.optimizedTools[0]).toBe(tools[0]);
+    expect(result.optimizedTools[1]).toBe(tools[1]);
+    expect((result.optimizedTools[2] as any).input_schema.title).toBeUndefined();
+    expect(result.tokensSaved).toBe(result.tools[2].tokensSaved);
+  });
+
+  test('should leave invalid schemas unchanged', () => {
+    const broken = { type: 'object', title: 'Broken', properties: { a: { type: 'text' } }, required: ['b'] };
+    const result = new PromptOptimizer({ model }).optimizeTools([
+      { name: 'broken', input_schema: broken }
+    ]);
+
+    expect(result.tools[0].schemaCheck).toBe('invalid-input');
+    expect(result.tools[0].schemaProblems).toEqual([
+      '/required: b is not a declared property',
+      '/properties/a/type: invalid type "text"'
+    ]);
+    expect(result.optimizedTools[0]).toEqual({ name: 'broken', input_schema: broken });
+  });
+
+  test('should detect schemas that accept different values', () => {
+    const { schema } = minifyJsonSchema(parameters);
+    expect(validateJsonSchema(schema)).toEqual([]);
+
+    expect(schemasStructurallyEqual(parameters, { ...parameters, required: ['city', 'unit'] })).toBe(false);
+    expect(schemasStructurallyEqual(parameters, { ...parameters, additionalProperties: false })).toBe(false);
+    expect(schemasStructurallyEqual(
+      { type: 'number', enum: [1, 2] },
+      minifyJsonSchema({ type: 'number', enum: [1, 2] }).schema
+    )).toBe(true);
+    expect(minifyJsonSchema({ type: 'number', enum: [1, 2] }).removed).toEqual([]);
+  });
+
+  test('should reject invalid tool definitions', () => {
+    const optimizer = new PromptOptimizer({ model });
+
+    expect(() => optimizer.optimizeTools({} as any)).toThrow(OptimizerError);
+    expect(() => optimizer.optimizeTools([{ type: 'function', function: {} } as any])).toThrow(OptimizerError);
+    expect(() => optimizer.optimizeTools([{ name: 'no_schema' } as any])).toThrow(OptimizerError);
+  });
+});
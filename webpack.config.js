@@ -15,6 +15,7 @@ module.exports = {
     extensions: ['.ts', '.js'],
     fallback: {
       'fs': false,
+      'vm': false,
       'path': require.resolve('path-browserify')
     }
   },